@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "calls" ADD COLUMN     "direction" TEXT NOT NULL DEFAULT 'outbound';
+
+-- CreateTable
+CREATE TABLE "inbound_numbers" (
+    "id" TEXT NOT NULL,
+    "phone_number" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "agent_prompt" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "inbound_numbers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inbound_numbers_phone_number_key" ON "inbound_numbers"("phone_number");
+
+-- CreateIndex
+CREATE INDEX "inbound_numbers_user_id_idx" ON "inbound_numbers"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "inbound_numbers" ADD CONSTRAINT "inbound_numbers_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "calls" ADD COLUMN     "end_reason" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "calls" ADD COLUMN     "answered_at" TIMESTAMP(3),
+ADD COLUMN     "duration_seconds" INTEGER,
+ADD COLUMN     "sip_response_code" INTEGER,
+ADD COLUMN     "twilio_status" TEXT;
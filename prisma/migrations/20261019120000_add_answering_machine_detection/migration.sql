@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "calls" ADD COLUMN     "answered_by" TEXT,
+ADD COLUMN     "voicemail_detection" BOOLEAN NOT NULL DEFAULT false;
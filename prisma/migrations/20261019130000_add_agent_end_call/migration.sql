@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "calls" ADD COLUMN     "end_detail" TEXT,
+ADD COLUMN     "keyword_hangup" BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "calls" ADD COLUMN     "language" TEXT,
+ADD COLUMN     "model" TEXT,
+ADD COLUMN     "temperature" DOUBLE PRECISION,
+ADD COLUMN     "transcription_model" TEXT,
+ADD COLUMN     "voice" TEXT;
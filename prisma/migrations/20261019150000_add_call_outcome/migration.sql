@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "calls" ADD COLUMN     "outcome" JSONB,
+ADD COLUMN     "outcome_errors" JSONB,
+ADD COLUMN     "outcome_schema" JSONB,
+ADD COLUMN     "outcome_source" TEXT,
+ADD COLUMN     "outcome_valid" BOOLEAN;
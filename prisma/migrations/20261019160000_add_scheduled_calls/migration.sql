@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "scheduled_calls" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "to_number" TEXT NOT NULL,
+    "request" JSONB NOT NULL,
+    "scheduled_for" TIMESTAMP(3) NOT NULL,
+    "timezone" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "claimed_at" TIMESTAMP(3),
+    "call_sid" TEXT,
+    "last_error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scheduled_calls_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "scheduled_call_attempts" (
+    "id" TEXT NOT NULL,
+    "scheduled_call_id" TEXT NOT NULL,
+    "call_sid" TEXT,
+    "status" TEXT NOT NULL,
+    "error" TEXT,
+    "attempted_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "scheduled_call_attempts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "scheduled_calls_status_scheduled_for_idx" ON "scheduled_calls"("status", "scheduled_for");
+
+-- CreateIndex
+CREATE INDEX "scheduled_calls_user_id_idx" ON "scheduled_calls"("user_id");
+
+-- CreateIndex
+CREATE INDEX "scheduled_call_attempts_scheduled_call_id_idx" ON "scheduled_call_attempts"("scheduled_call_id");
+
+-- AddForeignKey
+ALTER TABLE "scheduled_calls" ADD CONSTRAINT "scheduled_calls_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scheduled_call_attempts" ADD CONSTRAINT "scheduled_call_attempts_scheduled_call_id_fkey" FOREIGN KEY ("scheduled_call_id") REFERENCES "scheduled_calls"("id") ON DELETE CASCADE ON UPDATE CASCADE;
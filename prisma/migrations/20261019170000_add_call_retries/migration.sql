@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "calls" ADD COLUMN     "attempt_number" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "next_retry_at" TIMESTAMP(3),
+ADD COLUMN     "parent_call_id" TEXT,
+ADD COLUMN     "retry_error" TEXT,
+ADD COLUMN     "retry_policy" JSONB;
+
+-- CreateIndex
+CREATE INDEX "calls_parent_call_id_idx" ON "calls"("parent_call_id");
+
+-- CreateIndex
+CREATE INDEX "calls_next_retry_at_idx" ON "calls"("next_retry_at");
+
+-- AddForeignKey
+ALTER TABLE "calls" ADD CONSTRAINT "calls_parent_call_id_fkey" FOREIGN KEY ("parent_call_id") REFERENCES "calls"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE "campaigns" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "prompt_template" TEXT NOT NULL,
+    "call_options" JSONB NOT NULL,
+    "max_concurrency" INTEGER NOT NULL,
+    "calling_windows" JSONB,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "campaigns_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "campaign_members" (
+    "id" TEXT NOT NULL,
+    "campaign_id" TEXT NOT NULL,
+    "phone_number" TEXT NOT NULL,
+    "variables" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "result" TEXT,
+    "error" TEXT,
+    "call_id" TEXT,
+    "claimed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "campaign_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "campaigns_user_id_idx" ON "campaigns"("user_id");
+
+-- CreateIndex
+CREATE INDEX "campaigns_status_idx" ON "campaigns"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "campaign_members_call_id_key" ON "campaign_members"("call_id");
+
+-- CreateIndex
+CREATE INDEX "campaign_members_campaign_id_status_idx" ON "campaign_members"("campaign_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "campaigns" ADD CONSTRAINT "campaigns_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "campaign_members" ADD CONSTRAINT "campaign_members_campaign_id_fkey" FOREIGN KEY ("campaign_id") REFERENCES "campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "campaign_members" ADD CONSTRAINT "campaign_members_call_id_fkey" FOREIGN KEY ("call_id") REFERENCES "calls"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "calls" ADD COLUMN     "record" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "call_recordings" (
+    "id" TEXT NOT NULL,
+    "call_id" TEXT NOT NULL,
+    "recording_sid" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "url" TEXT,
+    "duration_seconds" INTEGER,
+    "channels" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "call_recordings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "call_recordings_recording_sid_key" ON "call_recordings"("recording_sid");
+
+-- CreateIndex
+CREATE INDEX "call_recordings_call_id_idx" ON "call_recordings"("call_id");
+
+-- AddForeignKey
+ALTER TABLE "call_recordings" ADD CONSTRAINT "call_recordings_call_id_fkey" FOREIGN KEY ("call_id") REFERENCES "calls"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "call_recordings" ADD COLUMN     "source" TEXT NOT NULL DEFAULT 'twilio',
+ADD COLUMN     "storage_key" TEXT;
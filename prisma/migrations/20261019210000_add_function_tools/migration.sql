@@ -0,0 +1,47 @@
+-- AlterTable
+ALTER TABLE "calls" ADD COLUMN     "function_tools" JSONB;
+
+-- CreateTable
+CREATE TABLE "function_tools" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "parameters" JSONB NOT NULL,
+    "endpoint" TEXT NOT NULL,
+    "timeout_ms" INTEGER NOT NULL,
+    "headers" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "function_tools_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "function_invocations" (
+    "id" TEXT NOT NULL,
+    "call_id" TEXT NOT NULL,
+    "tool_name" TEXT NOT NULL,
+    "function_call_id" TEXT NOT NULL,
+    "arguments" JSONB NOT NULL,
+    "status" TEXT NOT NULL,
+    "http_status" INTEGER,
+    "output" TEXT,
+    "error" TEXT,
+    "duration_ms" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "function_invocations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "function_tools_user_id_name_key" ON "function_tools"("user_id", "name");
+
+-- CreateIndex
+CREATE INDEX "function_invocations_call_id_idx" ON "function_invocations"("call_id");
+
+-- AddForeignKey
+ALTER TABLE "function_tools" ADD CONSTRAINT "function_tools_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "function_invocations" ADD CONSTRAINT "function_invocations_call_id_fkey" FOREIGN KEY ("call_id") REFERENCES "calls"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "max_call_duration_seconds" INTEGER,
+ADD COLUMN     "silence_timeout_seconds" INTEGER,
+ADD COLUMN     "silence_action" TEXT;
+
+-- AlterTable
+ALTER TABLE "calls" ADD COLUMN     "max_duration_seconds" INTEGER,
+ADD COLUMN     "silence_timeout_seconds" INTEGER,
+ADD COLUMN     "silence_action" TEXT;
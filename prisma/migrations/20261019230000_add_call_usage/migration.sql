@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "call_usage" (
+    "id" TEXT NOT NULL,
+    "call_id" TEXT NOT NULL,
+    "model" TEXT,
+    "responses" INTEGER NOT NULL DEFAULT 0,
+    "input_text_tokens" INTEGER NOT NULL DEFAULT 0,
+    "input_audio_tokens" INTEGER NOT NULL DEFAULT 0,
+    "cached_text_tokens" INTEGER NOT NULL DEFAULT 0,
+    "cached_audio_tokens" INTEGER NOT NULL DEFAULT 0,
+    "output_text_tokens" INTEGER NOT NULL DEFAULT 0,
+    "output_audio_tokens" INTEGER NOT NULL DEFAULT 0,
+    "billed_seconds" INTEGER,
+    "billed_minutes" INTEGER,
+    "openai_cost_usd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "twilio_cost_usd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "call_usage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "call_usage_call_id_key" ON "call_usage"("call_id");
+
+-- AddForeignKey
+ALTER TABLE "call_usage" ADD CONSTRAINT "call_usage_call_id_fkey" FOREIGN KEY ("call_id") REFERENCES "calls"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "allowed_countries" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "destination_rules" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT,
+    "action" TEXT NOT NULL,
+    "pattern" TEXT NOT NULL,
+    "note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "destination_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "destination_rejections" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "to_number" TEXT NOT NULL,
+    "normalized_number" TEXT,
+    "reason" TEXT NOT NULL,
+    "detail" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "destination_rejections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "destination_rules_user_id_idx" ON "destination_rules"("user_id");
+
+-- CreateIndex
+CREATE INDEX "destination_rejections_user_id_created_at_idx" ON "destination_rejections"("user_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "destination_rules" ADD CONSTRAINT "destination_rules_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "destination_rejections" ADD CONSTRAINT "destination_rejections_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
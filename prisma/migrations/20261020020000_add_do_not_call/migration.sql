@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "do_not_call" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "phone_number" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "call_sid" TEXT,
+    "note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "do_not_call_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "do_not_call_user_id_phone_number_key" ON "do_not_call"("user_id", "phone_number");
+
+-- AddForeignKey
+ALTER TABLE "do_not_call" ADD CONSTRAINT "do_not_call_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
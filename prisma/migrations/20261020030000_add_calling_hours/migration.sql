@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "calling_windows" JSONB,
+ADD COLUMN     "outside_hours_action" TEXT;
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "tenant_credentials" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT,
+    "team_id" TEXT,
+    "twilio_account_sid" TEXT,
+    "twilio_auth_token" TEXT,
+    "twilio_number" TEXT,
+    "openai_api_key" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tenant_credentials_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tenant_credentials_user_id_key" ON "tenant_credentials"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tenant_credentials_team_id_key" ON "tenant_credentials"("team_id");
+
+-- CreateIndex
+CREATE INDEX "tenant_credentials_twilio_account_sid_idx" ON "tenant_credentials"("twilio_account_sid");
+
+-- AddForeignKey
+ALTER TABLE "tenant_credentials" ADD CONSTRAINT "tenant_credentials_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tenant_credentials" ADD CONSTRAINT "tenant_credentials_team_id_fkey" FOREIGN KEY ("team_id") REFERENCES "teams"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "calls" ADD COLUMN     "provider" TEXT NOT NULL DEFAULT 'twilio';
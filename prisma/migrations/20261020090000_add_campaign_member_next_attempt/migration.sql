@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "campaign_members" ADD COLUMN     "next_attempt_at" TIMESTAMP(3);
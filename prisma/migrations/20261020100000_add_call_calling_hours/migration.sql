@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "calls" ADD COLUMN     "calling_windows" JSONB,
+ADD COLUMN     "timezone" TEXT;
@@ -9,5 +9,98 @@ export const LOG_EVENT_TYPES = [
 export const DYNAMIC_API_SECRET = Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
 export const SHOW_TIMING_MATH = false;
 export const VOICE = 'sage';
+export const DEFAULT_TEMPERATURE = 0.6;
+export const MIN_TEMPERATURE = 0.6;
+export const MAX_TEMPERATURE = 1.2;
+export const DEFAULT_TRANSCRIPTION_MODEL = 'whisper-1';
+export const OUTCOME_EXTRACTION_MODEL = process.env.OUTCOME_EXTRACTION_MODEL || 'gpt-4o-mini';
+export const OUTCOME_EXTRACTION_DELAY_MS = 3000;
+export const DEFAULT_OPENAI_WEBSOCKET_URL = 'wss://api.openai.com/v1/realtime?model=gpt-4o-mini-realtime-preview';
+export const DEFAULT_OPENAI_GA_WEBSOCKET_URL = 'wss://api.openai.com/v1/realtime?model=gpt-realtime';
+export const DEFAULT_AZURE_OPENAI_API_VERSION = '2024-10-01-preview';
+
+// Allowlists for per-call realtime session settings
+export const REALTIME_VOICES = ['alloy', 'ash', 'ballad', 'coral', 'echo', 'sage', 'shimmer', 'verse'] as const;
+export const REALTIME_MODELS = [
+    'gpt-4o-realtime-preview',
+    'gpt-4o-realtime-preview-2024-12-17',
+    'gpt-4o-mini-realtime-preview',
+    'gpt-4o-mini-realtime-preview-2024-12-17',
+    'gpt-realtime',
+    'gpt-realtime-2025-08-28',
+] as const;
+export const TRANSCRIPTION_MODELS = ['whisper-1', 'gpt-4o-transcribe', 'gpt-4o-mini-transcribe'] as const;
+export const SUPPORTED_LANGUAGES = ['en', 'de', 'es', 'fr', 'it', 'pt', 'nl', 'pl', 'sv', 'da', 'no', 'fi', 'tr', 'ru', 'uk', 'ja', 'ko', 'zh', 'hi', 'ar'] as const;
+export const LANGUAGE_NAMES: Record<typeof SUPPORTED_LANGUAGES[number], string> = {
+    en: 'English',
+    de: 'German',
+    es: 'Spanish',
+    fr: 'French',
+    it: 'Italian',
+    pt: 'Portuguese',
+    nl: 'Dutch',
+    pl: 'Polish',
+    sv: 'Swedish',
+    da: 'Danish',
+    no: 'Norwegian',
+    fi: 'Finnish',
+    tr: 'Turkish',
+    ru: 'Russian',
+    uk: 'Ukrainian',
+    ja: 'Japanese',
+    ko: 'Korean',
+    zh: 'Chinese',
+    hi: 'Hindi',
+    ar: 'Arabic',
+};
 export const RECORD_CALLS = process.env.RECORD === 'true';
+export const SCHEDULER_BATCH_SIZE = 10;
+export const MAX_SCHEDULED_DIAL_ATTEMPTS = 3;
+export const SCHEDULED_DIAL_RETRY_DELAY_MS = 60 * 1000;
+export const SCHEDULED_CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+export const MAX_RETRY_ATTEMPTS = 5;
+export const MIN_RETRY_BACKOFF_SECONDS = 30;
+export const DEFAULT_RETRY_BACKOFF_SECONDS = 300;
+export const DEFAULT_RETRY_BACKOFF_MULTIPLIER = 2;
+export const MAX_CAMPAIGN_RECIPIENTS = 500;
+export const MAX_CAMPAIGN_CONCURRENCY = 10;
+export const CAMPAIGN_CALL_SETTLE_MS = 2 * 60 * 1000;
+export const DEFAULT_FUNCTION_TIMEOUT_MS = 10000;
+export const MAX_FUNCTION_TIMEOUT_MS = 30000;
+export const MAX_FUNCTION_OUTPUT_CHARS = 4000;
+export const FUNCTION_FILLER_DELAY_MS = 1500;
+export const FUNCTION_FILLER_INTERVAL_MS = 8000;
+export const DEFAULT_MAX_CALL_DURATION_SECONDS = 30 * 60;
+export const MIN_CALL_DURATION_SECONDS = 60;
+export const MAX_CALL_DURATION_SECONDS = 4 * 60 * 60;
+export const WRAP_UP_WARNING_SECONDS = 60;
+export const DEFAULT_SILENCE_TIMEOUT_SECONDS = 20;
+export const MIN_SILENCE_TIMEOUT_SECONDS = 5;
+export const MAX_SILENCE_TIMEOUT_SECONDS = 5 * 60;
+export const DEFAULT_QUOTA_PLAN = 'default';
+export const DEFAULT_MAX_CONCURRENT_CALLS = 3;
+export const DEFAULT_MAX_CALLS_PER_HOUR = 20;
+export const DEFAULT_MAX_CALLS_PER_DAY = 100;
+export const DEFAULT_MONTHLY_MINUTES = 500;
+export const DEFAULT_CALLING_HOURS_START = '08:00';
+export const DEFAULT_CALLING_HOURS_END = '21:00';
+export const HANGUP_MARK = 'hangup';
+export const HANGUP_MARK_TIMEOUT_MS = 15000;
+// The call row may be committed just after the carrier connects the media stream
+export const CALL_LOOKUP_ATTEMPTS = 5;
+export const CALL_LOOKUP_RETRY_MS = 400;
+export const SIMULATED_DIAL_DELAY_MS = 1000;
+export const SIMULATED_RING_TIMEOUT_MS = 30000;
+// Cascaded speech-to-text, chat model and text-to-speech pipeline
+export const DEFAULT_PIPELINE_STT_URL = 'https://api.openai.com/v1/audio/transcriptions';
+export const DEFAULT_PIPELINE_LLM_BASE_URL = 'https://api.openai.com/v1';
+export const DEFAULT_PIPELINE_LLM_MODEL = 'gpt-4o-mini';
+export const DEFAULT_PIPELINE_TTS_URL = 'https://api.openai.com/v1/audio/speech';
+export const DEFAULT_PIPELINE_TTS_MODEL = 'gpt-4o-mini-tts';
+export const DEFAULT_PIPELINE_TTS_SAMPLE_RATE = 24000;
+export const PIPELINE_VAD_FRAME_MS = 20;
+export const PIPELINE_SPEECH_START_MS = 100;
+export const PIPELINE_SPEECH_END_MS = 700;
+export const PIPELINE_PREROLL_MS = 300;
+export const PIPELINE_MAX_UTTERANCE_MS = 30000;
 export const GOODBYE_PHRASES = ['bye', 'goodbye', 'have a nice day', 'have a great day', 'see you', 'take care', 'thank you'];
@@ -0,0 +1,196 @@
+// Country calling codes and the ISO 3166-1 alpha-2 countries they are assigned to.
+// Codes shared by several countries list the most common one first.
+export const CALLING_CODES: Record<string, string[]> = {
+    '1': ['US', 'CA'],
+    '7': ['RU', 'KZ'],
+    '20': ['EG'],
+    '27': ['ZA'],
+    '30': ['GR'],
+    '31': ['NL'],
+    '32': ['BE'],
+    '33': ['FR'],
+    '34': ['ES'],
+    '36': ['HU'],
+    '39': ['IT'],
+    '40': ['RO'],
+    '41': ['CH'],
+    '43': ['AT'],
+    '44': ['GB'],
+    '45': ['DK'],
+    '46': ['SE'],
+    '47': ['NO'],
+    '48': ['PL'],
+    '49': ['DE'],
+    '51': ['PE'],
+    '52': ['MX'],
+    '53': ['CU'],
+    '54': ['AR'],
+    '55': ['BR'],
+    '56': ['CL'],
+    '57': ['CO'],
+    '58': ['VE'],
+    '60': ['MY'],
+    '61': ['AU'],
+    '62': ['ID'],
+    '63': ['PH'],
+    '64': ['NZ'],
+    '65': ['SG'],
+    '66': ['TH'],
+    '81': ['JP'],
+    '82': ['KR'],
+    '84': ['VN'],
+    '86': ['CN'],
+    '90': ['TR'],
+    '91': ['IN'],
+    '92': ['PK'],
+    '94': ['LK'],
+    '212': ['MA'],
+    '213': ['DZ'],
+    '216': ['TN'],
+    '234': ['NG'],
+    '254': ['KE'],
+    '351': ['PT'],
+    '352': ['LU'],
+    '353': ['IE'],
+    '354': ['IS'],
+    '356': ['MT'],
+    '357': ['CY'],
+    '358': ['FI'],
+    '359': ['BG'],
+    '370': ['LT'],
+    '371': ['LV'],
+    '372': ['EE'],
+    '380': ['UA'],
+    '385': ['HR'],
+    '386': ['SI'],
+    '420': ['CZ'],
+    '421': ['SK'],
+    '852': ['HK'],
+    '886': ['TW'],
+    '966': ['SA'],
+    '971': ['AE'],
+    '972': ['IL'],
+    '974': ['QA'],
+};
+
+// North American area codes in Canada (all other +1 numbers are treated as US)
+export const CANADIAN_AREA_CODES = [
+    '204', '226', '236', '249', '250', '263', '289', '306', '343', '354', '365', '367', '368', '382', '387',
+    '403', '416', '418', '428', '431', '437', '438', '450', '468', '474', '506', '514', '519', '548', '579',
+    '581', '584', '587', '604', '613', '639', '647', '672', '683', '705', '709', '742', '753', '778', '780',
+    '782', '807', '819', '825', '867', '873', '879', '902', '905',
+];
+
+// Emergency service numbers, as dialled locally or after a country code
+export const EMERGENCY_NUMBERS = [
+    '000', '08', '100', '101', '102', '103', '108', '110', '111', '112', '113', '115', '117', '118', '119',
+    '122', '123', '15', '17', '18', '190', '191', '192', '193', '197', '199', '911', '999',
+];
+
+// E.164 prefixes of premium-rate and directory services
+export const PREMIUM_RATE_PREFIXES = [
+    '+1900', '+1976',
+    '+44871', '+44872', '+44873', '+4490', '+4491', '+4498', '+44118',
+    '+49900', '+49137', '+49118',
+    '+3389',
+    '+34803', '+34806', '+34807', '+34905',
+    '+39892', '+39895', '+39899',
+    '+31900', '+31906', '+31909',
+    '+3290',
+    '+4190',
+    '+43900', '+43930', '+43939',
+    '+4590',
+    '+46900', '+46939', '+46944',
+    '+47820', '+47829',
+    '+4870',
+    '+35315',
+    '+61190',
+    '+64900',
+];
+
+// IANA time zone of each country above. Countries spanning several zones map to the one
+// most of their population lives in; North American numbers are refined by area code.
+export const COUNTRY_TIME_ZONES: Record<string, string> = {
+    US: 'America/New_York', CA: 'America/Toronto', RU: 'Europe/Moscow', KZ: 'Asia/Almaty',
+    EG: 'Africa/Cairo', ZA: 'Africa/Johannesburg', GR: 'Europe/Athens', NL: 'Europe/Amsterdam',
+    BE: 'Europe/Brussels', FR: 'Europe/Paris', ES: 'Europe/Madrid', HU: 'Europe/Budapest',
+    IT: 'Europe/Rome', RO: 'Europe/Bucharest', CH: 'Europe/Zurich', AT: 'Europe/Vienna',
+    GB: 'Europe/London', DK: 'Europe/Copenhagen', SE: 'Europe/Stockholm', NO: 'Europe/Oslo',
+    PL: 'Europe/Warsaw', DE: 'Europe/Berlin', PE: 'America/Lima', MX: 'America/Mexico_City',
+    CU: 'America/Havana', AR: 'America/Argentina/Buenos_Aires', BR: 'America/Sao_Paulo', CL: 'America/Santiago',
+    CO: 'America/Bogota', VE: 'America/Caracas', MY: 'Asia/Kuala_Lumpur', AU: 'Australia/Sydney',
+    ID: 'Asia/Jakarta', PH: 'Asia/Manila', NZ: 'Pacific/Auckland', SG: 'Asia/Singapore',
+    TH: 'Asia/Bangkok', JP: 'Asia/Tokyo', KR: 'Asia/Seoul', VN: 'Asia/Ho_Chi_Minh',
+    CN: 'Asia/Shanghai', TR: 'Europe/Istanbul', IN: 'Asia/Kolkata', PK: 'Asia/Karachi',
+    LK: 'Asia/Colombo', MA: 'Africa/Casablanca', DZ: 'Africa/Algiers', TN: 'Africa/Tunis',
+    NG: 'Africa/Lagos', KE: 'Africa/Nairobi', PT: 'Europe/Lisbon', LU: 'Europe/Luxembourg',
+    IE: 'Europe/Dublin', IS: 'Atlantic/Reykjavik', MT: 'Europe/Malta', CY: 'Asia/Nicosia',
+    FI: 'Europe/Helsinki', BG: 'Europe/Sofia', LT: 'Europe/Vilnius', LV: 'Europe/Riga',
+    EE: 'Europe/Tallinn', UA: 'Europe/Kyiv', HR: 'Europe/Zagreb', SI: 'Europe/Ljubljana',
+    CZ: 'Europe/Prague', SK: 'Europe/Bratislava', HK: 'Asia/Hong_Kong', TW: 'Asia/Taipei',
+    SA: 'Asia/Riyadh', AE: 'Asia/Dubai', IL: 'Asia/Jerusalem', QA: 'Asia/Qatar',
+};
+
+// North American area codes by IANA time zone. Area codes spanning two zones are
+// listed under the zone most of their numbers are in.
+export const NANP_AREA_CODE_TIME_ZONES: Record<string, string[]> = {
+    'America/New_York': [
+        // CT, DE, DC, FL, GA, IN, KY (east), ME, MD, MA, MI
+        '203', '475', '860', '959', '302', '202', '771', '239', '305', '321', '324', '352', '386', '407', '448',
+        '561', '645', '656', '689', '727', '754', '772', '786', '813', '850', '863', '904', '941', '954',
+        '229', '404', '470', '478', '678', '706', '762', '770', '912', '943', '260', '317', '463', '574', '765',
+        '812', '930', '502', '606', '859', '207', '240', '301', '410', '443', '667', '339', '351', '413', '508',
+        '617', '774', '781', '857', '978', '231', '248', '269', '313', '517', '586', '616', '679', '734', '810',
+        '906', '947', '989',
+        // NH, NJ, NY, NC, OH, PA, RI, SC, TN (east), VT, VA, WV
+        '603', '201', '551', '609', '640', '732', '848', '856', '862', '908', '973', '212', '315', '329', '332',
+        '347', '363', '516', '518', '585', '607', '624', '631', '646', '680', '716', '718', '838', '845', '914',
+        '917', '929', '934', '252', '336', '472', '704', '743', '828', '910', '919', '980', '984', '216', '220',
+        '234', '283', '326', '330', '380', '419', '436', '440', '513', '567', '614', '740', '937', '215', '223',
+        '267', '272', '412', '445', '484', '570', '582', '610', '717', '724', '814', '835', '878', '401', '803',
+        '821', '839', '843', '854', '864', '423', '865', '802', '276', '434', '540', '571', '703', '757', '804',
+        '826', '948', '304', '681',
+        // Ontario and Quebec
+        '226', '249', '289', '343', '365', '382', '416', '437', '519', '548', '613', '647', '683', '705', '742',
+        '753', '807', '905', '263', '354', '367', '418', '438', '450', '468', '514', '579', '581', '819', '873',
+    ],
+    'America/Chicago': [
+        // AL, AR, IL, IN (northwest), IA, KS, KY (west), LA, MN, MS, MO, NE, ND, OK, SD, TN, TX, WI
+        '205', '251', '256', '334', '483', '659', '938', '479', '501', '870', '217', '224', '309', '312', '331',
+        '447', '464', '618', '630', '708', '730', '773', '779', '815', '847', '861', '872', '219', '319', '515',
+        '563', '641', '712', '316', '620', '785', '913', '270', '364', '225', '318', '337', '504', '985', '218',
+        '320', '507', '612', '651', '763', '952', '228', '601', '662', '769', '314', '417', '557', '573', '636',
+        '660', '816', '975', '308', '402', '531', '701', '405', '539', '572', '580', '918', '605', '615', '629',
+        '731', '901', '931', '210', '214', '254', '281', '325', '346', '361', '409', '430', '432', '469', '512',
+        '682', '713', '726', '737', '806', '817', '830', '832', '903', '936', '940', '945', '956', '972', '979',
+        '262', '274', '414', '534', '608', '715', '920',
+    ],
+    'America/Winnipeg': ['204', '431'],
+    'America/Regina': ['306', '474', '639'],
+    'America/Denver': [
+        // CO, ID, MT, NM, TX (El Paso), UT, WY
+        '303', '719', '720', '970', '983', '208', '986', '406', '505', '575', '915', '385', '435', '801', '307',
+    ],
+    'America/Edmonton': ['368', '403', '587', '780', '825', '867'],
+    'America/Phoenix': ['480', '520', '602', '623', '928'],
+    'America/Los_Angeles': [
+        // CA, NV, OR, WA
+        '209', '213', '279', '310', '323', '341', '350', '369', '408', '415', '424', '442', '510', '530', '559',
+        '562', '619', '626', '628', '650', '657', '661', '669', '707', '714', '747', '760', '805', '818', '820',
+        '831', '840', '858', '909', '916', '925', '949', '951', '702', '725', '775', '458', '503', '541', '971',
+        '206', '253', '360', '425', '509', '564',
+    ],
+    'America/Vancouver': ['236', '250', '604', '672', '778'],
+    'America/Anchorage': ['907'],
+    'Pacific/Honolulu': ['808'],
+    'America/Halifax': ['782', '902'],
+    'America/Moncton': ['428', '506'],
+    'America/St_Johns': ['709', '879'],
+    'America/Puerto_Rico': ['787', '939', '340'],
+    'America/Jamaica': ['658', '876'],
+    'America/Nassau': ['242'],
+    'America/Barbados': ['246'],
+    'Atlantic/Bermuda': ['441'],
+    'Pacific/Guam': ['671', '670'],
+    'Pacific/Pago_Pago': ['684'],
+};
@@ -0,0 +1,126 @@
+/**
+ * OpenAI realtime prices in USD per million tokens. Chat models used by the pipeline
+ * backend are priced the same way, with no audio tokens.
+ */
+export interface RealtimeModelPrices {
+    textInput: number;
+    cachedTextInput: number;
+    textOutput: number;
+    audioInput: number;
+    cachedAudioInput: number;
+    audioOutput: number;
+}
+
+/**
+ * Prices used to estimate what a call cost. Twilio bills per started minute.
+ */
+export interface PriceTable {
+    realtime: Record<string, RealtimeModelPrices>;
+    // Speech-to-text and text-to-speech of the pipeline backend, per minute of audio
+    speech: {
+        transcriptionPerMinute: number;
+        synthesisPerMinute: number;
+    };
+    twilio: {
+        outboundPerMinute: number;
+        inboundPerMinute: number;
+    };
+}
+
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+    realtime: {
+        'gpt-4o-realtime-preview': {
+            textInput: 5,
+            cachedTextInput: 2.5,
+            textOutput: 20,
+            audioInput: 40,
+            cachedAudioInput: 2.5,
+            audioOutput: 80
+        },
+        'gpt-4o-mini-realtime-preview': {
+            textInput: 0.6,
+            cachedTextInput: 0.3,
+            textOutput: 2.4,
+            audioInput: 10,
+            cachedAudioInput: 0.3,
+            audioOutput: 20
+        },
+        'gpt-realtime': {
+            textInput: 4,
+            cachedTextInput: 0.4,
+            textOutput: 16,
+            audioInput: 32,
+            cachedAudioInput: 0.4,
+            audioOutput: 64
+        },
+        'gpt-4o-mini': {
+            textInput: 0.15,
+            cachedTextInput: 0.075,
+            textOutput: 0.6,
+            audioInput: 0,
+            cachedAudioInput: 0,
+            audioOutput: 0
+        },
+        'gpt-4o': {
+            textInput: 2.5,
+            cachedTextInput: 1.25,
+            textOutput: 10,
+            audioInput: 0,
+            cachedAudioInput: 0,
+            audioOutput: 0
+        }
+    },
+    speech: {
+        transcriptionPerMinute: 0.006,
+        synthesisPerMinute: 0.015
+    },
+    twilio: {
+        outboundPerMinute: 0.014,
+        inboundPerMinute: 0.0085
+    }
+};
+
+let priceTable: PriceTable | null = null;
+
+/**
+ * Get the price table: the defaults above, with any prices given as JSON in
+ * USAGE_PRICE_TABLE (same shape, every part optional) taking precedence
+ */
+export function getPriceTable(): PriceTable {
+    if (priceTable) {
+        return priceTable;
+    }
+
+    priceTable = DEFAULT_PRICE_TABLE;
+    if (process.env.USAGE_PRICE_TABLE) {
+        try {
+            const overrides = JSON.parse(process.env.USAGE_PRICE_TABLE) as Partial<PriceTable>;
+            priceTable = {
+                realtime: { ...DEFAULT_PRICE_TABLE.realtime, ...overrides.realtime },
+                speech: { ...DEFAULT_PRICE_TABLE.speech, ...overrides.speech },
+                twilio: { ...DEFAULT_PRICE_TABLE.twilio, ...overrides.twilio }
+            };
+        } catch (error) {
+            console.error('Ignoring invalid USAGE_PRICE_TABLE:', error);
+        }
+    }
+
+    return priceTable;
+}
+
+/**
+ * Find the prices of a realtime model. Dated snapshots such as
+ * gpt-4o-realtime-preview-2024-12-17 use the prices of their base model.
+ */
+export function getRealtimeModelPrices(model: string): RealtimeModelPrices | null {
+    const prices = getPriceTable().realtime;
+    if (prices[model]) {
+        return prices[model];
+    }
+
+    const baseModel = Object.keys(prices)
+        .filter(name => model.startsWith(`${name}-`))
+        .sort((a, b) => b.length - a.length)[0];
+
+    return baseModel ? prices[baseModel] : null;
+}
@@ -37,7 +37,7 @@ export const generateOutboundCallContext = (callState: CallState, callContext?:
         const cleanedContext = cleanPromptFormatting(callContext);
         return `${cleanedContext}
 
-[Call Info: Your outbound number is ${callState.fromNumber}. Calling ${callState.toNumber}.]`;
+[Call Info: Your outbound number is ${callState.fromNumber}. Calling ${callState.toNumber}. When the conversation is over, say goodbye and then call the end_call function.]`;
     }
 
     // Standard wrapper for simple prompts
@@ -45,7 +45,7 @@ export const generateOutboundCallContext = (callState: CallState, callContext?:
     Stay concise and short.
     You are assistant (if asked, your phone number with country code is: ${callState.fromNumber}). You are making an outbound call.
     Be friendly and speak in human short sentences. Start conversation with how are you. Do not speak in bullet points. Ask one question at a time, tell one sentence at a time.
-    After successful task completion, say goodbye and end the conversation.
+    After successful task completion, say goodbye and then call the end_call function to hang up.
      You ARE NOT a receptionist, NOT an administrator, NOT a person making reservation.
      You do not provide any other info, which is not related to the goal. You are calling solely to achieve your tasks.
     You are the customer making a request, not the restaurant staff.
@@ -53,3 +53,65 @@ export const generateOutboundCallContext = (callState: CallState, callContext?:
      Be focused solely on your task:
         ${callContext ? callContext : ''}`;
 };
+
+export const generateLanguageInstruction = (languageName: string): string => {
+    return `Speak ${languageName} for the whole call, like a native speaker. Only switch language if the other person asks you to.`;
+};
+
+export const generateOutcomeInstruction = (): string => {
+    return 'As soon as you know the result of the call, record it with the record_outcome function before saying goodbye.';
+};
+
+export const generateFunctionFillerInstruction = (): string => {
+    return 'You are waiting for a lookup to finish. Say one short, natural sentence to let the caller know you are still checking, such as "Just a moment, I\'m still looking that up." Do not guess the result and do not ask a question.';
+};
+
+export const generateWrapUpInstruction = (secondsLeft: number): string => {
+    return `The call will be ended automatically in about ${secondsLeft} seconds. Politely let the other person know you need to wrap up soon, finish the most important part of your task, and then say goodbye.`;
+};
+
+export const generateSilencePromptInstruction = (): string => {
+    return 'Nobody has said anything for a while. Briefly ask whether the other person is still there, in one short sentence.';
+};
+
+export const generateSilenceGoodbyeInstruction = (): string => {
+    return 'The other person is still not responding. Say that you will end the call now because you cannot hear them, and say goodbye in one short sentence.';
+};
+
+export const generateOptOutConfirmationInstruction = (): string => {
+    return 'The person has been removed from the calling list. In one or two short sentences, confirm that they will not be called again, apologise for the inconvenience and say goodbye. Do not try to continue the conversation.';
+};
+
+export const generateVoicemailContext = (callState: CallState, callContext?: string): string => {
+    return `You reached an answering machine and the beep has just played. Leave a voicemail now.
+    Speak in one short message of no more than three sentences. Do not ask questions and do not wait for a reply.
+    Say who you are calling on behalf of and why, based on the task below, and ask them to call back at ${callState.fromNumber}.
+    Finish with a brief goodbye.
+    Task: ${callContext ? callContext : ''}`;
+};
+
+export const generateInboundCallContext = (callState: CallState, agentPrompt?: string, callbackContext?: string): string => {
+    const callbackSection = callbackContext
+        ? `
+
+This caller is most likely calling back about an earlier call you made to them. Use it to help them:
+${callbackContext}`
+        : '';
+
+    // If the prompt is detailed, use it directly with minimal wrapping
+    if (agentPrompt && isDetailedPrompt(agentPrompt)) {
+        const cleanedContext = cleanPromptFormatting(agentPrompt);
+        return `${cleanedContext}${callbackSection}
+
+[Call Info: You are answering an inbound call to ${callState.toNumber} from ${callState.fromNumber}. When the conversation is over, say goodbye and then call the end_call function.]`;
+    }
+
+    // Standard wrapper for simple prompts
+    return `Please refer to phone call transcripts.
+    Stay concise and short.
+    You are assistant answering the phone at ${callState.toNumber}. You are receiving an inbound call from ${callState.fromNumber}.
+    Be friendly and speak in human short sentences. Start the conversation by greeting the caller and asking how you can help. Do not speak in bullet points. Ask one question at a time, tell one sentence at a time.
+    Once the caller has what they need, say goodbye and then call the end_call function to hang up.
+    You do not provide any other info, which is not related to your instructions.
+    ${agentPrompt ? agentPrompt : ''}${callbackSection}`;
+};
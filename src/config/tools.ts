@@ -0,0 +1,65 @@
+import { FunctionToolDefinition } from '../types.js';
+
+/**
+ * Function tools registered on every realtime session
+ */
+export const END_CALL_TOOL = {
+    type: 'function',
+    name: 'end_call',
+    description: 'Hang up the phone call. Only call this once the conversation is over and you have already said goodbye out loud. The call ends after your goodbye has finished playing.',
+    parameters: {
+        type: 'object',
+        properties: {
+            reason: {
+                type: 'string',
+                description: 'Short explanation of why the call is ending, e.g. "reservation confirmed" or "callee asked to end the call"'
+            }
+        },
+        required: ['reason']
+    }
+};
+
+export const OPT_OUT_TOOL = {
+    type: 'function',
+    name: 'opt_out',
+    description: 'Call this when the person asks not to be called again, or to be removed from the calling list. Their number is added to the do-not-call list; you will then confirm this to them and the call ends.',
+    parameters: {
+        type: 'object',
+        properties: {
+            statement: {
+                type: 'string',
+                description: 'What the person said, e.g. "please stop calling me"'
+            }
+        },
+        required: ['statement']
+    }
+};
+
+export const REALTIME_TOOLS = [END_CALL_TOOL, OPT_OUT_TOOL];
+
+/**
+ * Names of the built-in function tools, which user-defined tools may not reuse
+ */
+export const RESERVED_TOOL_NAMES = ['end_call', 'opt_out', 'record_outcome'];
+
+/**
+ * Realtime function tool for a user-defined HTTP tool
+ * @param tool The tool definition
+ */
+export const buildHttpFunctionTool = (tool: FunctionToolDefinition) => ({
+    type: 'function',
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.parameters
+});
+
+/**
+ * Function tool for filling the caller-supplied outcome schema during the conversation
+ * @param schema The JSON Schema of the outcome object
+ */
+export const buildRecordOutcomeTool = (schema: Record<string, unknown>) => ({
+    type: 'function',
+    name: 'record_outcome',
+    description: 'Record the structured result of this call. Call it as soon as you know the outcome, before saying goodbye, and again if the outcome changes.',
+    parameters: schema
+});
@@ -1,69 +1,140 @@
 import { WebSocket } from 'ws';
-import twilio from 'twilio';
 import dotenv from 'dotenv';
-import { CallState, CallType, OpenAIConfig } from '../types.js';
-import { VOICE } from '../config/constants.js';
+import {
+    CallEndReason,
+    CallState,
+    CallType,
+    FunctionToolDefinition,
+    InstructionMode,
+    PendingHangup,
+    RealtimeConfig,
+    SilenceAction
+} from '../types.js';
+import {
+    DEFAULT_TEMPERATURE,
+    DEFAULT_TRANSCRIPTION_MODEL,
+    FUNCTION_FILLER_DELAY_MS,
+    FUNCTION_FILLER_INTERVAL_MS,
+    HANGUP_MARK,
+    HANGUP_MARK_TIMEOUT_MS,
+    VOICE,
+    WRAP_UP_WARNING_SECONDS
+} from '../config/constants.js';
+import {
+    generateFunctionFillerInstruction,
+    generateOptOutConfirmationInstruction,
+    generateSilenceGoodbyeInstruction,
+    generateSilencePromptInstruction,
+    generateVoicemailContext,
+    generateWrapUpInstruction
+} from '../config/prompts.js';
+import { REALTIME_TOOLS, buildHttpFunctionTool, buildRecordOutcomeTool } from '../config/tools.js';
 import { OpenAIContextService } from '../services/openai/context.service.js';
-import { OpenAIWsService } from '../services/openai/ws.service.js';
-import { TwilioWsService } from '../services/twilio/ws.service.js';
-import { OpenAIEventService } from '../services/openai/event.service.js';
-import { TwilioEventService } from '../services/twilio/event.service.js';
+import { RealtimeEventService } from '../services/realtime/event.service.js';
+import { RealtimeVoiceBackend } from '../services/realtime/backend.js';
+import { realtimeService } from '../services/realtime/realtime.service.js';
+import { TelephonyEventService } from '../services/telephony/event.service.js';
+import { MediaStream, TelephonyProvider } from '../services/telephony/provider.js';
 import { SessionManagerService } from '../services/session-manager.service.js';
-import { TwilioCallService } from '../services/twilio/call.service.js';
 import { callPersistenceService } from '../services/call-persistence.service.js';
+import { outcomeService } from '../services/outcome.service.js';
+import { functionToolService } from '../services/function-tool.service.js';
+import { recordingService } from '../services/recording.service.js';
+import { CallAudioCapture } from '../services/audio-capture.service.js';
+import { doNotCallService } from '../services/do-not-call.service.js';
+import { credentialService } from '../services/credential.service.js';
 
 dotenv.config();
 
 /**
- * Handles the communication between Twilio and OpenAI for voice calls
+ * A response for the agent to give once it is idle
+ */
+interface ResponseRequest {
+    // Per-response instructions (the agent speaks without calling tools)
+    instructions?: string;
+    // Hang up once this response has played
+    hangup?: PendingHangup;
+}
+
+/**
+ * Handles the communication between the carrier and OpenAI for voice calls
  */
 export class OpenAICallHandler {
-    private readonly twilioStream: TwilioWsService;
-    private readonly openAIService: OpenAIWsService;
-    private readonly openAIEventProcessor: OpenAIEventService;
-    private readonly twilioEventProcessor: TwilioEventService;
-    private readonly twilioCallService: TwilioCallService;
+    private readonly mediaStream: MediaStream;
+    private realtimeBackend: RealtimeVoiceBackend;
+    private readonly realtimeEventProcessor: RealtimeEventService;
+    private readonly telephonyEventProcessor: TelephonyEventService;
+    private telephony: TelephonyProvider;
+    private openaiApiKey = process.env.OPENAI_API_KEY || '';
     private readonly callState: CallState;
+    private readonly onCallStarted: (callSid: string) => void;
+    private hangupTimer: NodeJS.Timeout | null = null;
+    private audioCapture: CallAudioCapture | null = null;
+    private pendingFunctionCalls = 0;
+    private deferredResponse: ResponseRequest | null = null;
+    private watchdogActive = false;
+    private wrapUpTimer: NodeJS.Timeout | null = null;
+    private maxDurationTimer: NodeJS.Timeout | null = null;
+    private silenceCheckedAt = 0;
+    private silencePrompted = false;
 
-    constructor(ws: WebSocket, callType: CallType, twilioClient: twilio.Twilio, contextService: OpenAIContextService) {
+    constructor(
+        ws: WebSocket,
+        callType: CallType,
+        telephony: TelephonyProvider,
+        contextService: OpenAIContextService,
+        onCallStarted: (callSid: string) => void = () => undefined
+    ) {
         this.callState = new CallState(callType);
+        this.onCallStarted = onCallStarted;
 
-        // Initialize Twilio services
-        this.twilioStream = new TwilioWsService(ws, this.callState);
-        this.twilioCallService = new TwilioCallService(twilioClient, process.env.TWILIO_NUMBER || '');
+        // Initialize the carrier's media stream
+        this.mediaStream = telephony.createMediaStream(ws, this.callState);
+        this.telephony = telephony;
 
-        // Initialize OpenAI service
-        const openAIConfig: OpenAIConfig = {
-            apiKey: process.env.OPENAI_API_KEY || '',
-            websocketUrl: process.env.OPENAI_WEBSOCKET_URL || 'wss://api.openai.com/v1/realtime?model=gpt-4o-mini-realtime-preview',
-            voice: VOICE,
-            temperature: 0.6
-        };
-        this.openAIService = new OpenAIWsService(openAIConfig);
+        // Initialize the realtime backend (replaced and connected once the call's settings are known)
+        this.realtimeBackend = realtimeService.create(this.callState);
 
         // Initialize event processors
-        this.openAIEventProcessor = new OpenAIEventService(
+        this.realtimeEventProcessor = new RealtimeEventService(
             this.callState,
-            () => this.endCall(),
-            (payload) => this.twilioStream.sendAudio(payload),
-            () => this.handleSpeechStartedEvent()
+            () => this.endCall(CallEndReason.GOODBYE),
+            (payload) => {
+                this.audioCapture?.addAgentAudio(payload, this.callState.latestMediaTimestamp);
+                this.mediaStream.sendAudio(payload);
+            },
+            () => this.handleSpeechStartedEvent(),
+            (response) => this.handleResponseDone(response),
+            (name, args, callId) => this.handleFunctionCall(name, args, callId)
         );
 
-        this.twilioEventProcessor = new TwilioEventService(
+        this.telephonyEventProcessor = new TelephonyEventService(
             this.callState,
-            this.twilioCallService,
+            () => this.telephony,
             contextService,
-            (payload) => this.openAIService.sendAudio(payload),// Log the first media event
+            (userId) => this.resolveCredentials(userId),
+            () => {
+                this.hangUp(CallEndReason.FAILED, 'The media stream matches no call')
+                    .catch(err => console.error('Failed to end unknown call:', err));
+            },
+            (payload) => {
+                this.audioCapture?.addCallerAudio(payload, this.callState.latestMediaTimestamp);
+                this.realtimeBackend.sendAudio(payload);
+                this.checkSilence();
+            },
+            () => this.handleCallStarted(),
+            (name) => this.handleMark(name),
         );
 
         this.setupEventHandlers();
-        this.initializeOpenAI();
     }
 
-    private endCall(): void {
+    private endCall(reason: CallEndReason): void {
+        this.stopWatchdog();
+
         if (this.callState.callSid) {
-            this.twilioCallService.endCall(this.callState.callSid);
-            callPersistenceService.endCall(this.callState.callSid)
+            this.telephony.endCall(this.callState.callSid);
+            callPersistenceService.endCall(this.callState.callSid, reason)
                 .catch(err => console.error('Failed to end call in database:', err));
         }
 
@@ -72,33 +143,528 @@ export class OpenAICallHandler {
         }, 5000);
     }
 
+    /**
+     * Hang up the call immediately and tear down both sockets
+     * @param reason Why the call is being ended
+     * @param detail Free-form explanation recorded with the reason
+     */
+    public async hangUp(reason: CallEndReason, detail?: string): Promise<void> {
+        this.stopWatchdog();
+
+        if (this.hangupTimer) {
+            clearTimeout(this.hangupTimer);
+            this.hangupTimer = null;
+        }
+
+        try {
+            if (this.callState.callSid) {
+                // Record the reason first so the completed status callback sees it (e.g. for retries)
+                await callPersistenceService.endCall(this.callState.callSid, reason, undefined, detail)
+                    .catch(err => console.error('Failed to end call in database:', err));
+                await this.telephony.endCall(this.callState.callSid);
+            }
+        } finally {
+            // Tear down even if the carrier could not end the call (e.g. it already ended)
+            this.closeWebSockets();
+        }
+    }
+
+    /**
+     * Hang up once the agent's current response has finished playing to the callee
+     * @param reason Why the call is being ended
+     * @param detail Free-form explanation recorded with the reason
+     */
+    private requestHangup(reason: CallEndReason, detail?: string): void {
+        this.callState.pendingHangup = { reason, detail };
+    }
+
+    private handleFunctionCall(name: string, args: any, callId: string): void {
+        switch (name) {
+        case 'end_call':
+            console.error(`Agent ended call ${this.callState.callSid}: ${args.reason}`);
+            // Close the function call without asking for another response; the goodbye has been said
+            this.realtimeBackend.sendFunctionOutput(callId, JSON.stringify({ success: true }));
+            this.requestHangup(CallEndReason.AGENT_ENDED, args.reason);
+            break;
+        case 'opt_out':
+            this.handleOptOut(args, callId)
+                .catch(err => console.error('Failed to record opt-out:', err));
+            break;
+        case 'record_outcome':
+            this.handleRecordOutcome(args, callId)
+                .catch(err => console.error('Failed to record call outcome:', err));
+            break;
+        default: {
+            const tool = this.callState.functionTools.find(t => t.name === name);
+            if (!tool) {
+                console.error(`Unknown function called by agent: ${name}`);
+                break;
+            }
+            this.handleHttpFunctionCall(tool, args, callId)
+                .catch(err => console.error(`Failed to run function ${name}:`, err));
+            break;
+        }
+        }
+    }
+
+    /**
+     * Run a user-defined HTTP tool and give its result to the agent. While a slow lookup
+     * is running, the agent tells the caller it is still checking so the line isn't silent.
+     */
+    private async handleHttpFunctionCall(tool: FunctionToolDefinition, args: any, callId: string): Promise<void> {
+        console.error(`Agent called function ${tool.name} on call ${this.callState.callSid}`);
+
+        this.pendingFunctionCalls++;
+        let fillerTimer: NodeJS.Timeout = setTimeout(() => {
+            this.speakFiller();
+            fillerTimer = setInterval(() => this.speakFiller(), FUNCTION_FILLER_INTERVAL_MS);
+        }, FUNCTION_FILLER_DELAY_MS);
+
+        try {
+            const result = await functionToolService.invoke(this.callState.callSid, tool, args, callId);
+            this.realtimeBackend.sendFunctionOutput(callId, result.output);
+        } finally {
+            clearInterval(fillerTimer);
+            this.pendingFunctionCalls--;
+        }
+
+        if (this.pendingFunctionCalls === 0) {
+            this.respondWhenIdle();
+        }
+    }
+
+    /**
+     * Keep the caller engaged during a slow function call, unless the agent is already talking
+     */
+    private speakFiller(): void {
+        if (this.callState.responseActive || this.callState.pendingHangup) {
+            return;
+        }
+
+        this.realtimeBackend.requestSpokenResponse(generateFunctionFillerInstruction());
+        this.callState.responseActive = true;
+    }
+
+    /**
+     * Add the other party to the do-not-call list, then have the agent confirm it and hang up
+     */
+    private async handleOptOut(args: any, callId: string): Promise<void> {
+        let success = true;
+        try {
+            await doNotCallService.addOptOut(this.callState.callSid, args.statement);
+        } catch (error) {
+            console.error(`Failed to add opt-out for call ${this.callState.callSid}:`, error);
+            success = false;
+        }
+
+        this.realtimeBackend.sendFunctionOutput(callId, JSON.stringify({ success }));
+        this.respondWhenIdle({
+            instructions: generateOptOutConfirmationInstruction(),
+            hangup: { reason: CallEndReason.OPTED_OUT, detail: args.statement }
+        });
+    }
+
+    /**
+     * Request a response now, or as soon as the current one is done
+     * (OpenAI rejects a new response while one is active)
+     */
+    private respondWhenIdle(request: ResponseRequest = {}): void {
+        if (this.callState.responseActive) {
+            this.deferredResponse = { ...this.deferredResponse, ...request };
+            return;
+        }
+
+        this.startResponse(request);
+    }
+
+    private startResponse(request: ResponseRequest): void {
+        if (request.hangup) {
+            this.requestHangup(request.hangup.reason, request.hangup.detail);
+        }
+
+        if (request.instructions) {
+            this.realtimeBackend.requestSpokenResponse(request.instructions);
+        } else {
+            this.realtimeBackend.requestResponse();
+        }
+        this.callState.responseActive = true;
+    }
+
     private closeWebSockets(): void {
-        this.twilioStream.close();
-        this.openAIService.close();
+        this.mediaStream.close();
+        this.realtimeBackend.close();
+    }
+
+    /**
+     * Build the realtime configuration from the server defaults and this call's settings
+     */
+    private buildRealtimeConfig(): RealtimeConfig {
+        const settings = this.callState.settings;
+
+        return {
+            apiKey: this.openaiApiKey,
+            model: settings.model,
+            voice: settings.voice || VOICE,
+            temperature: settings.temperature ?? DEFAULT_TEMPERATURE,
+            transcriptionModel: settings.transcriptionModel || DEFAULT_TRANSCRIPTION_MODEL,
+            language: settings.language
+        };
     }
 
-    private initializeOpenAI(): void {
-        this.openAIService.initialize(
-            (data) => this.openAIEventProcessor.processMessage(data),
+    private initializeRealtimeBackend(): void {
+        this.realtimeBackend = realtimeService.create(this.callState, this.callState.settings.backend);
+        this.realtimeBackend.initialize(
+            this.buildRealtimeConfig(),
+            (event) => this.realtimeEventProcessor.processEvent(event),
             () => {
-                setTimeout(() => this.openAIService.initializeSession(this.callState.callContext), 100);
+                setTimeout(() => this.initializeSession(), 100);
             },
-            (error) => console.error('Error in the OpenAI WebSocket:', error)
+            (error) => console.error(`Error in the ${this.realtimeBackend.name} realtime WebSocket:`, error)
+        );
+        // Replaced by the exact model once the backend reports it when the session is created
+        this.callState.realtimeModel = this.realtimeBackend.getModel();
+    }
+
+    /**
+     * Use the carrier and OpenAI accounts of the call's owner, if they stored their own.
+     * If they cannot be loaded the call is ended rather than run on the server's accounts.
+     * @returns false if the call was ended
+     */
+    private async resolveCredentials(userId: string): Promise<boolean> {
+        try {
+            this.telephony = await this.telephony.forUser(userId);
+            this.openaiApiKey = await credentialService.resolveOpenAIKey(userId);
+            return true;
+        } catch (error) {
+            console.error(`Failed to load credentials for call ${this.callState.callSid}:`, error);
+            await this.hangUp(CallEndReason.FAILED, 'Could not load the account credentials for this call');
+            return false;
+        }
+    }
+
+    /**
+     * The realtime connection depends on per-call settings (e.g. the backend and model), so it is
+     * opened once the media stream's start event has loaded them
+     */
+    private handleCallStarted(): void {
+        this.onCallStarted(this.callState.callSid);
+        this.startAudioCapture();
+        this.startWatchdog();
+        this.initializeRealtimeBackend();
+    }
+
+    /**
+     * Enforce the call's maximum duration, warning the agent to wrap up shortly before it,
+     * and enable the silence check run on every media event
+     */
+    private startWatchdog(): void {
+        const timeouts = this.callState.timeouts;
+        if (!timeouts) {
+            return;
+        }
+
+        this.watchdogActive = true;
+        const maxDurationMs = timeouts.maxDurationSeconds * 1000;
+        const warningSeconds = Math.min(WRAP_UP_WARNING_SECONDS, Math.floor(timeouts.maxDurationSeconds / 4));
+
+        this.wrapUpTimer = setTimeout(() => this.warnWrapUp(warningSeconds), maxDurationMs - warningSeconds * 1000);
+        this.maxDurationTimer = setTimeout(() => {
+            console.error(`Call ${this.callState.callSid} reached its maximum duration of ${timeouts.maxDurationSeconds}s`);
+            this.hangUp(CallEndReason.MAX_DURATION, `Maximum call duration of ${timeouts.maxDurationSeconds} seconds reached`)
+                .catch(err => console.error('Failed to hang up call at its maximum duration:', err));
+        }, maxDurationMs);
+    }
+
+    private stopWatchdog(): void {
+        this.watchdogActive = false;
+
+        if (this.wrapUpTimer) {
+            clearTimeout(this.wrapUpTimer);
+            this.wrapUpTimer = null;
+        }
+        if (this.maxDurationTimer) {
+            clearTimeout(this.maxDurationTimer);
+            this.maxDurationTimer = null;
+        }
+    }
+
+    /**
+     * Tell the agent the call is about to be cut off so it can say goodbye in time
+     */
+    private warnWrapUp(secondsLeft: number): void {
+        if (this.callState.pendingHangup || this.callState.voicemailMode || !this.realtimeBackend.isConnected()) {
+            return;
+        }
+
+        const warning = generateWrapUpInstruction(secondsLeft);
+        this.realtimeBackend.sendSystemMessage(warning);
+        this.callState.conversationHistory.push({
+            role: 'system',
+            content: warning
+        });
+
+        // If the caller is talking, the agent reads the warning when it answers them
+        if (!this.callState.callerSpeaking) {
+            this.respondWhenIdle();
+        }
+    }
+
+    /**
+     * Detect mutual silence on the media stream clock: nobody is speaking, no agent audio
+     * is playing and nothing is pending, for longer than the silence timeout
+     */
+    private checkSilence(): void {
+        const timeouts = this.callState.timeouts;
+        if (!this.watchdogActive || !timeouts?.silenceTimeoutSeconds || this.isConversationBusy()) {
+            return;
+        }
+
+        const now = this.callState.latestMediaTimestamp;
+        const lastActivity = Math.max(
+            this.callState.lastCallerSpeechTimestamp,
+            this.callState.agentAudioEndTimestamp,
+            this.silenceCheckedAt
         );
+        if (now - lastActivity < timeouts.silenceTimeoutSeconds * 1000) {
+            return;
+        }
+
+        this.silenceCheckedAt = now;
+        this.handleSilence(timeouts.silenceAction, timeouts.silenceTimeoutSeconds);
+    }
+
+    private isConversationBusy(): boolean {
+        return this.callState.callerSpeaking
+            || this.callState.responseActive
+            || this.pendingFunctionCalls > 0
+            || this.callState.pendingHangup !== null
+            || this.callState.awaitingMachineDetection
+            || this.callState.voicemailMode
+            || !this.realtimeBackend.isConnected();
+    }
+
+    /**
+     * Ask whether the caller is still there, or hang up if they already didn't answer
+     */
+    private handleSilence(action: SilenceAction, timeoutSeconds: number): void {
+        const detail = `No speech for ${timeoutSeconds} seconds`;
+        console.error(`Silence detected on call ${this.callState.callSid}: ${detail}`);
+
+        if (action === SilenceAction.HANGUP) {
+            this.hangUp(CallEndReason.SILENCE_TIMEOUT, detail)
+                .catch(err => console.error('Failed to hang up silent call:', err));
+            return;
+        }
+
+        if (this.silencePrompted) {
+            this.requestHangup(CallEndReason.SILENCE_TIMEOUT, `${detail} after asking whether the caller was still there`);
+            this.realtimeBackend.requestSpokenResponse(generateSilenceGoodbyeInstruction());
+        } else {
+            this.silencePrompted = true;
+            this.realtimeBackend.requestSpokenResponse(generateSilencePromptInstruction());
+        }
+        this.callState.responseActive = true;
+    }
+
+    /**
+     * Capture both legs of recorded calls when recording storage is configured
+     */
+    private startAudioCapture(): void {
+        try {
+            if (this.callState.record && recordingService.isCaptureEnabled()) {
+                this.audioCapture = new CallAudioCapture();
+            }
+        } catch (error) {
+            console.error('Audio capture disabled:', error);
+        }
+    }
+
+    /**
+     * Get the SID of the call handled by this session
+     */
+    public getCallSid(): string {
+        return this.callState.callSid;
+    }
+
+    /**
+     * Steer the conversation with new instructions from the MCP client
+     * @param text The instruction text
+     * @param mode Inject as a system message, or append to the session instructions
+     * @param respond Whether the agent should respond immediately instead of on its next turn
+     */
+    public sendInstruction(text: string, mode: InstructionMode = InstructionMode.MESSAGE, respond = false): void {
+        if (!this.realtimeBackend.isConnected()) {
+            throw new Error('Call is not connected to its realtime backend');
+        }
+
+        if (mode === InstructionMode.INSTRUCTIONS) {
+            this.callState.callContext = `${this.callState.callContext}\n\nUpdated instructions: ${text}`;
+            this.realtimeBackend.updateInstructions(this.callState.callContext);
+        } else {
+            this.realtimeBackend.sendSystemMessage(text);
+        }
+
+        this.callState.conversationHistory.push({
+            role: 'system',
+            content: text
+        });
+
+        callPersistenceService.addMessage(this.callState.callSid, 'system', text)
+            .catch(err => console.error('Failed to save instruction message:', err));
+
+        if (respond) {
+            this.respondWhenIdle();
+        }
+    }
+
+    private initializeSession(): void {
+        this.realtimeBackend.initializeSession(this.callState.callContext, this.getTools());
+
+        // On inbound calls the agent answers the phone, so it speaks first
+        if (this.callState.callType === CallType.INBOUND) {
+            this.realtimeBackend.requestResponse();
+        }
+    }
+
+    /**
+     * Store the outcome reported by the agent and tell it whether the outcome matched the schema.
+     * An invalid outcome prompts the agent to try again.
+     */
+    private async handleRecordOutcome(args: any, callId: string): Promise<void> {
+        const validation = await outcomeService.recordOutcome(this.callState.callSid, args, 'function_call');
+        if (!validation) {
+            return;
+        }
+
+        this.realtimeBackend.sendFunctionOutput(callId, JSON.stringify(validation));
+
+        if (!validation.valid) {
+            this.respondWhenIdle();
+        }
+    }
+
+    /**
+     * Get the function tools available to the agent on this call
+     */
+    private getTools(): object[] {
+        const tools: object[] = [...REALTIME_TOOLS, ...this.callState.functionTools.map(buildHttpFunctionTool)];
+        if (this.callState.outcomeSchema) {
+            tools.push(buildRecordOutcomeTool(this.callState.outcomeSchema));
+        }
+        return tools;
+    }
+
+    /**
+     * Handle the answering machine detection result for this call
+     * @param answeredBy Twilio's AnsweredBy value (human, machine_end_beep, fax, ...)
+     */
+    public handleAnsweredBy(answeredBy: string): void {
+        this.callState.awaitingMachineDetection = false;
+
+        if (answeredBy === 'fax') {
+            this.hangUp(CallEndReason.FAX)
+                .catch(err => console.error('Failed to hang up on fax machine:', err));
+            return;
+        }
+
+        if (!answeredBy.startsWith('machine')) {
+            return;
+        }
+
+        // Drop whatever the agent was saying to the greeting and leave a message instead
+        this.callState.voicemailMode = true;
+        this.requestHangup(CallEndReason.VOICEMAIL_LEFT);
+        this.realtimeBackend.cancelResponse();
+        this.clearPlayback();
+
+        this.realtimeBackend.startVoicemailSession(generateVoicemailContext(this.callState, this.callState.taskContext));
+        this.realtimeBackend.requestResponse();
+    }
+
+    private handleResponseDone(response: any): void {
+        this.scheduleHangupAfter(response);
+
+        // Start a deferred response only after the hang-up check, so a hang-up it
+        // requests waits for its own audio rather than the response that just finished
+        if (this.deferredResponse) {
+            const request = this.deferredResponse;
+            this.deferredResponse = null;
+            this.startResponse(request);
+        }
+    }
+
+    /**
+     * Once the final response has been generated, mark the end of its audio so we hang up
+     * as soon as the carrier has played it. A response cancelled when switching to voicemail
+     * also reports done, so only completed responses count.
+     */
+    private scheduleHangupAfter(response: any): void {
+        if (!this.callState.pendingHangup || response?.status !== 'completed' || this.hangupTimer) {
+            return;
+        }
+
+        this.mediaStream.sendMark(HANGUP_MARK);
+
+        // Don't wait forever if the carrier never echoes the mark
+        this.hangupTimer = setTimeout(() => this.completePendingHangup(), HANGUP_MARK_TIMEOUT_MS);
+    }
+
+    private handleMark(name: string): void {
+        if (name === HANGUP_MARK) {
+            this.completePendingHangup();
+        }
+    }
+
+    private completePendingHangup(): void {
+        const pendingHangup = this.callState.pendingHangup;
+        if (!pendingHangup) {
+            return;
+        }
+
+        this.callState.pendingHangup = null;
+        this.hangUp(pendingHangup.reason, pendingHangup.detail)
+            .catch(err => console.error('Failed to hang up call:', err));
     }
 
     private handleSpeechStartedEvent(): void {
-        if (this.callState.markQueue.length === 0 || this.callState.responseStartTimestampTwilio === null || !this.callState.lastAssistantItemId) {
+        this.silencePrompted = false;
+
+        // Only interrupt agent audio the carrier is still playing
+        const agentSpeaking = this.callState.markQueue.length > 0
+            || this.callState.agentAudioEndTimestamp > this.callState.latestMediaTimestamp;
+        if (!agentSpeaking || this.callState.responseStartTimestampTwilio === null || !this.callState.lastAssistantItemId) {
             return;
         }
 
         const elapsedTime = this.callState.latestMediaTimestamp - this.callState.responseStartTimestampTwilio;
 
-        this.openAIService.truncateAssistantResponse(this.callState.lastAssistantItemId, elapsedTime);
-        this.twilioStream.clearStream();
+        this.realtimeBackend.truncateAssistantResponse(this.callState.lastAssistantItemId, elapsedTime);
+        this.clearPlayback();
+    }
+
+    /**
+     * Drop agent audio the carrier has not played yet
+     */
+    private clearPlayback(): void {
+        this.mediaStream.clearStream();
+        this.audioCapture?.truncateAgentAudio(this.callState.latestMediaTimestamp);
+        this.callState.agentAudioEndTimestamp = this.callState.latestMediaTimestamp;
         this.resetResponseState();
     }
 
+    /**
+     * Store the captured audio once the media stream has closed
+     */
+    private saveAudioCapture(): void {
+        const capture = this.audioCapture;
+        this.audioCapture = null;
+
+        if (capture && this.callState.callSid) {
+            recordingService.saveCapture(this.callState.callSid, capture)
+                .catch(err => console.error('Failed to save captured recording:', err));
+        }
+    }
+
     private resetResponseState(): void {
         this.callState.markQueue = [];
         this.callState.lastAssistantItemId = null;
@@ -106,10 +672,13 @@ export class OpenAICallHandler {
     }
 
     private setupEventHandlers(): void {
-        this.twilioStream.setupEventHandlers(
-            async (message) => await this.twilioEventProcessor.processMessage(message),
+        this.mediaStream.setupEventHandlers(
+            async (event) => await this.telephonyEventProcessor.processEvent(event),
             async () => {
-                this.openAIService.close();
+                this.stopWatchdog();
+                this.telephonyEventProcessor.handleStreamEnded();
+                this.realtimeBackend.close();
+                this.saveAudioCapture();
             }
         );
     }
@@ -121,16 +690,25 @@ export class OpenAICallHandler {
 export class CallSessionManager {
     private readonly sessionManager: SessionManagerService;
 
-    constructor(twilioClient: twilio.Twilio) {
-        this.sessionManager = new SessionManagerService(twilioClient);
+    constructor() {
+        this.sessionManager = new SessionManagerService();
     }
 
     /**
      * Creates a new call session
      * @param ws The WebSocket connection
      * @param callType The type of call
+     * @param provider The carrier that opened the media stream
+     */
+    public createSession(ws: WebSocket, callType: CallType, provider: TelephonyProvider): void {
+        this.sessionManager.createSession(ws, callType, provider);
+    }
+
+    /**
+     * Gets the live session for a call
+     * @param callSid The Twilio call SID
      */
-    public createSession(ws: WebSocket, callType: CallType): void {
-        this.sessionManager.createSession(ws, callType);
+    public getSession(callSid: string): OpenAICallHandler | undefined {
+        return this.sessionManager.getSessionByCallSid(callSid);
     }
 }
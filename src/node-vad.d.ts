@@ -0,0 +1,15 @@
+declare module 'node-vad' {
+    class VAD {
+        static Mode: { NORMAL: number; LOW_BITRATE: number; AGGRESSIVE: number; VERY_AGGRESSIVE: number };
+        static Event: { ERROR: number; SILENCE: number; VOICE: number; NOISE: number };
+
+        constructor(mode: number);
+
+        /**
+         * Classify a frame of 16-bit signed PCM
+         */
+        processAudio(samples: Buffer, sampleRate: number): Promise<number>;
+    }
+
+    export default VAD;
+}
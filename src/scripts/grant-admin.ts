@@ -0,0 +1,37 @@
+import dotenv from 'dotenv';
+import { setAdmin } from '../services/auth.service.js';
+import { disconnectDatabase } from '../services/db.service.js';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Make a registered user an admin, or take it back with --revoke:
+ *   npm run grant-admin -- user@example.com [--revoke]
+ */
+async function main(): Promise<void> {
+    const args = process.argv.slice(2);
+    const revoke = args.includes('--revoke');
+    const email = args.find(arg => !arg.startsWith('--'));
+
+    if (!email) {
+        console.error('Usage: npm run grant-admin -- <email> [--revoke]');
+        process.exitCode = 1;
+        return;
+    }
+
+    if (!(await setAdmin(email, !revoke))) {
+        console.error(`No user is registered with ${email}`);
+        process.exitCode = 1;
+        return;
+    }
+
+    console.log(revoke ? `${email} is no longer an admin` : `${email} is now an admin`);
+}
+
+main()
+    .catch((error) => {
+        console.error('Failed to update admin rights:', error);
+        process.exitCode = 1;
+    })
+    .finally(() => disconnectDatabase());
@@ -1,11 +1,21 @@
 import dotenv from 'dotenv';
 import express, { Response } from 'express';
+import twilio from 'twilio';
 import VoiceResponse from 'twilio/lib/twiml/VoiceResponse.js';
 import ExpressWs from 'express-ws';
 import { WebSocket } from 'ws';
-import { CallType } from '../types.js';
+import { CallType, TelephonyProviderName } from '../types.js';
 import { DYNAMIC_API_SECRET } from '../config/constants.js';
 import { CallSessionManager } from '../handlers/openai.handler.js';
+import { inboundRoutingService } from '../services/inbound-routing.service.js';
+import { callPersistenceService } from '../services/call-persistence.service.js';
+import { callStatusService } from '../services/call-status.service.js';
+import { recordingService } from '../services/recording.service.js';
+import { callerIdService } from '../services/caller-id.service.js';
+import { credentialService } from '../services/credential.service.js';
+import { telephonyService } from '../services/telephony/telephony.service.js';
+import { SimulatedCallService } from '../services/simulated/call.service.js';
+import { normalizePhoneNumber } from '../utils/phone-utils.js';
 dotenv.config();
 
 export class VoiceServer {
@@ -13,9 +23,14 @@ export class VoiceServer {
     private port: number;
     private sessionManager: CallSessionManager;
     private callbackUrl: string;
+    private simulatedCallService: SimulatedCallService | null;
 
-    constructor(callbackUrl: string, sessionManager: CallSessionManager) {
+    /**
+     * @param simulatedCallService The simulated carrier, when SIMULATED_TELEPHONY_TOKEN enables it
+     */
+    constructor(callbackUrl: string, sessionManager: CallSessionManager, simulatedCallService: SimulatedCallService | null = null) {
         this.callbackUrl = callbackUrl;
+        this.simulatedCallService = simulatedCallService;
         this.port = parseInt(process.env.VOICE_PORT || '3004');
         this.app = ExpressWs(express()).app;
         this.sessionManager = sessionManager;
@@ -31,6 +46,43 @@ export class VoiceServer {
     private setupRoutes(): void {
         this.app.post('/call/outgoing', this.handleOutgoingCall.bind(this));
         this.app.ws('/call/connection-outgoing/:secret', this.handleOutgoingConnection.bind(this));
+        this.app.post('/call/incoming', this.handleIncomingCall.bind(this));
+        this.app.ws('/call/connection-incoming/:secret', this.handleIncomingConnection.bind(this));
+        this.app.post('/call/status', this.handleStatusCallback.bind(this));
+        this.app.post('/call/amd', this.handleAmdCallback.bind(this));
+        this.app.post('/call/recording', this.handleRecordingCallback.bind(this));
+        this.app.post('/call/caller-id', this.handleCallerIdCallback.bind(this));
+        this.app.ws('/call/simulated/connection/:secret', this.handleSimulatedConnection.bind(this));
+        this.app.ws('/call/simulator', this.handleSimulatorPhone.bind(this));
+    }
+
+    /**
+     * Verify that a webhook was signed by Twilio. Inbound webhooks are configured on the
+     * number in the Twilio console and status callbacks may outlive this process, so
+     * neither can rely on the dynamic API secret. Webhooks for calls on users' own
+     * Twilio accounts are signed with those accounts' auth tokens.
+     */
+    private async isValidTwilioRequest(req: express.Request): Promise<boolean> {
+        const signature = req.header('X-Twilio-Signature');
+        if (!signature) {
+            return false;
+        }
+
+        const authToken = await credentialService.getTwilioAuthToken(req.body?.AccountSid)
+            .catch(err => {
+                console.error('Failed to load Twilio auth token:', err);
+                return null;
+            });
+        if (!authToken) {
+            return false;
+        }
+
+        return twilio.validateRequest(
+            authToken,
+            signature,
+            `${this.callbackUrl}${req.originalUrl}`,
+            req.body
+        );
     }
 
     private async handleOutgoingCall(req: express.Request, res: Response): Promise<void> {
@@ -60,13 +112,162 @@ export class VoiceServer {
         res.end(twiml.toString());
     }
 
+    private async handleStatusCallback(req: express.Request, res: Response): Promise<void> {
+        if (!(await this.isValidTwilioRequest(req))) {
+            res.status(401).json({ error: 'Unauthorized: Invalid Twilio signature' });
+            return;
+        }
+
+        await callStatusService.handleTwilioStatusCallback(req.body)
+            .catch(err => console.error('Failed to process status callback:', err));
+
+        res.status(204).end();
+    }
+
+    private async handleAmdCallback(req: express.Request, res: Response): Promise<void> {
+        if (!(await this.isValidTwilioRequest(req))) {
+            res.status(401).json({ error: 'Unauthorized: Invalid Twilio signature' });
+            return;
+        }
+
+        await callStatusService.handleAmdCallback(req.body)
+            .catch(err => console.error('Failed to process AMD callback:', err));
+
+        // Deliver the result to the running session so the agent can switch to voicemail
+        const session = this.sessionManager.getSession(req.body.CallSid);
+        if (session) {
+            session.handleAnsweredBy(req.body.AnsweredBy);
+        } else {
+            console.error(`AMD result for call ${req.body.CallSid} has no active session`);
+        }
+
+        res.status(204).end();
+    }
+
+    private async handleRecordingCallback(req: express.Request, res: Response): Promise<void> {
+        if (!(await this.isValidTwilioRequest(req))) {
+            res.status(401).json({ error: 'Unauthorized: Invalid Twilio signature' });
+            return;
+        }
+
+        await recordingService.handleRecordingCallback(req.body)
+            .catch(err => console.error('Failed to process recording callback:', err));
+
+        res.status(204).end();
+    }
+
+    private async handleCallerIdCallback(req: express.Request, res: Response): Promise<void> {
+        if (!(await this.isValidTwilioRequest(req))) {
+            res.status(401).json({ error: 'Unauthorized: Invalid Twilio signature' });
+            return;
+        }
+
+        await callerIdService.handleValidationCallback(req.body)
+            .catch(err => console.error('Failed to process caller ID callback:', err));
+
+        res.status(204).end();
+    }
+
     private handleOutgoingConnection(ws: WebSocket, req: express.Request): void {
         if (req.params.secret !== DYNAMIC_API_SECRET) {
             ws.close(1008, 'Unauthorized: Invalid or missing API secret');
             return;
         }
 
-        this.sessionManager.createSession(ws, CallType.OUTBOUND);
+        this.sessionManager.createSession(ws, CallType.OUTBOUND, telephonyService.get(TelephonyProviderName.TWILIO));
+    }
+
+    private async handleIncomingCall(req: express.Request, res: Response): Promise<void> {
+        if (!(await this.isValidTwilioRequest(req))) {
+            res.status(401).json({ error: 'Unauthorized: Invalid Twilio signature' });
+            return;
+        }
+
+        const callSid = req.body.CallSid;
+        const fromNumber = req.body.From;
+        const toNumber = req.body.To;
+
+        const twiml = new VoiceResponse();
+        const route = await inboundRoutingService.resolveRoute(toNumber, fromNumber)
+            .catch(err => {
+                console.error('Failed to resolve inbound route:', err);
+                return null;
+            });
+
+        if (!route) {
+            console.error(`Rejecting inbound call ${callSid}: no route for ${toNumber} from ${fromNumber}`);
+            twiml.reject();
+            res.writeHead(200, { 'Content-Type': 'text/xml' });
+            res.end(twiml.toString());
+            return;
+        }
+
+        await callPersistenceService.startCall(
+            route.userId,
+            callSid,
+            fromNumber,
+            toNumber,
+            route.agentPrompt || undefined,
+            { callType: CallType.INBOUND }
+        ).catch(err => console.error('Failed to save inbound call:', err));
+
+        const connect = twiml.connect();
+        const stream = connect.stream({
+            url: `${this.callbackUrl.replace('https://', 'wss://')}/call/connection-incoming/${DYNAMIC_API_SECRET}`,
+        });
+
+        stream.parameter({ name: 'fromNumber', value: fromNumber });
+        stream.parameter({ name: 'toNumber', value: toNumber });
+        if (route.agentPrompt) {
+            stream.parameter({ name: 'callContext', value: route.agentPrompt });
+        }
+        if (route.previousCall) {
+            stream.parameter({ name: 'callbackContext', value: inboundRoutingService.describePreviousCall(route.previousCall) });
+        }
+
+        res.writeHead(200, { 'Content-Type': 'text/xml' });
+        res.end(twiml.toString());
+    }
+
+    private handleIncomingConnection(ws: WebSocket, req: express.Request): void {
+        if (req.params.secret !== DYNAMIC_API_SECRET) {
+            ws.close(1008, 'Unauthorized: Invalid or missing API secret');
+            return;
+        }
+
+        this.sessionManager.createSession(ws, CallType.INBOUND, telephonyService.get(TelephonyProviderName.TWILIO));
+    }
+
+    /**
+     * Media stream of a simulated call, opened by the simulated carrier in this process
+     */
+    private handleSimulatedConnection(ws: WebSocket, req: express.Request): void {
+        if (req.params.secret !== DYNAMIC_API_SECRET || !this.simulatedCallService) {
+            ws.close(1008, 'Unauthorized: Invalid or missing API secret');
+            return;
+        }
+
+        this.sessionManager.createSession(ws, CallType.OUTBOUND, this.simulatedCallService);
+    }
+
+    /**
+     * A softphone taking simulated calls to ?number= (or to any number), authenticated with ?token=
+     */
+    private handleSimulatorPhone(ws: WebSocket, req: express.Request): void {
+        const token = process.env.SIMULATED_TELEPHONY_TOKEN;
+        if (!this.simulatedCallService || !token || req.query.token?.toString() !== token) {
+            ws.close(1008, 'Unauthorized: Simulated telephony is disabled or the token is invalid');
+            return;
+        }
+
+        const number = req.query.number?.toString();
+        const normalized = number ? normalizePhoneNumber(number) : null;
+        if (number && !normalized) {
+            ws.close(1008, `Invalid phone number "${number}": use E.164 format (e.g. +14155550123)`);
+            return;
+        }
+
+        this.simulatedCallService.connectPhone(ws, normalized);
     }
 
     public start(): void {
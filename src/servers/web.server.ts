@@ -14,10 +14,74 @@ import {
     registerUser,
     createSession,
     validateSession,
+    getUserByEmail,
+    isAdmin,
     AuthUser
 } from '../services/auth.service.js';
 import { TwilioCallService } from '../services/twilio/call.service.js';
 import { CallPersistenceService } from '../services/call-persistence.service.js';
+import { inboundRoutingService } from '../services/inbound-routing.service.js';
+import { CallDispatchService } from '../services/call-dispatch.service.js';
+import { scheduledCallService } from '../services/scheduled-call.service.js';
+import { callRetryService } from '../services/call-retry.service.js';
+import { campaignService } from '../services/campaign.service.js';
+import { RecordingFormat, recordingService } from '../services/recording.service.js';
+import { functionToolService } from '../services/function-tool.service.js';
+import { callTimeoutService } from '../services/call-timeout.service.js';
+import { usageService } from '../services/usage.service.js';
+import { QuotaExceededError, quotaService } from '../services/quota.service.js';
+import { DestinationRejectedError, destinationPolicyService } from '../services/destination-policy.service.js';
+import { doNotCallService } from '../services/do-not-call.service.js';
+import {
+    OutsideCallingHoursError,
+    UnknownTimeZoneError,
+    callingHoursService,
+    describeCallingHoursCheck
+} from '../services/calling-hours.service.js';
+import { callerIdService } from '../services/caller-id.service.js';
+import { credentialService } from '../services/credential.service.js';
+import { telephonyService } from '../services/telephony/telephony.service.js';
+import { teamService } from '../services/team.service.js';
+import { CallSessionManager } from '../handlers/openai.handler.js';
+import {
+    CallEndReason,
+    CallOptions,
+    CallRequest,
+    CallStatus,
+    DestinationRuleAction,
+    FunctionToolDefinition,
+    InstructionMode,
+    OutsideHoursAction,
+    RealtimeBackendName,
+    RetryOutcome,
+    ScheduledCallStatus,
+    SilenceAction,
+    TelephonyProviderName
+} from '../types.js';
+import { isTerminalStatus } from '../utils/call-status.js';
+import { formatInTimeZone, parseDateTimeInZone } from '../utils/time-utils.js';
+import {
+    DEFAULT_CALLING_HOURS_END,
+    DEFAULT_CALLING_HOURS_START,
+    DEFAULT_FUNCTION_TIMEOUT_MS,
+    DEFAULT_RETRY_BACKOFF_MULTIPLIER,
+    DEFAULT_RETRY_BACKOFF_SECONDS,
+    MAX_CAMPAIGN_CONCURRENCY,
+    MAX_CALL_DURATION_SECONDS,
+    MAX_CAMPAIGN_RECIPIENTS,
+    MAX_FUNCTION_TIMEOUT_MS,
+    MAX_RETRY_ATTEMPTS,
+    MAX_SILENCE_TIMEOUT_SECONDS,
+    MAX_TEMPERATURE,
+    MIN_CALL_DURATION_SECONDS,
+    MIN_RETRY_BACKOFF_SECONDS,
+    MIN_SILENCE_TIMEOUT_SECONDS,
+    MIN_TEMPERATURE,
+    REALTIME_MODELS,
+    REALTIME_VOICES,
+    SUPPORTED_LANGUAGES,
+    TRANSCRIPTION_MODELS
+} from '../config/constants.js';
 
 /**
  * Create a patched storage adapter that fixes the @mcpauth/auth bug.
@@ -93,6 +157,9 @@ const servers: Record<string, McpServer> = {};
 // Service instances (will be set in startWebServer)
 let twilioCallService: TwilioCallService;
 let callPersistenceService: CallPersistenceService;
+let callSessionManager: CallSessionManager;
+let callDispatchService: CallDispatchService;
+let webBaseUrl = '';
 
 /**
  * Create the OAuth configuration for @mcpauth/auth
@@ -150,6 +217,26 @@ function createMcpAuthConfig(baseUrl: string) {
     };
 }
 
+/**
+ * Identify the user of a web request from the login session cookie or an MCP bearer token
+ */
+async function getRequestUserId(req: Request, mcpAuthConfig: ReturnType<typeof createMcpAuthConfig>): Promise<string | null> {
+    const sessionId = req.cookies?.[SESSION_COOKIE_NAME];
+    if (sessionId) {
+        const user = await validateSession(sessionId);
+        if (user) {
+            return user.id;
+        }
+    }
+
+    const session = await getMcpSession(mcpAuthConfig)(req);
+    if (!session) {
+        return null;
+    }
+
+    return (session as any).user?.id || (session as any).sub || null;
+}
+
 /**
  * Generate the login page HTML
  */
@@ -265,6 +352,154 @@ function generateLoginPageHtml(callbackUrl: string, showRegister: boolean = fals
 `;
 }
 
+// HTTP function tool definition, for account tools and per-call tools
+const functionToolParams = {
+    name: z.string().describe('Function name the agent calls, e.g. "check_availability"'),
+    description: z.string().describe('When and why the agent should call it'),
+    parameters: z.record(z.any()).describe('JSON Schema (type "object") of the arguments'),
+    endpoint: z.string().url().describe('URL the arguments are POSTed to as {name, arguments, callSid}. The response body is given to the agent'),
+    timeoutMs: z.number().int().min(1).max(MAX_FUNCTION_TIMEOUT_MS).optional().describe(`Request timeout in ms (default ${DEFAULT_FUNCTION_TIMEOUT_MS})`),
+    headers: z.record(z.string()).optional().describe('Extra request headers, e.g. {"Authorization": "Bearer ..."}')
+};
+
+type FunctionToolParams = z.infer<z.ZodObject<typeof functionToolParams>>;
+
+/**
+ * Map tool parameters to a function tool definition
+ */
+function toFunctionTool(params: FunctionToolParams): FunctionToolDefinition {
+    return { ...params, timeoutMs: params.timeoutMs ?? DEFAULT_FUNCTION_TIMEOUT_MS };
+}
+
+// Duration and silence limits, for account defaults and per-call overrides
+const callTimeoutParams = {
+    maxDurationSeconds: z.number().int().min(MIN_CALL_DURATION_SECONDS).max(MAX_CALL_DURATION_SECONDS).optional()
+        .describe('Hang up after this many seconds. The agent is warned to wrap up shortly before'),
+    silenceTimeoutSeconds: z.number().int().min(0).max(MAX_SILENCE_TIMEOUT_SECONDS).optional()
+        .describe(`React when nobody has spoken for this many seconds (${MIN_SILENCE_TIMEOUT_SECONDS}-${MAX_SILENCE_TIMEOUT_SECONDS}, 0 turns it off)`),
+    silenceAction: z.nativeEnum(SilenceAction).optional()
+        .describe('"prompt" asks whether the caller is still there and hangs up if the silence continues; "hangup" hangs up right away')
+};
+
+// A recurring time of day when calls may be placed, for campaigns and calling hours
+const callingWindowParams = z.object({
+    days: z.array(z.number().int().min(0).max(6)).optional().describe('Days of the week, 0 = Sunday (default every day)'),
+    start: z.string().describe('Start time, "HH:MM"'),
+    end: z.string().describe('End time, "HH:MM"')
+});
+
+// Call options shared by trigger-call, schedule-call and start-campaign
+const callOptionParams = {
+    detectVoicemail: z.boolean().optional().describe('Detect answering machines and leave a short voicemail instead of talking to the greeting. Adds Twilio answering machine detection charges and holds back goodbye handling until it answers (default false)'),
+    keywordHangup: z.boolean().optional().describe('Also hang up when a goodbye phrase is heard, as a fallback to the agent ending the call itself (default true)'),
+    record: z.boolean().optional().describe('Record the call; fetch the audio with get-recording afterwards (default from the server\'s RECORD setting)'),
+    voice: z.enum(REALTIME_VOICES).optional().describe('Voice for the agent (default sage)'),
+    model: z.enum(REALTIME_MODELS).optional().describe('OpenAI realtime model for the call (ignored on azure_openai and pipeline, which use the server\'s deployment or chat model)'),
+    backend: z.nativeEnum(RealtimeBackendName).optional().describe('Engine the agent runs on: openai (realtime beta protocol), openai_ga (realtime GA protocol, e.g. for gpt-realtime), azure_openai when the server configures it, or pipeline for separate speech-to-text, chat and text-to-speech models (default from REALTIME_BACKEND)'),
+    temperature: z.number().min(MIN_TEMPERATURE).max(MAX_TEMPERATURE).optional().describe(`Sampling temperature between ${MIN_TEMPERATURE} and ${MAX_TEMPERATURE} (default 0.6)`),
+    language: z.enum(SUPPORTED_LANGUAGES).optional().describe('ISO 639-1 code of the language the call is held in, e.g. "de" or "es"'),
+    transcriptionModel: z.enum(TRANSCRIPTION_MODELS).optional().describe('Model used to transcribe the callee (default whisper-1)'),
+    outcomeSchema: z.record(z.any()).optional().describe('JSON Schema (type "object") of a structured result the agent should fill, e.g. {reserved, time, confirmationCode}. Returned by get-transcript with its validation status'),
+    tools: z.array(z.object(functionToolParams)).optional().describe('HTTP function tools for this call only, in addition to the account\'s tools (see register-function-tool)'),
+    timeouts: z.object(callTimeoutParams).optional().describe('Duration and silence limits for this call (defaults from set-call-timeouts)'),
+    fromNumber: z.string().optional().describe('Caller ID to call from: one of your verified numbers from list-caller-ids (default the server\'s number)'),
+    provider: z.nativeEnum(TelephonyProviderName).optional().describe('Carrier to place the call with: twilio, or simulated to ring a local test softphone when the server enables it (default from TELEPHONY_PROVIDER)'),
+    retry: z.object({
+        maxAttempts: z.number().int().min(1).max(MAX_RETRY_ATTEMPTS).describe(`Total number of attempts including the first call (at most ${MAX_RETRY_ATTEMPTS})`),
+        backoffSeconds: z.number().min(MIN_RETRY_BACKOFF_SECONDS).optional().describe(`Wait before the first retry in seconds (default ${DEFAULT_RETRY_BACKOFF_SECONDS})`),
+        backoffMultiplier: z.number().min(1).max(10).optional().describe(`Factor the wait grows by after each retry (default ${DEFAULT_RETRY_BACKOFF_MULTIPLIER})`),
+        retryOn: z.array(z.nativeEnum(RetryOutcome)).optional().describe('Outcomes to retry (default busy, no_answer and failed)')
+    }).optional().describe('Automatically call again if the call is not answered. Every attempt is listed by get-transcript on the first call')
+};
+
+const callRequestParams = {
+    toNumber: z.string().describe('The phone number to call'),
+    callContext: z.string().describe('Context for the call'),
+    ...callOptionParams
+};
+
+type CallOptionParams = z.infer<z.ZodObject<typeof callOptionParams>>;
+type CallRequestParams = z.infer<z.ZodObject<typeof callRequestParams>>;
+
+/**
+ * Map tool parameters to call options
+ */
+function toCallOptions(params: CallOptionParams): CallOptions {
+    const {
+        detectVoicemail, keywordHangup, record, voice, model, backend, temperature, language, transcriptionModel, outcomeSchema, tools, timeouts, fromNumber, provider, retry
+    } = params;
+
+    return {
+        detectVoicemail,
+        keywordHangup,
+        record,
+        settings: { voice, model, backend, temperature, language, transcriptionModel },
+        outcomeSchema,
+        functionTools: tools?.map(toFunctionTool),
+        timeouts,
+        fromNumber,
+        provider,
+        retry: retry ? {
+            maxAttempts: retry.maxAttempts,
+            backoffSeconds: retry.backoffSeconds ?? DEFAULT_RETRY_BACKOFF_SECONDS,
+            backoffMultiplier: retry.backoffMultiplier ?? DEFAULT_RETRY_BACKOFF_MULTIPLIER,
+            retryOn: retry.retryOn ?? [RetryOutcome.BUSY, RetryOutcome.NO_ANSWER, RetryOutcome.FAILED]
+        } : undefined
+    };
+}
+
+/**
+ * Map tool parameters to a call request
+ */
+function toCallRequest(params: CallRequestParams): CallRequest {
+    const { toNumber, callContext, ...options } = params;
+
+    return { toNumber, callContext, ...toCallOptions(options) };
+}
+
+/**
+ * Resolve a usage report's date range, defaulting to the current month so far (UTC)
+ */
+function getUsageRange(from?: string, to?: string): { from: string; to: string } {
+    const today = new Date().toISOString().slice(0, 10);
+
+    return {
+        from: from || `${today.slice(0, 8)}01`,
+        to: to || today
+    };
+}
+
+/**
+ * Describe a failed call placement. Policy and quota refusals carry machine-readable details.
+ */
+function toErrorPayload(error: any): object {
+    if (error instanceof QuotaExceededError || error instanceof DestinationRejectedError
+        || error instanceof OutsideCallingHoursError || error instanceof UnknownTimeZoneError) {
+        return error.toJSON();
+    }
+    return { error: error.message };
+}
+
+/**
+ * Look up another user on behalf of an admin (users may always look up themselves)
+ * @throws Error if the user is not an admin or the email is unknown
+ */
+async function resolveManagedUser(user: AuthUser, email: string): Promise<AuthUser> {
+    if (email.toLowerCase() === user.email) {
+        return user;
+    }
+
+    if (!(await isAdmin(user.id))) {
+        throw new Error('Only admins can look up other users');
+    }
+
+    const target = await getUserByEmail(email);
+    if (!target) {
+        throw new Error('User not found');
+    }
+    return target;
+}
+
 /**
  * Create MCP server with voice call tools for a specific user
  */
@@ -277,15 +512,17 @@ function createMcpServerForUser(user: AuthUser): McpServer {
     // Register trigger-call tool
     server.tool(
         'trigger-call',
-        'Trigger an outbound phone call via Twilio',
+        'Trigger an outbound phone call via Twilio. Calls are only placed within the recipient\'s local calling hours',
         {
-            toNumber: z.string().describe('The phone number to call'),
-            callContext: z.string().describe('Context for the call')
+            ...callRequestParams,
+            timezone: z.string().optional().describe('IANA time zone of the recipient, e.g. "America/New_York" (default inferred from the number\'s country or area code)'),
+            callingWindows: z.array(callingWindowParams).optional().describe('When this call may reach the recipient in their time zone, e.g. [{"days": [1,2,3,4,5], "start": "09:00", "end": "17:00"}] (default from set-calling-hours)'),
+            outsideCallingHours: z.nativeEnum(OutsideHoursAction).optional().describe('Outside the calling hours, "refuse" the call or "schedule" it for the next allowed time (default from set-calling-hours)')
         },
-        async ({ toNumber, callContext }) => {
-            console.error(`trigger-call tool called by user ${user.id}: ${toNumber}`);
+        async ({ timezone, callingWindows, outsideCallingHours, ...params }) => {
+            console.error(`trigger-call tool called by user ${user.id}: ${params.toNumber}`);
 
-            if (!twilioCallService) {
+            if (!callDispatchService?.isReady()) {
                 return {
                     content: [{ type: 'text', text: JSON.stringify({ error: 'Voice server not ready yet' }) }],
                     isError: true
@@ -293,29 +530,184 @@ function createMcpServerForUser(user: AuthUser): McpServer {
             }
 
             try {
+                // Kept on the request so the call is checked the same way if it is scheduled
+                const request: CallRequest = { ...toCallRequest(params), timezone, callingWindows };
+                const hours = await callingHoursService.check(user.id, params.toNumber, { timezone, windows: callingWindows });
+
+                if (hours && !hours.allowed) {
+                    const action = outsideCallingHours ?? (await callingHoursService.getUserCallingHours(user.id)).outsideHours;
+                    if (action !== OutsideHoursAction.SCHEDULE || !hours.nextAllowedAt) {
+                        throw new OutsideCallingHoursError(hours);
+                    }
+
+                    await callDispatchService.validateRequest(request);
+                    await callDispatchService.resolveFromNumber(user.id, request);
+                    const scheduledCall = await scheduledCallService.schedule(user.id, request, hours.nextAllowedAt, hours.timezone);
+                    const localTime = formatInTimeZone(scheduledCall.scheduledFor, hours.timezone);
+
+                    return {
+                        content: [{
+                            type: 'text',
+                            text: JSON.stringify({
+                                success: true,
+                                scheduled: true,
+                                id: scheduledCall.id,
+                                to: scheduledCall.toNumber,
+                                scheduledFor: scheduledCall.scheduledFor.toISOString(),
+                                localTime,
+                                timezone: hours.timezone,
+                                explanation: `${describeCallingHoursCheck(hours)}. The call was scheduled for ${localTime} their time instead; cancel it with cancel-scheduled-call`
+                            }, null, 2)
+                        }]
+                    };
+                }
+
                 // Start call and persist to database
-                const call = await twilioCallService.makeCall(toNumber, callContext);
-                await callPersistenceService.startCall(
-                    user.id,
-                    call.sid,
-                    twilioCallService.getFromNumber(),
-                    toNumber,
-                    callContext
-                );
+                const { dialedCall, call } = await callDispatchService.dial(user.id, request);
 
                 return {
                     content: [{
                         type: 'text',
                         text: JSON.stringify({
                             success: true,
-                            callSid: call.sid,
-                            to: toNumber,
-                            status: call.status
+                            callSid: dialedCall.callSid,
+                            to: params.toNumber,
+                            status: dialedCall.providerStatus,
+                            provider: call.provider
                         }, null, 2)
                     }]
                 };
             } catch (error: any) {
                 console.error('Error making call:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify(toErrorPayload(error), null, 2) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register schedule-call tool
+    server.tool(
+        'schedule-call',
+        'Schedule an outbound phone call for a later time, e.g. when a business opens',
+        {
+            ...callRequestParams,
+            scheduledFor: z.string().describe('When to call: a local time such as "2026-10-20T09:05" in the given timezone, or an ISO 8601 timestamp with an offset'),
+            timezone: z.string().optional().describe('IANA time zone of the recipient that scheduledFor is given in, e.g. "America/New_York" (default UTC; calling hours then use the time zone inferred from the number)'),
+            callingWindows: z.array(callingWindowParams).optional().describe('When this call may reach the recipient in their time zone, checked when it is dialled (default from set-calling-hours)')
+        },
+        async ({ scheduledFor, timezone, callingWindows, ...params }) => {
+            console.error(`schedule-call tool called by user ${user.id}: ${params.toNumber} at ${scheduledFor} ${timezone || 'UTC'}`);
+
+            try {
+                const when = parseDateTimeInZone(scheduledFor, timezone);
+                if (when.getTime() <= Date.now()) {
+                    throw new Error(`scheduledFor is in the past (${when.toISOString()})`);
+                }
+
+                // Calling hours are checked again when the call is dialled, in the recipient's time zone
+                const request: CallRequest = { ...toCallRequest(params), timezone, callingWindows };
+                await callDispatchService.validateRequest(request);
+                await callDispatchService.resolveFromNumber(user.id, request);
+
+                const scheduledCall = await scheduledCallService.schedule(user.id, request, when, timezone);
+
+                return {
+                    content: [{
+                        type: 'text',
+                        text: JSON.stringify({
+                            success: true,
+                            id: scheduledCall.id,
+                            to: scheduledCall.toNumber,
+                            scheduledFor: scheduledCall.scheduledFor.toISOString(),
+                            localTime: timezone ? formatInTimeZone(scheduledCall.scheduledFor, timezone) : undefined,
+                            timezone: scheduledCall.timezone
+                        }, null, 2)
+                    }]
+                };
+            } catch (error: any) {
+                console.error('Error scheduling call:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify(toErrorPayload(error), null, 2) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register list-scheduled-calls tool
+    server.tool(
+        'list-scheduled-calls',
+        'List scheduled calls with their dial attempts',
+        {
+            status: z.nativeEnum(ScheduledCallStatus).optional().describe('Only list jobs with this status, e.g. "pending"')
+        },
+        async ({ status }) => {
+            console.error(`list-scheduled-calls tool called by user ${user.id}: status=${status || 'any'}`);
+
+            try {
+                const scheduledCalls = await scheduledCallService.list(user.id, status);
+
+                return {
+                    content: [{
+                        type: 'text',
+                        text: JSON.stringify({
+                            count: scheduledCalls.length,
+                            scheduledCalls: scheduledCalls.map(s => ({
+                                id: s.id,
+                                to: s.toNumber,
+                                status: s.status,
+                                scheduledFor: s.scheduledFor.toISOString(),
+                                localTime: s.timezone ? formatInTimeZone(s.scheduledFor, s.timezone) : undefined,
+                                timezone: s.timezone,
+                                callSid: s.callSid,
+                                lastError: s.lastError,
+                                attempts: s.attempts.map(a => ({
+                                    attemptedAt: a.attemptedAt.toISOString(),
+                                    status: a.status,
+                                    callSid: a.callSid,
+                                    error: a.error
+                                }))
+                            }))
+                        }, null, 2)
+                    }]
+                };
+            } catch (error: any) {
+                console.error('Error listing scheduled calls:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register cancel-scheduled-call tool
+    server.tool(
+        'cancel-scheduled-call',
+        'Cancel a scheduled call that has not been dialled yet',
+        {
+            id: z.string().describe('The scheduled call ID')
+        },
+        async ({ id }) => {
+            console.error(`cancel-scheduled-call tool called by user ${user.id}: ${id}`);
+
+            try {
+                const cancelled = await scheduledCallService.cancel(user.id, id);
+
+                if (!cancelled) {
+                    return {
+                        content: [{ type: 'text', text: JSON.stringify({ error: 'No pending scheduled call found with this ID' }) }],
+                        isError: true
+                    };
+                }
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ success: true, id }, null, 2) }]
+                };
+            } catch (error: any) {
+                console.error('Error cancelling scheduled call:', error);
                 return {
                     content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
                     isError: true
@@ -394,99 +786,1446 @@ function createMcpServerForUser(user: AuthUser): McpServer {
         }
     );
 
-    return server;
-}
-
-/**
- * Start the web server with OAuth, login, and MCP endpoints
- */
-export async function startWebServer(
-    port: number,
-    baseUrl: string,
-    callService: TwilioCallService,
-    persistenceService: CallPersistenceService
-): Promise<Express> {
-    twilioCallService = callService;
-    callPersistenceService = persistenceService;
+    // Register send-call-instruction tool
+    server.tool(
+        'send-call-instruction',
+        'Send new instructions to the agent during an in-progress call (e.g. "offer 8pm instead")',
+        {
+            callSid: z.string().describe('The call SID of the in-progress call'),
+            instruction: z.string().describe('The instruction for the agent'),
+            mode: z.nativeEnum(InstructionMode).optional().describe('"message" adds a system message to the conversation (default); "instructions" appends to the agent\'s standing instructions'),
+            respond: z.boolean().optional().describe('Make the agent speak immediately instead of on its next turn (default false)')
+        },
+        async ({ callSid, instruction, mode, respond }) => {
+            console.error(`send-call-instruction tool called by user ${user.id}: ${callSid}`);
 
-    const app = express();
+            try {
+                const call = await callPersistenceService.getOwnedCall(callSid, user.id);
+                if (!call) {
+                    return {
+                        content: [{ type: 'text', text: JSON.stringify({ error: 'Call not found' }) }],
+                        isError: true
+                    };
+                }
 
-    // Trust proxy for HTTPS detection
-    app.set('trust proxy', 1);
+                const session = callSessionManager.getSession(callSid);
+                if (!session) {
+                    return {
+                        content: [{ type: 'text', text: JSON.stringify({ error: 'Call is not in progress on this server' }) }],
+                        isError: true
+                    };
+                }
 
-    // Middleware
-    app.use(cors({
-        origin: true,
-        credentials: true
-    }));
-    app.use(express.json());
-    app.use(express.urlencoded({ extended: true }));
-    app.use(cookieParser());
+                session.sendInstruction(instruction, mode, respond);
 
-    // Request logging
-    app.use((req: Request, _res: Response, next: NextFunction) => {
-        console.error(`${new Date().toISOString()} ${req.method} ${req.url}`);
-        next();
-    });
+                return {
+                    content: [{
+                        type: 'text',
+                        text: JSON.stringify({
+                            success: true,
+                            callSid,
+                            mode: mode || InstructionMode.MESSAGE
+                        }, null, 2)
+                    }]
+                };
+            } catch (error: any) {
+                console.error('Error sending call instruction:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
 
-    // Configure and mount OAuth endpoints
-    const mcpAuthConfig = createMcpAuthConfig(baseUrl);
-    const mcpAuth = McpAuth(mcpAuthConfig);
-    app.use('/api/oauth', mcpAuth);
-    app.use('/.well-known', mcpAuth);
+    // Register get-recording tool
+    server.tool(
+        'get-recording',
+        'Get the recordings of a call with links to download their audio',
+        {
+            callSid: z.string().describe('The call SID')
+        },
+        async ({ callSid }) => {
+            console.error(`get-recording tool called by user ${user.id}: ${callSid}`);
 
-    // Error handler for OAuth
-    app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
-        console.error('Error in request:', err);
-        res.status(500).json({ error: 'Internal server error', details: err.message });
-    });
+            try {
+                const recordings = await recordingService.getRecordings(callSid, user.id);
+                if (!recordings) {
+                    return {
+                        content: [{ type: 'text', text: JSON.stringify({ error: 'Call not found' }) }],
+                        isError: true
+                    };
+                }
 
-    // Home page - redirect to login or show status
-    app.get('/', (_req: Request, res: Response) => {
-        res.send(`
-<!DOCTYPE html>
-<html>
-<head>
-    <title>Voice Call MCP Server</title>
-    <style>
-        body {
-            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-            max-width: 600px;
-            margin: 100px auto;
-            padding: 20px;
-            text-align: center;
+                return {
+                    content: [{
+                        type: 'text',
+                        text: JSON.stringify({
+                            callSid,
+                            count: recordings.length,
+                            recordings: recordings.map(r => ({
+                                recordingSid: r.recordingSid,
+                                source: r.source,
+                                status: r.status,
+                                durationSeconds: r.durationSeconds,
+                                channels: r.channels,
+                                audioUrl: r.status === 'completed'
+                                    ? `${webBaseUrl}/recordings/${r.recordingSid}?format=${r.source === 'capture' ? 'wav' : 'mp3'}`
+                                    : null
+                            }))
+                        }, null, 2)
+                    }]
+                };
+            } catch (error: any) {
+                console.error('Error getting recordings:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
         }
-        h1 { color: #333; }
-        .status { color: #28a745; font-size: 1.2em; margin: 20px 0; }
-        a { color: #007bff; text-decoration: none; }
-        a:hover { text-decoration: underline; }
-        .info { background: #f5f5f5; padding: 20px; border-radius: 8px; margin-top: 30px; text-align: left; }
-        code { background: #e9ecef; padding: 2px 6px; border-radius: 4px; }
-    </style>
-</head>
-<body>
-    <h1>Voice Call MCP Server</h1>
-    <div class="status">✓ Server is running</div>
-    <p><a href="/login">Login</a> | <a href="/register">Register</a></p>
-    <div class="info">
-        <p><strong>MCP Endpoint:</strong> <code>/mcp</code></p>
-        <p><strong>OAuth Discovery:</strong> <code>/.well-known/oauth-authorization-server</code></p>
-        <p>Add this server to Claude using the MCP endpoint URL.</p>
-    </div>
-</body>
-</html>
-        `);
-    });
+    );
 
-    // Login page
-    app.get('/login', (req: Request, res: Response) => {
-        const callbackUrl = (req.query.callbackUrl as string) || '/';
-        res.send(generateLoginPageHtml(callbackUrl, false));
-    });
+    // Register end-call tool
+    server.tool(
+        'end-call',
+        'Hang up an in-progress call',
+        {
+            callSid: z.string().describe('The call SID of the call to hang up')
+        },
+        async ({ callSid }) => {
+            console.error(`end-call tool called by user ${user.id}: ${callSid}`);
 
-    // Register page
-    app.get('/register', (req: Request, res: Response) => {
-        const callbackUrl = (req.query.callbackUrl as string) || '/';
+            try {
+                const call = await callPersistenceService.getOwnedCall(callSid, user.id);
+                if (!call) {
+                    return {
+                        content: [{ type: 'text', text: JSON.stringify({ error: 'Call not found' }) }],
+                        isError: true
+                    };
+                }
+
+                const session = callSessionManager.getSession(callSid);
+                if (session) {
+                    await session.hangUp(CallEndReason.ENDED_BY_USER);
+                } else {
+                    await (await telephonyService.forCall(call)).endCall(callSid);
+                    await callPersistenceService.endCall(callSid, CallEndReason.ENDED_BY_USER);
+                }
+
+                return {
+                    content: [{
+                        type: 'text',
+                        text: JSON.stringify({
+                            success: true,
+                            callSid,
+                            endReason: CallEndReason.ENDED_BY_USER
+                        }, null, 2)
+                    }]
+                };
+            } catch (error: any) {
+                console.error('Error ending call:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register cancel-call tool
+    server.tool(
+        'cancel-call',
+        'Cancel a call that is still queued or ringing, and any pending automatic retry of it',
+        {
+            callSid: z.string().describe('The call SID of the call to cancel')
+        },
+        async ({ callSid }) => {
+            console.error(`cancel-call tool called by user ${user.id}: ${callSid}`);
+
+            try {
+                const call = await callPersistenceService.getOwnedCall(callSid, user.id);
+                if (!call) {
+                    return {
+                        content: [{ type: 'text', text: JSON.stringify({ error: 'Call not found' }) }],
+                        isError: true
+                    };
+                }
+
+                const retriesCancelled = await callRetryService.cancelRetries(call);
+                if (retriesCancelled && isTerminalStatus(call.status)) {
+                    return {
+                        content: [{ type: 'text', text: JSON.stringify({ success: true, callSid, retriesCancelled }, null, 2) }]
+                    };
+                }
+
+                const status = await (await telephonyService.forCall(call)).cancelCall(callSid);
+                await callPersistenceService.endCall(callSid, CallEndReason.CANCELLED_BY_USER, CallStatus.CANCELLED);
+
+                return {
+                    content: [{
+                        type: 'text',
+                        text: JSON.stringify({
+                            success: true,
+                            callSid,
+                            status,
+                            endReason: CallEndReason.CANCELLED_BY_USER,
+                            retriesCancelled
+                        }, null, 2)
+                    }]
+                };
+            } catch (error: any) {
+                console.error('Error cancelling call:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register start-campaign tool
+    server.tool(
+        'start-campaign',
+        'Call a list of recipients with the same kind of call (e.g. appointment confirmations), a few at a time',
+        {
+            name: z.string().describe('A name for the campaign'),
+            promptTemplate: z.string().describe('Call context for every call. {{variable}} placeholders are filled from each recipient\'s variables; {{phoneNumber}} is always available'),
+            recipients: z.array(z.object({
+                phoneNumber: z.string().describe('The phone number to call'),
+                variables: z.record(z.string()).optional().describe('Values for the template placeholders, e.g. {"name": "Ana", "appointment": "Tuesday 3pm"}')
+            })).min(1).max(MAX_CAMPAIGN_RECIPIENTS).describe(`Recipients to call (at most ${MAX_CAMPAIGN_RECIPIENTS})`),
+            maxConcurrency: z.number().int().min(1).max(MAX_CAMPAIGN_CONCURRENCY).optional().describe(`Maximum calls in progress at once (default 1, at most ${MAX_CAMPAIGN_CONCURRENCY})`),
+            callingWindows: z.array(callingWindowParams).optional().describe('When calls may be placed, e.g. [{"days": [1,2,3,4,5], "start": "09:00", "end": "17:00"}] (default any time)'),
+            timezone: z.string().optional().describe('IANA time zone of the calling windows, e.g. "Europe/London" (default UTC)'),
+            ...callOptionParams
+        },
+        async ({ name, promptTemplate, recipients, maxConcurrency, callingWindows, timezone, ...options }) => {
+            console.error(`start-campaign tool called by user ${user.id}: ${name} (${recipients.length} recipients)`);
+
+            try {
+                const callOptions = toCallOptions(options);
+                await callDispatchService.validateRequest(callOptions);
+                await callDispatchService.resolveFromNumber(user.id, callOptions);
+
+                const campaign = await campaignService.createCampaign(user.id, {
+                    name,
+                    promptTemplate,
+                    recipients,
+                    callOptions,
+                    maxConcurrency: maxConcurrency ?? 1,
+                    callingWindows,
+                    timezone
+                });
+
+                return {
+                    content: [{
+                        type: 'text',
+                        text: JSON.stringify({
+                            success: true,
+                            campaignId: campaign.id,
+                            recipients: recipients.length,
+                            status: campaign.status
+                        }, null, 2)
+                    }]
+                };
+            } catch (error: any) {
+                console.error('Error starting campaign:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify(toErrorPayload(error), null, 2) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register get-campaign-status tool
+    server.tool(
+        'get-campaign-status',
+        'Get the progress of a campaign, or of all campaigns if no ID is provided',
+        {
+            campaignId: z.string().optional().describe('The campaign ID (optional, defaults to all campaigns)')
+        },
+        async ({ campaignId }) => {
+            console.error(`get-campaign-status tool called by user ${user.id}: ${campaignId || 'all'}`);
+
+            try {
+                if (!campaignId) {
+                    const campaigns = await campaignService.listCampaigns(user.id);
+                    return {
+                        content: [{ type: 'text', text: JSON.stringify({ count: campaigns.length, campaigns }, null, 2) }]
+                    };
+                }
+
+                const summary = await campaignService.getSummary(user.id, campaignId);
+                if (!summary) {
+                    return {
+                        content: [{ type: 'text', text: JSON.stringify({ error: 'Campaign not found' }) }],
+                        isError: true
+                    };
+                }
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify(summary, null, 2) }]
+                };
+            } catch (error: any) {
+                console.error('Error getting campaign status:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register get-campaign-results tool
+    server.tool(
+        'get-campaign-results',
+        'Get the result and structured outcome of every call in a campaign',
+        {
+            campaignId: z.string().describe('The campaign ID')
+        },
+        async ({ campaignId }) => {
+            console.error(`get-campaign-results tool called by user ${user.id}: ${campaignId}`);
+
+            try {
+                const results = await campaignService.getResults(user.id, campaignId);
+                if (!results) {
+                    return {
+                        content: [{ type: 'text', text: JSON.stringify({ error: 'Campaign not found' }) }],
+                        isError: true
+                    };
+                }
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ campaignId, count: results.length, results }, null, 2) }]
+                };
+            } catch (error: any) {
+                console.error('Error getting campaign results:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register cancel-campaign tool
+    server.tool(
+        'cancel-campaign',
+        'Stop a running campaign. Calls already in progress are not interrupted',
+        {
+            campaignId: z.string().describe('The campaign ID')
+        },
+        async ({ campaignId }) => {
+            console.error(`cancel-campaign tool called by user ${user.id}: ${campaignId}`);
+
+            try {
+                const cancelled = await campaignService.cancelCampaign(user.id, campaignId);
+                if (!cancelled) {
+                    return {
+                        content: [{ type: 'text', text: JSON.stringify({ error: 'No running campaign found with this ID' }) }],
+                        isError: true
+                    };
+                }
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ success: true, campaignId }, null, 2) }]
+                };
+            } catch (error: any) {
+                console.error('Error cancelling campaign:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register register-function-tool tool
+    server.tool(
+        'register-function-tool',
+        'Give the agent an HTTP tool it can call during every call on this account, e.g. to look up availability. Replaces a tool with the same name',
+        functionToolParams,
+        async (params) => {
+            console.error(`register-function-tool tool called by user ${user.id}: ${params.name}`);
+
+            try {
+                const tool = await functionToolService.setTool(user.id, toFunctionTool(params));
+
+                return {
+                    content: [{
+                        type: 'text',
+                        text: JSON.stringify({
+                            success: true,
+                            name: tool.name,
+                            endpoint: tool.endpoint,
+                            timeoutMs: tool.timeoutMs
+                        }, null, 2)
+                    }]
+                };
+            } catch (error: any) {
+                console.error('Error registering function tool:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register list-function-tools tool
+    server.tool(
+        'list-function-tools',
+        'List the HTTP tools available to the agent on this account',
+        {},
+        async () => {
+            console.error(`list-function-tools tool called by user ${user.id}`);
+
+            try {
+                const tools = await functionToolService.listTools(user.id);
+
+                return {
+                    content: [{
+                        type: 'text',
+                        text: JSON.stringify({
+                            count: tools.length,
+                            // Header values may hold credentials, so only their names are shown
+                            tools: tools.map(t => ({
+                                name: t.name,
+                                description: t.description,
+                                parameters: t.parameters,
+                                endpoint: t.endpoint,
+                                timeoutMs: t.timeoutMs,
+                                headers: t.headers ? Object.keys(t.headers as Record<string, string>) : []
+                            }))
+                        }, null, 2)
+                    }]
+                };
+            } catch (error: any) {
+                console.error('Error listing function tools:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register remove-function-tool tool
+    server.tool(
+        'remove-function-tool',
+        'Remove an HTTP tool from this account',
+        {
+            name: z.string().describe('The tool name')
+        },
+        async ({ name }) => {
+            console.error(`remove-function-tool tool called by user ${user.id}: ${name}`);
+
+            try {
+                const removed = await functionToolService.removeTool(user.id, name);
+                if (!removed) {
+                    return {
+                        content: [{ type: 'text', text: JSON.stringify({ error: 'Function tool not found' }) }],
+                        isError: true
+                    };
+                }
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ success: true, name }, null, 2) }]
+                };
+            } catch (error: any) {
+                console.error('Error removing function tool:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register get-usage tool
+    server.tool(
+        'get-usage',
+        'Get OpenAI token and Twilio minute usage with its estimated cost, per day or for one call',
+        {
+            from: z.string().optional().describe('First day, YYYY-MM-DD in UTC (default: start of this month)'),
+            to: z.string().optional().describe('Last day, YYYY-MM-DD in UTC (default: today)'),
+            callSid: z.string().optional().describe('Only report the usage of this call')
+        },
+        async ({ from, to, callSid }) => {
+            console.error(`get-usage tool called by user ${user.id}`);
+
+            try {
+                if (callSid) {
+                    const usage = await usageService.getCallUsage(user.id, callSid);
+                    if (!usage) {
+                        return {
+                            content: [{ type: 'text', text: JSON.stringify({ error: 'No usage recorded for this call' }) }],
+                            isError: true
+                        };
+                    }
+
+                    return {
+                        content: [{
+                            type: 'text',
+                            text: JSON.stringify({
+                                callSid,
+                                ...usage,
+                                estimatedCostUsd: usage.openaiCostUsd + usage.twilioCostUsd
+                            }, null, 2)
+                        }]
+                    };
+                }
+
+                const range = getUsageRange(from, to);
+                const report = await usageService.getUsageReport([user.id], range.from, range.to);
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify(report, null, 2) }]
+                };
+            } catch (error: any) {
+                console.error('Error getting usage:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register get-quota tool
+    server.tool(
+        'get-quota',
+        'Get the call placement limits and how much of them is used. Admins can look up any user',
+        {
+            userEmail: z.string().optional().describe('Email of the user to look up (admins only; default: yourself)')
+        },
+        async ({ userEmail }) => {
+            console.error(`get-quota tool called by user ${user.id}${userEmail ? ` for ${userEmail}` : ''}`);
+
+            try {
+                const target = userEmail ? await resolveManagedUser(user, userEmail) : user;
+                const status = await quotaService.getStatus(target.id);
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ email: target.email, ...status }, null, 2) }]
+                };
+            } catch (error: any) {
+                console.error('Error getting quota:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register set-user-quota tool
+    server.tool(
+        'set-user-quota',
+        'Set a user\'s call placement limits (admins only). Omitted limits are left unchanged; null removes a limit',
+        {
+            userEmail: z.string().describe('Email of the user'),
+            plan: z.string().optional().describe('Plan name to record, e.g. "pro"'),
+            maxConcurrentCalls: z.number().int().min(0).nullable().optional().describe('Calls in progress at the same time'),
+            maxCallsPerHour: z.number().int().min(0).nullable().optional().describe('Outbound calls in any 60 minutes'),
+            maxCallsPerDay: z.number().int().min(0).nullable().optional().describe('Outbound calls in any 24 hours'),
+            monthlyMinutes: z.number().int().min(0).nullable().optional().describe('Billed Twilio minutes per calendar month (UTC)'),
+            monthlyBudgetUsd: z.number().min(0).nullable().optional().describe('Estimated cost per calendar month (UTC), see get-usage')
+        },
+        async ({ userEmail, plan, ...limits }) => {
+            console.error(`set-user-quota tool called by user ${user.id} for ${userEmail}`);
+
+            try {
+                if (!(await isAdmin(user.id))) {
+                    throw new Error('Only admins can set quotas');
+                }
+
+                const target = await getUserByEmail(userEmail);
+                if (!target) {
+                    throw new Error('User not found');
+                }
+
+                const status = await quotaService.setLimits(target.id, limits, plan);
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ success: true, email: target.email, ...status }, null, 2) }]
+                };
+            } catch (error: any) {
+                console.error('Error setting quota:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register add-destination-rule tool
+    server.tool(
+        'add-destination-rule',
+        'Allow or block a number or number prefix. Once any allow rule exists, only numbers matching an allow rule can be called. Admins can add global rules that apply to every user',
+        {
+            action: z.nativeEnum(DestinationRuleAction).describe('"allow" or "deny"'),
+            pattern: z.string().describe('An E.164 number (+14155550123) or a prefix ending in * (+1415*)'),
+            note: z.string().optional().describe('Why the rule exists'),
+            global: z.boolean().optional().describe('Apply the rule to every user (admins only, default false)')
+        },
+        async ({ action, pattern, note, global }) => {
+            console.error(`add-destination-rule tool called by user ${user.id}: ${action} ${pattern}${global ? ' (global)' : ''}`);
+
+            try {
+                if (global && !(await isAdmin(user.id))) {
+                    throw new Error('Only admins can add global rules');
+                }
+
+                const rule = await destinationPolicyService.addRule(global ? null : user.id, action, pattern, note);
+
+                return {
+                    content: [{
+                        type: 'text',
+                        text: JSON.stringify({
+                            success: true,
+                            id: rule.id,
+                            action: rule.action,
+                            pattern: rule.pattern,
+                            global: rule.userId === null
+                        }, null, 2)
+                    }]
+                };
+            } catch (error: any) {
+                console.error('Error adding destination rule:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register list-destination-rules tool
+    server.tool(
+        'list-destination-rules',
+        'List the allow and deny rules and country restrictions that apply to your calls',
+        {},
+        async () => {
+            console.error(`list-destination-rules tool called by user ${user.id}`);
+
+            try {
+                const { rules, allowedCountries, globalAllowedCountries } = await destinationPolicyService.listRules(user.id);
+
+                return {
+                    content: [{
+                        type: 'text',
+                        text: JSON.stringify({
+                            allowedCountries,
+                            globalAllowedCountries,
+                            rules: rules.map(r => ({
+                                id: r.id,
+                                action: r.action,
+                                pattern: r.pattern,
+                                note: r.note,
+                                global: r.userId === null
+                            }))
+                        }, null, 2)
+                    }]
+                };
+            } catch (error: any) {
+                console.error('Error listing destination rules:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register remove-destination-rule tool
+    server.tool(
+        'remove-destination-rule',
+        'Remove an allow or deny rule (global rules can only be removed by admins)',
+        {
+            id: z.string().describe('The rule ID from list-destination-rules')
+        },
+        async ({ id }) => {
+            console.error(`remove-destination-rule tool called by user ${user.id}: ${id}`);
+
+            try {
+                const removed = await destinationPolicyService.removeRule(user.id, id, await isAdmin(user.id));
+                if (!removed) {
+                    return {
+                        content: [{ type: 'text', text: JSON.stringify({ error: 'Rule not found' }) }],
+                        isError: true
+                    };
+                }
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ success: true, id }, null, 2) }]
+                };
+            } catch (error: any) {
+                console.error('Error removing destination rule:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register set-allowed-countries tool
+    server.tool(
+        'set-allowed-countries',
+        'Only allow calls to numbers in these countries. An empty list allows any country',
+        {
+            countries: z.array(z.string()).describe('ISO 3166-1 alpha-2 country codes, e.g. ["US", "CA"]')
+        },
+        async ({ countries }) => {
+            console.error(`set-allowed-countries tool called by user ${user.id}: ${countries.join(', ')}`);
+
+            try {
+                const allowedCountries = await destinationPolicyService.setAllowedCountries(user.id, countries);
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ success: true, allowedCountries }, null, 2) }]
+                };
+            } catch (error: any) {
+                console.error('Error setting allowed countries:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register get-destination-rejections tool
+    server.tool(
+        'get-destination-rejections',
+        'List recent calls refused by the destination policy, with the reason. Admins can list every user\'s',
+        {
+            limit: z.number().int().min(1).max(200).optional().describe('How many to return, newest first (default 50)'),
+            allUsers: z.boolean().optional().describe('Include every user (admins only, default false)')
+        },
+        async ({ limit, allUsers }) => {
+            console.error(`get-destination-rejections tool called by user ${user.id}`);
+
+            try {
+                if (allUsers && !(await isAdmin(user.id))) {
+                    throw new Error('Only admins can list every user\'s rejections');
+                }
+
+                const rejections = await destinationPolicyService.getRejections(allUsers ? null : user.id, limit ?? 50);
+
+                return {
+                    content: [{
+                        type: 'text',
+                        text: JSON.stringify({
+                            count: rejections.length,
+                            rejections: rejections.map(r => ({
+                                userId: allUsers ? r.userId : undefined,
+                                toNumber: r.toNumber,
+                                normalizedNumber: r.normalizedNumber,
+                                reason: r.reason,
+                                detail: r.detail,
+                                at: r.createdAt.toISOString()
+                            }))
+                        }, null, 2)
+                    }]
+                };
+            } catch (error: any) {
+                console.error('Error listing destination rejections:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register add-do-not-call tool
+    server.tool(
+        'add-do-not-call',
+        'Add a number to this account\'s do-not-call list. Listed numbers are refused for calls, schedules and campaigns',
+        {
+            phoneNumber: z.string().describe('The number never to call, in E.164 format (e.g. +14155550123)'),
+            note: z.string().optional().describe('Why the number is listed')
+        },
+        async ({ phoneNumber, note }) => {
+            console.error(`add-do-not-call tool called by user ${user.id}: ${phoneNumber}`);
+
+            try {
+                const entry = await doNotCallService.add(user.id, phoneNumber, 'manual', note);
+
+                return {
+                    content: [{
+                        type: 'text',
+                        text: JSON.stringify({
+                            success: true,
+                            phoneNumber: entry.phoneNumber,
+                            source: entry.source,
+                            addedAt: entry.createdAt.toISOString()
+                        }, null, 2)
+                    }]
+                };
+            } catch (error: any) {
+                console.error('Error adding do-not-call number:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register remove-do-not-call tool
+    server.tool(
+        'remove-do-not-call',
+        'Remove a number from this account\'s do-not-call list',
+        {
+            phoneNumber: z.string().describe('The number to remove, in E.164 format')
+        },
+        async ({ phoneNumber }) => {
+            console.error(`remove-do-not-call tool called by user ${user.id}: ${phoneNumber}`);
+
+            try {
+                const removed = await doNotCallService.remove(user.id, phoneNumber);
+                if (!removed) {
+                    return {
+                        content: [{ type: 'text', text: JSON.stringify({ error: 'Number is not on the do-not-call list' }) }],
+                        isError: true
+                    };
+                }
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ success: true, phoneNumber }, null, 2) }]
+                };
+            } catch (error: any) {
+                console.error('Error removing do-not-call number:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register list-do-not-call tool
+    server.tool(
+        'list-do-not-call',
+        'List this account\'s do-not-call numbers, including those who opted out during a call',
+        {},
+        async () => {
+            console.error(`list-do-not-call tool called by user ${user.id}`);
+
+            try {
+                const entries = await doNotCallService.list(user.id);
+
+                return {
+                    content: [{
+                        type: 'text',
+                        text: JSON.stringify({
+                            count: entries.length,
+                            numbers: entries.map(e => ({
+                                phoneNumber: e.phoneNumber,
+                                source: e.source,
+                                note: e.note,
+                                callSid: e.callSid,
+                                addedAt: e.createdAt.toISOString()
+                            }))
+                        }, null, 2)
+                    }]
+                };
+            } catch (error: any) {
+                console.error('Error listing do-not-call numbers:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register set-call-timeouts tool
+    server.tool(
+        'set-call-timeouts',
+        'Set the default maximum duration and silence handling for this account\'s calls. Omitted values are left unchanged; returns the defaults now in effect',
+        callTimeoutParams,
+        async (params) => {
+            console.error(`set-call-timeouts tool called by user ${user.id}`);
+
+            try {
+                const timeouts = await callTimeoutService.setUserDefaults(user.id, params);
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ success: true, ...timeouts }, null, 2) }]
+                };
+            } catch (error: any) {
+                console.error('Error setting call timeouts:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register set-calling-hours tool
+    server.tool(
+        'set-calling-hours',
+        'Set when trigger-call may reach recipients, in their local time, and what happens outside those hours. Omitted values are left unchanged; returns the settings now in effect',
+        {
+            callingWindows: z.array(callingWindowParams).nullable().optional()
+                .describe(`Windows in the recipient's time zone, e.g. [{"days": [1,2,3,4,5], "start": "09:00", "end": "17:00"}]. An empty list allows any time; null restores the default (${DEFAULT_CALLING_HOURS_START}-${DEFAULT_CALLING_HOURS_END} every day)`),
+            outsideCallingHours: z.nativeEnum(OutsideHoursAction).optional()
+                .describe('Outside the calling hours, "refuse" the call or "schedule" it for the next allowed time (default refuse)')
+        },
+        async ({ callingWindows, outsideCallingHours }) => {
+            console.error(`set-calling-hours tool called by user ${user.id}`);
+
+            try {
+                const hours = await callingHoursService.setUserCallingHours(user.id, callingWindows, outsideCallingHours);
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ success: true, ...hours }, null, 2) }]
+                };
+            } catch (error: any) {
+                console.error('Error setting calling hours:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register add-caller-id tool
+    server.tool(
+        'add-caller-id',
+        'Add a number to show as caller ID. Numbers on the Twilio account are usable right away; for others Twilio calls the number and asks for the returned validation code',
+        {
+            phoneNumber: z.string().describe('The number in E.164 format, e.g. your mobile or a department line'),
+            friendlyName: z.string().optional().describe('A label for the number, e.g. "Sales line"'),
+            teamId: z.string().optional().describe('Share the number with a team you own (default: only you)')
+        },
+        async ({ phoneNumber, friendlyName, teamId }) => {
+            console.error(`add-caller-id tool called by user ${user.id}: ${phoneNumber}`);
+
+            try {
+                const { callerId, validationCode } = await callerIdService.add(user.id, await twilioCallService.forUser(user.id), phoneNumber, { friendlyName, teamId });
+
+                return {
+                    content: [{
+                        type: 'text',
+                        text: JSON.stringify({
+                            success: true,
+                            id: callerId.id,
+                            phoneNumber: callerId.phoneNumber,
+                            status: callerId.status,
+                            validationCode: validationCode ?? undefined,
+                            next: validationCode
+                                ? `Twilio is calling ${callerId.phoneNumber} now. Answer and enter ${validationCode}, then check list-caller-ids`
+                                : undefined
+                        }, null, 2)
+                    }]
+                };
+            } catch (error: any) {
+                console.error('Error adding caller ID:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register list-caller-ids tool
+    server.tool(
+        'list-caller-ids',
+        'List the numbers you can call from with trigger-call\'s fromNumber: the server\'s number, your own verified numbers and your teams\'',
+        {},
+        async () => {
+            console.error(`list-caller-ids tool called by user ${user.id}`);
+
+            try {
+                const userCallService = await twilioCallService.forUser(user.id);
+                const callerIds = await callerIdService.list(user.id, userCallService);
+
+                return {
+                    content: [{
+                        type: 'text',
+                        text: JSON.stringify({
+                            defaultNumber: userCallService.getFromNumber(),
+                            count: callerIds.length,
+                            callerIds: callerIds.map(c => ({
+                                id: c.id,
+                                phoneNumber: c.phoneNumber,
+                                friendlyName: c.friendlyName,
+                                status: c.status,
+                                teamId: c.teamId,
+                                verifiedAt: c.verifiedAt?.toISOString() ?? null
+                            }))
+                        }, null, 2)
+                    }]
+                };
+            } catch (error: any) {
+                console.error('Error listing caller IDs:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register remove-caller-id tool
+    server.tool(
+        'remove-caller-id',
+        'Remove one of your caller IDs, or one of a team you own',
+        {
+            id: z.string().describe('The caller ID from list-caller-ids')
+        },
+        async ({ id }) => {
+            console.error(`remove-caller-id tool called by user ${user.id}: ${id}`);
+
+            try {
+                const removed = await callerIdService.remove(user.id, id);
+                if (!removed) {
+                    return {
+                        content: [{ type: 'text', text: JSON.stringify({ error: 'Caller ID not found' }) }],
+                        isError: true
+                    };
+                }
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ success: true, id }, null, 2) }]
+                };
+            } catch (error: any) {
+                console.error('Error removing caller ID:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register create-team tool
+    server.tool(
+        'create-team',
+        'Create a team to share caller IDs with other users. You become its owner',
+        {
+            name: z.string().describe('The team name, e.g. "Support"')
+        },
+        async ({ name }) => {
+            console.error(`create-team tool called by user ${user.id}: ${name}`);
+
+            try {
+                const team = await teamService.createTeam(user.id, name);
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ success: true, teamId: team.id, name: team.name }, null, 2) }]
+                };
+            } catch (error: any) {
+                console.error('Error creating team:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register add-team-member tool
+    server.tool(
+        'add-team-member',
+        'Add a user to a team you own, giving them its caller IDs',
+        {
+            teamId: z.string().describe('The team ID from list-teams'),
+            email: z.string().describe('Email of the user to add')
+        },
+        async ({ teamId, email }) => {
+            console.error(`add-team-member tool called by user ${user.id}: ${email} to ${teamId}`);
+
+            try {
+                const member = await teamService.addMember(user.id, teamId, email);
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ success: true, teamId, email, role: member.role }, null, 2) }]
+                };
+            } catch (error: any) {
+                console.error('Error adding team member:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register remove-team-member tool
+    server.tool(
+        'remove-team-member',
+        'Remove a user from a team you own, or leave a team',
+        {
+            teamId: z.string().describe('The team ID from list-teams'),
+            email: z.string().describe('Email of the user to remove (your own to leave)')
+        },
+        async ({ teamId, email }) => {
+            console.error(`remove-team-member tool called by user ${user.id}: ${email} from ${teamId}`);
+
+            try {
+                const removed = await teamService.removeMember(user.id, teamId, email);
+                if (!removed) {
+                    return {
+                        content: [{ type: 'text', text: JSON.stringify({ error: 'Team member not found' }) }],
+                        isError: true
+                    };
+                }
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ success: true, teamId, email }, null, 2) }]
+                };
+            } catch (error: any) {
+                console.error('Error removing team member:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register list-teams tool
+    server.tool(
+        'list-teams',
+        'List the teams you belong to and their members',
+        {},
+        async () => {
+            console.error(`list-teams tool called by user ${user.id}`);
+
+            try {
+                const teams = await teamService.listTeams(user.id);
+
+                return {
+                    content: [{
+                        type: 'text',
+                        text: JSON.stringify({
+                            count: teams.length,
+                            teams: teams.map(t => ({
+                                teamId: t.id,
+                                name: t.name,
+                                members: t.members.map(m => ({ email: m.user.email, role: m.role }))
+                            }))
+                        }, null, 2)
+                    }]
+                };
+            } catch (error: any) {
+                console.error('Error listing teams:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register set-credentials tool
+    server.tool(
+        'set-credentials',
+        'Place your calls with your own Twilio account and/or OpenAI API key instead of the server\'s. Credentials are checked before they are stored, and stored encrypted',
+        {
+            twilio: z.object({
+                accountSid: z.string().describe('The Twilio account SID (AC...)'),
+                authToken: z.string().describe('The Twilio auth token'),
+                phoneNumber: z.string().describe('A number on the Twilio account to call from, in E.164 format')
+            }).nullable().optional().describe('Your Twilio account, or null to go back to the server\'s (omit to leave unchanged)'),
+            openaiApiKey: z.string().nullable().optional().describe('Your OpenAI API key, or null to go back to the server\'s (omit to leave unchanged)'),
+            teamId: z.string().optional().describe('Set the credentials of a team you own instead of your own')
+        },
+        async ({ twilio, openaiApiKey, teamId }) => {
+            console.error(`set-credentials tool called by user ${user.id}${teamId ? ` for team ${teamId}` : ''}`);
+
+            try {
+                const summary = await credentialService.setCredentials(user.id, {
+                    twilio: twilio && { accountSid: twilio.accountSid, authToken: twilio.authToken, fromNumber: twilio.phoneNumber },
+                    openaiApiKey
+                }, teamId);
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ success: true, ...summary }, null, 2) }]
+                };
+            } catch (error: any) {
+                console.error('Error setting credentials:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register get-credentials tool
+    server.tool(
+        'get-credentials',
+        'Show which Twilio account and OpenAI API key your calls use (yours, a team\'s or the server\'s), with secrets masked',
+        {},
+        async () => {
+            console.error(`get-credentials tool called by user ${user.id}`);
+
+            try {
+                const summary = await credentialService.getSummary(user.id);
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify(summary, null, 2) }]
+                };
+            } catch (error: any) {
+                console.error('Error getting credentials:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register remove-credentials tool
+    server.tool(
+        'remove-credentials',
+        'Remove your stored Twilio and OpenAI credentials, or those of a team you own',
+        {
+            teamId: z.string().optional().describe('Remove the credentials of a team you own instead of your own')
+        },
+        async ({ teamId }) => {
+            console.error(`remove-credentials tool called by user ${user.id}${teamId ? ` for team ${teamId}` : ''}`);
+
+            try {
+                const removed = await credentialService.removeCredentials(user.id, teamId);
+                if (!removed) {
+                    return {
+                        content: [{ type: 'text', text: JSON.stringify({ error: 'No credentials stored' }) }],
+                        isError: true
+                    };
+                }
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ success: true, ...(await credentialService.getSummary(user.id)) }, null, 2) }]
+                };
+            } catch (error: any) {
+                console.error('Error removing credentials:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register set-inbound-agent tool
+    server.tool(
+        'set-inbound-agent',
+        'Answer inbound calls to one of the account\'s phone numbers with an AI agent, or update its prompt',
+        {
+            phoneNumber: z.string().describe('The owned phone number in E.164 format'),
+            agentPrompt: z.string().optional().describe('Instructions for the agent answering calls to this number')
+        },
+        async ({ phoneNumber, agentPrompt }) => {
+            console.error(`set-inbound-agent tool called by user ${user.id}: ${phoneNumber}`);
+
+            try {
+                if (!await (await twilioCallService.forUser(user.id)).isAccountNumber(phoneNumber)) {
+                    return {
+                        content: [{ type: 'text', text: JSON.stringify({ error: 'Phone number is not owned by this Twilio account' }) }],
+                        isError: true
+                    };
+                }
+
+                const inboundNumber = await inboundRoutingService.setNumber(user.id, phoneNumber, agentPrompt);
+
+                return {
+                    content: [{
+                        type: 'text',
+                        text: JSON.stringify({
+                            success: true,
+                            phoneNumber: inboundNumber.phoneNumber,
+                            agentPrompt: inboundNumber.agentPrompt
+                        }, null, 2)
+                    }]
+                };
+            } catch (error: any) {
+                console.error('Error setting inbound agent:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register list-inbound-numbers tool
+    server.tool(
+        'list-inbound-numbers',
+        'List the phone numbers that answer inbound calls for you',
+        {},
+        async () => {
+            console.error(`list-inbound-numbers tool called by user ${user.id}`);
+
+            try {
+                const numbers = await inboundRoutingService.listNumbers(user.id);
+
+                return {
+                    content: [{
+                        type: 'text',
+                        text: JSON.stringify({
+                            count: numbers.length,
+                            numbers: numbers.map(n => ({
+                                phoneNumber: n.phoneNumber,
+                                agentPrompt: n.agentPrompt
+                            }))
+                        }, null, 2)
+                    }]
+                };
+            } catch (error: any) {
+                console.error('Error listing inbound numbers:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    // Register remove-inbound-number tool
+    server.tool(
+        'remove-inbound-number',
+        'Stop answering inbound calls to a phone number',
+        {
+            phoneNumber: z.string().describe('The phone number in E.164 format')
+        },
+        async ({ phoneNumber }) => {
+            console.error(`remove-inbound-number tool called by user ${user.id}: ${phoneNumber}`);
+
+            try {
+                const removed = await inboundRoutingService.removeNumber(user.id, phoneNumber);
+
+                if (!removed) {
+                    return {
+                        content: [{ type: 'text', text: JSON.stringify({ error: 'Inbound number not found' }) }],
+                        isError: true
+                    };
+                }
+
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ success: true, phoneNumber }, null, 2) }]
+                };
+            } catch (error: any) {
+                console.error('Error removing inbound number:', error);
+                return {
+                    content: [{ type: 'text', text: JSON.stringify({ error: error.message }) }],
+                    isError: true
+                };
+            }
+        }
+    );
+
+    return server;
+}
+
+/**
+ * Start the web server with OAuth, login, and MCP endpoints
+ */
+export async function startWebServer(
+    port: number,
+    baseUrl: string,
+    callService: TwilioCallService,
+    persistenceService: CallPersistenceService,
+    sessionManager: CallSessionManager,
+    dispatchService: CallDispatchService
+): Promise<Express> {
+    twilioCallService = callService;
+    callDispatchService = dispatchService;
+    webBaseUrl = baseUrl;
+    callPersistenceService = persistenceService;
+    callSessionManager = sessionManager;
+
+    const app = express();
+
+    // Trust proxy for HTTPS detection
+    app.set('trust proxy', 1);
+
+    // Middleware
+    app.use(cors({
+        origin: true,
+        credentials: true
+    }));
+    app.use(express.json());
+    app.use(express.urlencoded({ extended: true }));
+    app.use(cookieParser());
+
+    // Request logging
+    app.use((req: Request, _res: Response, next: NextFunction) => {
+        console.error(`${new Date().toISOString()} ${req.method} ${req.url}`);
+        next();
+    });
+
+    // Configure and mount OAuth endpoints
+    const mcpAuthConfig = createMcpAuthConfig(baseUrl);
+    const mcpAuth = McpAuth(mcpAuthConfig);
+    app.use('/api/oauth', mcpAuth);
+    app.use('/.well-known', mcpAuth);
+
+    // Error handler for OAuth
+    app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+        console.error('Error in request:', err);
+        res.status(500).json({ error: 'Internal server error', details: err.message });
+    });
+
+    // Home page - redirect to login or show status
+    app.get('/', (_req: Request, res: Response) => {
+        res.send(`
+<!DOCTYPE html>
+<html>
+<head>
+    <title>Voice Call MCP Server</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            max-width: 600px;
+            margin: 100px auto;
+            padding: 20px;
+            text-align: center;
+        }
+        h1 { color: #333; }
+        .status { color: #28a745; font-size: 1.2em; margin: 20px 0; }
+        a { color: #007bff; text-decoration: none; }
+        a:hover { text-decoration: underline; }
+        .info { background: #f5f5f5; padding: 20px; border-radius: 8px; margin-top: 30px; text-align: left; }
+        code { background: #e9ecef; padding: 2px 6px; border-radius: 4px; }
+    </style>
+</head>
+<body>
+    <h1>Voice Call MCP Server</h1>
+    <div class="status">✓ Server is running</div>
+    <p><a href="/login">Login</a> | <a href="/register">Register</a></p>
+    <div class="info">
+        <p><strong>MCP Endpoint:</strong> <code>/mcp</code></p>
+        <p><strong>OAuth Discovery:</strong> <code>/.well-known/oauth-authorization-server</code></p>
+        <p>Add this server to Claude using the MCP endpoint URL.</p>
+    </div>
+</body>
+</html>
+        `);
+    });
+
+    // Login page
+    app.get('/login', (req: Request, res: Response) => {
+        const callbackUrl = (req.query.callbackUrl as string) || '/';
+        res.send(generateLoginPageHtml(callbackUrl, false));
+    });
+
+    // Register page
+    app.get('/register', (req: Request, res: Response) => {
+        const callbackUrl = (req.query.callbackUrl as string) || '/';
         res.send(generateLoginPageHtml(callbackUrl, true));
     });
 
@@ -538,8 +2277,9 @@ export async function startWebServer(
                 return;
             }
 
-            // Register user
+            // Register user on the default plan
             const user = await registerUser(email, password, name);
+            await quotaService.assignDefaultPlan(user.id);
 
             // Create session
             const session = await createSession(user.id);
@@ -646,6 +2386,72 @@ export async function startWebServer(
         await transport.handleRequest(req, res, req.body);
     });
 
+    // Recording audio (session cookie or MCP bearer token, owner only)
+    app.get('/recordings/:recordingSid', async (req: Request, res: Response) => {
+        const userId = await getRequestUserId(req, mcpAuthConfig);
+        if (!userId) {
+            res.status(401).json({ error: 'Unauthorized' });
+            return;
+        }
+
+        try {
+            const recording = await recordingService.getOwnedRecording(req.params.recordingSid, userId);
+            if (!recording) {
+                res.status(404).json({ error: 'Recording not found' });
+                return;
+            }
+
+            const format = (req.query.format?.toString() || (recording.source === 'capture' ? 'wav' : 'mp3')) as RecordingFormat;
+            if (format !== 'mp3' && format !== 'wav') {
+                res.status(400).json({ error: 'format must be mp3 or wav' });
+                return;
+            }
+
+            const audio = await recordingService.openAudio(recording, format);
+            res.setHeader('Content-Type', audio.contentType);
+            if (audio.contentLength) {
+                res.setHeader('Content-Length', audio.contentLength);
+            }
+            res.setHeader('Content-Disposition', `inline; filename="${recording.recordingSid}.${format}"`);
+            audio.body.pipe(res);
+        } catch (error: any) {
+            console.error('Error streaming recording:', error);
+            res.status(502).json({ error: error.message });
+        }
+    });
+
+    // Usage export by day (session cookie or MCP bearer token)
+    app.get('/usage/export', async (req: Request, res: Response) => {
+        const userId = await getRequestUserId(req, mcpAuthConfig);
+        if (!userId) {
+            res.status(401).json({ error: 'Unauthorized' });
+            return;
+        }
+
+        const format = req.query.format?.toString() || 'json';
+        if (format !== 'json' && format !== 'csv') {
+            res.status(400).json({ error: 'format must be json or csv' });
+            return;
+        }
+
+        try {
+            const range = getUsageRange(req.query.from?.toString(), req.query.to?.toString());
+            const report = await usageService.getUsageReport([userId], range.from, range.to);
+
+            if (format === 'csv') {
+                res.setHeader('Content-Type', 'text/csv');
+                res.setHeader('Content-Disposition', `attachment; filename="usage-${report.from}-${report.to}.csv"`);
+                res.send(usageService.toCsv(report.days));
+                return;
+            }
+
+            res.json(report);
+        } catch (error: any) {
+            console.error('Error exporting usage:', error);
+            res.status(400).json({ error: error.message });
+        }
+    });
+
     // Health check
     app.get('/health', (_req: Request, res: Response) => {
         res.json({
@@ -0,0 +1,101 @@
+import { decodeMulaw, encodeWav, MULAW_SAMPLE_RATE, SAMPLES_PER_MS } from '../utils/audio-utils.js';
+
+interface AudioChunk {
+    offset: number;
+    mulaw: Buffer;
+}
+
+/**
+ * Captures both legs of a call from the media stream and renders them as a stereo WAV,
+ * caller on the left channel and agent on the right.
+ *
+ * Positions are in samples since the stream started, taken from Twilio media timestamps.
+ * Agent audio arrives faster than it is played, so it is queued after the previous agent
+ * audio, and cut off where Twilio's playback buffer is cleared by an interruption.
+ */
+export class CallAudioCapture {
+    private readonly callerChunks: AudioChunk[] = [];
+    private agentChunks: AudioChunk[] = [];
+    private agentCursor = 0;
+
+    /**
+     * Add a caller media payload
+     * @param payload Base64 μ-law audio
+     * @param timestampMs Twilio media timestamp of the payload
+     */
+    public addCallerAudio(payload: string, timestampMs: number): void {
+        this.callerChunks.push({
+            offset: Math.round(timestampMs * SAMPLES_PER_MS),
+            mulaw: Buffer.from(payload, 'base64')
+        });
+    }
+
+    /**
+     * Add agent audio sent to Twilio for playback
+     * @param payload Base64 μ-law audio
+     * @param currentTimestampMs Latest Twilio media timestamp (playback cannot start before it)
+     */
+    public addAgentAudio(payload: string, currentTimestampMs: number): void {
+        const mulaw = Buffer.from(payload, 'base64');
+        const offset = Math.max(this.agentCursor, Math.round(currentTimestampMs * SAMPLES_PER_MS));
+
+        this.agentChunks.push({ offset, mulaw });
+        this.agentCursor = offset + mulaw.length;
+    }
+
+    /**
+     * Drop agent audio that was queued but not played because playback was cleared
+     * @param timestampMs Twilio media timestamp at which playback stopped
+     */
+    public truncateAgentAudio(timestampMs: number): void {
+        const cutoff = Math.round(timestampMs * SAMPLES_PER_MS);
+
+        this.agentChunks = this.agentChunks
+            .filter(chunk => chunk.offset < cutoff)
+            .map(chunk => chunk.offset + chunk.mulaw.length > cutoff
+                ? { offset: chunk.offset, mulaw: chunk.mulaw.subarray(0, cutoff - chunk.offset) }
+                : chunk);
+        this.agentCursor = Math.min(this.agentCursor, cutoff);
+    }
+
+    /**
+     * Whether any audio was captured
+     */
+    public hasAudio(): boolean {
+        return this.callerChunks.length > 0 || this.agentChunks.length > 0;
+    }
+
+    /**
+     * Length of the capture in seconds
+     */
+    public getDurationSeconds(): number {
+        return Math.round(this.getLength() / MULAW_SAMPLE_RATE);
+    }
+
+    /**
+     * Render the capture as a stereo 16-bit WAV file
+     */
+    public toWav(): Buffer {
+        const length = this.getLength();
+        return encodeWav([
+            this.renderTrack(this.callerChunks, length),
+            this.renderTrack(this.agentChunks, length)
+        ], MULAW_SAMPLE_RATE);
+    }
+
+    private getLength(): number {
+        return [...this.callerChunks, ...this.agentChunks]
+            .reduce((length, chunk) => Math.max(length, chunk.offset + chunk.mulaw.length), 0);
+    }
+
+    /**
+     * Decode a track's chunks into one sample array, leaving silence in the gaps
+     */
+    private renderTrack(chunks: AudioChunk[], length: number): Int16Array {
+        const track = new Int16Array(length);
+        for (const chunk of chunks) {
+            track.set(decodeMulaw(chunk.mulaw), chunk.offset);
+        }
+        return track;
+    }
+}
@@ -154,6 +154,51 @@ export async function getUserById(userId: string): Promise<AuthUser | null> {
     };
 }
 
+/**
+ * Get user by email
+ */
+export async function getUserByEmail(email: string): Promise<AuthUser | null> {
+    const user = await prisma.user.findUnique({
+        where: { email: email.toLowerCase() }
+    });
+
+    if (!user) {
+        return null;
+    }
+
+    return {
+        id: user.id,
+        email: user.email,
+        name: user.name
+    };
+}
+
+/**
+ * Check whether a user is an administrator
+ */
+export async function isAdmin(userId: string): Promise<boolean> {
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { isAdmin: true }
+    });
+
+    return user?.isAdmin ?? false;
+}
+
+/**
+ * Grant or revoke admin rights. Only called from the grant-admin script on the server,
+ * as registration does not verify that an email belongs to whoever registered it.
+ * @returns false if no user has this email
+ */
+export async function setAdmin(email: string, admin: boolean): Promise<boolean> {
+    const result = await prisma.user.updateMany({
+        where: { email: email.toLowerCase() },
+        data: { isAdmin: admin }
+    });
+
+    return result.count > 0;
+}
+
 /**
  * Delete all sessions for a user
  */
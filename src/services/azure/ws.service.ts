@@ -0,0 +1,28 @@
+import { RealtimeBackendName } from '../../types.js';
+import { DEFAULT_AZURE_OPENAI_API_VERSION } from '../../config/constants.js';
+import { OpenAIWsService, RealtimeConnection } from '../openai/ws.service.js';
+
+/**
+ * Service for handling a realtime model deployed on Azure OpenAI. Azure speaks the
+ * Realtime beta protocol; only the endpoint and authentication differ.
+ *
+ * The deployment (AZURE_OPENAI_DEPLOYMENT) and key (AZURE_OPENAI_API_KEY) are the
+ * server's, so a call's model and its owner's OpenAI key do not apply.
+ */
+export class AzureOpenAIWsService extends OpenAIWsService {
+    public readonly name: RealtimeBackendName = RealtimeBackendName.AZURE_OPENAI;
+
+    protected getConnection(): RealtimeConnection {
+        const deployment = process.env.AZURE_OPENAI_DEPLOYMENT || '';
+        const url = new URL('/openai/realtime', process.env.AZURE_OPENAI_ENDPOINT);
+        url.protocol = 'wss:';
+        url.searchParams.set('api-version', process.env.AZURE_OPENAI_API_VERSION || DEFAULT_AZURE_OPENAI_API_VERSION);
+        url.searchParams.set('deployment', deployment);
+
+        return {
+            url: url.toString(),
+            headers: { 'api-key': process.env.AZURE_OPENAI_API_KEY || '' },
+            model: deployment
+        };
+    }
+}
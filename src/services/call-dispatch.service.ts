@@ -0,0 +1,165 @@
+import { randomUUID } from 'crypto';
+import { Call } from '@prisma/client';
+import { CallOptions, CallRequest, CallStatus, CallType } from '../types.js';
+import { TwilioCallService } from './twilio/call.service.js';
+import { callPersistenceService } from './call-persistence.service.js';
+import { outcomeService } from './outcome.service.js';
+import { functionToolService } from './function-tool.service.js';
+import { callTimeoutService } from './call-timeout.service.js';
+import { quotaService } from './quota.service.js';
+import { destinationPolicyService } from './destination-policy.service.js';
+import { callerIdService } from './caller-id.service.js';
+import { OutsideCallingHoursError, callingHoursService } from './calling-hours.service.js';
+import { DialedCall, TelephonyProvider } from './telephony/provider.js';
+import { telephonyService } from './telephony/telephony.service.js';
+import { realtimeService } from './realtime/realtime.service.js';
+import { isValidTimeZone, validateCallingWindows } from '../utils/time-utils.js';
+
+/**
+ * Links a retry to the first call of its request
+ */
+export interface RetryAttempt {
+    parentCallId: string;
+    attemptNumber: number;
+}
+
+export interface DispatchedCall {
+    dialedCall: DialedCall;
+    call: Call;
+}
+
+/**
+ * Places outbound calls for users and records them. Shared by the MCP tools and
+ * the background jobs that dial on a user's behalf.
+ */
+export class CallDispatchService {
+    private readonly twilioCallService: TwilioCallService;
+
+    /**
+     * Create a new call dispatch service
+     * @param twilioCallService The Twilio call service, whose callback URL tells when the voice server is up
+     */
+    constructor(twilioCallService: TwilioCallService) {
+        this.twilioCallService = twilioCallService;
+    }
+
+    /**
+     * Whether calls can be placed yet (the voice server callback URL is known)
+     */
+    public isReady(): boolean {
+        return this.twilioCallService.getCallbackUrl() !== '';
+    }
+
+    /**
+     * Validate a call request's options before it is dialled or stored for later
+     * @throws Error describing the first invalid option
+     */
+    public async validateRequest(request: CallOptions): Promise<void> {
+        if (request.outcomeSchema) {
+            outcomeService.validateSchema(request.outcomeSchema);
+        }
+
+        for (const tool of request.functionTools || []) {
+            await functionToolService.validateTool(tool);
+        }
+
+        if (request.timeouts) {
+            callTimeoutService.validateTimeouts(request.timeouts);
+        }
+
+        if (request.provider) {
+            telephonyService.get(request.provider);
+        }
+
+        if (request.settings?.backend) {
+            realtimeService.assertAvailable(request.settings.backend);
+        }
+
+        if (request.timezone && !isValidTimeZone(request.timezone)) {
+            throw new Error(`Unknown time zone: ${request.timezone}`);
+        }
+
+        if (request.callingWindows) {
+            validateCallingWindows(request.callingWindows);
+        }
+    }
+
+    /**
+     * Resolve the number a user's call is placed from: the requested caller ID,
+     * or the number of the carrier account their calls use
+     * @throws Error if the requested number is not one of the user's verified caller IDs,
+     * or the requested provider is not enabled
+     */
+    public async resolveFromNumber(userId: string, request: CallOptions): Promise<string> {
+        const provider = await telephonyService.get(request.provider).forUser(userId);
+        return this.resolveFromNumberWith(provider, userId, request);
+    }
+
+    /**
+     * Dial a call and persist it for the user
+     * @param userId The user placing the call
+     * @param request The call request
+     * @param attempt Set when the call is a retry of an earlier call
+     */
+    public async dial(userId: string, request: CallRequest, attempt?: RetryAttempt): Promise<DispatchedCall> {
+        await this.validateRequest(request);
+        const toNumber = await destinationPolicyService.assertAllowed(userId, request.toNumber);
+        // Retries, scheduled calls and campaigns are dialled unattended, so they are checked here too
+        const hours = await callingHoursService.check(userId, toNumber, { timezone: request.timezone, windows: request.callingWindows });
+        if (hours && !hours.allowed) {
+            throw new OutsideCallingHoursError(hours);
+        }
+        const provider = await telephonyService.get(request.provider).forUser(userId);
+        const fromNumber = await this.resolveFromNumberWith(provider, userId, request);
+        const voicemailDetection = (request.detectVoicemail ?? false) && provider.supportsMachineDetection;
+
+        // Record the call before dialling: it takes its quota slot, and its settings are
+        // there when the media stream starts. The carrier's call SID is filled in once known.
+        const pendingCall = await quotaService.reserveCall(userId, (tx) => callPersistenceService.startCall(
+            userId,
+            `pending_${randomUUID()}`,
+            fromNumber,
+            toNumber,
+            request.callContext,
+            {
+                callType: CallType.OUTBOUND,
+                status: CallStatus.PENDING,
+                voicemailDetection,
+                keywordHangup: request.keywordHangup,
+                record: request.record,
+                settings: request.settings,
+                outcomeSchema: request.outcomeSchema,
+                functionTools: request.functionTools,
+                timeouts: request.timeouts,
+                retryPolicy: attempt ? undefined : request.retry,
+                parentCallId: attempt?.parentCallId,
+                attemptNumber: attempt?.attemptNumber,
+                provider: provider.name,
+                timezone: request.timezone,
+                callingWindows: request.callingWindows
+            },
+            tx
+        ));
+
+        let dialedCall: DialedCall;
+        try {
+            dialedCall = await provider.makeCall(toNumber, request.callContext, {
+                detectVoicemail: voicemailDetection,
+                fromNumber
+            });
+        } catch (error: any) {
+            await callPersistenceService.failDial(pendingCall.id, error?.message || String(error));
+            throw error;
+        }
+
+        const call = await callPersistenceService.assignCallSid(pendingCall.id, dialedCall.callSid, dialedCall.status ?? CallStatus.PENDING);
+        return { dialedCall, call };
+    }
+
+    private async resolveFromNumberWith(provider: TelephonyProvider, userId: string, request: CallOptions): Promise<string> {
+        const defaultNumber = provider.getFromNumber();
+        return request.fromNumber
+            ? callerIdService.assertCanUse(userId, request.fromNumber, defaultNumber)
+            : defaultNumber;
+    }
+}
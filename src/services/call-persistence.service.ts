@@ -1,18 +1,114 @@
 import { prisma } from './db.service.js';
-import { Call, CallMessage } from '@prisma/client';
+import { Call, CallMessage, FunctionInvocation, Prisma } from '@prisma/client';
+import {
+    CallEndReason,
+    CallSettings,
+    CallStatus,
+    CallTimeouts,
+    CallType,
+    CallingWindow,
+    FunctionToolDefinition,
+    RealtimeBackendName,
+    RetryPolicy,
+    SilenceAction,
+    TelephonyProviderName
+} from '../types.js';
+import { RECORD_CALLS } from '../config/constants.js';
+import { canTransition, endReasonForStatus, isTerminalStatus, retryOutcomeFor } from '../utils/call-status.js';
 
 export interface CallWithMessages extends Call {
     messages: CallMessage[];
 }
 
+export interface CallWithAttempts extends CallWithMessages {
+    parentCall: { callSid: string } | null;
+    functionCalls: FunctionInvocation[];
+    retries: CallWithMessages[];
+}
+
+/**
+ * Lifecycle details reported by Twilio status callbacks
+ */
+export interface CallStatusDetails {
+    twilioStatus?: string;
+    answeredAt?: Date;
+    durationSeconds?: number;
+    sipResponseCode?: number;
+}
+
+/**
+ * Optional settings recorded when a call is started
+ */
+export interface StartCallOptions {
+    callType?: CallType;
+    status?: CallStatus;
+    voicemailDetection?: boolean;
+    keywordHangup?: boolean;
+    record?: boolean;
+    settings?: CallSettings;
+    outcomeSchema?: Record<string, unknown>;
+    functionTools?: FunctionToolDefinition[];
+    timeouts?: CallTimeouts;
+    retryPolicy?: RetryPolicy;
+    parentCallId?: string;
+    attemptNumber?: number;
+    provider?: TelephonyProviderName;
+    timezone?: string;
+    callingWindows?: CallingWindow[];
+}
+
+export interface CallOutcome {
+    data: unknown;
+    valid: boolean | null;
+    errors: string[];
+    source: string | null;
+}
+
+/**
+ * A call the agent made to an HTTP function tool
+ */
+export interface CallFunctionCall {
+    toolName: string;
+    arguments: unknown;
+    status: string;
+    output: string | null;
+    error: string | null;
+    durationMs: number;
+    timestamp: Date;
+}
+
+/**
+ * Retry attempts of a call placed with a retry policy
+ */
+export interface CallRetrySummary {
+    policy: RetryPolicy;
+    nextRetryAt: Date | null;
+    error: string | null;
+    succeededCallSid: string | null;
+    attempts: CallTranscript[];
+}
+
 export interface CallTranscript {
     callSid: string;
     fromNumber: string;
     toNumber: string;
     callContext: string | null;
+    direction: string;
     startTime: Date;
     endTime: Date | null;
     status: string;
+    endReason: string | null;
+    endDetail: string | null;
+    twilioStatus: string | null;
+    answeredAt: Date | null;
+    durationSeconds: number | null;
+    sipResponseCode: number | null;
+    answeredBy: string | null;
+    outcome: CallOutcome | null;
+    functionCalls?: CallFunctionCall[];
+    attemptNumber: number;
+    parentCallSid?: string;
+    retry?: CallRetrySummary;
     messages: Array<{
         role: string;
         content: string;
@@ -32,29 +128,87 @@ export class CallPersistenceService {
         callSid: string,
         fromNumber: string,
         toNumber: string,
-        callContext?: string
+        callContext?: string,
+        options: StartCallOptions = {},
+        db: Prisma.TransactionClient = prisma
     ): Promise<Call> {
-        const call = await prisma.call.create({
+        const direction = options.callType === CallType.INBOUND ? 'inbound' : 'outbound';
+        const call = await db.call.create({
             data: {
                 callSid,
                 userId,
                 fromNumber,
                 toNumber,
                 callContext: callContext || null,
-                status: 'in_progress'
+                direction,
+                status: options.status ?? CallStatus.IN_PROGRESS,
+                voicemailDetection: options.voicemailDetection ?? false,
+                keywordHangup: options.keywordHangup ?? true,
+                record: options.record ?? RECORD_CALLS,
+                voice: options.settings?.voice ?? null,
+                model: options.settings?.model ?? null,
+                temperature: options.settings?.temperature ?? null,
+                language: options.settings?.language ?? null,
+                transcriptionModel: options.settings?.transcriptionModel ?? null,
+                backend: options.settings?.backend ?? null,
+                outcomeSchema: options.outcomeSchema ? options.outcomeSchema as Prisma.InputJsonValue : Prisma.DbNull,
+                functionTools: options.functionTools?.length
+                    ? options.functionTools as unknown as Prisma.InputJsonValue
+                    : Prisma.DbNull,
+                maxDurationSeconds: options.timeouts?.maxDurationSeconds ?? null,
+                silenceTimeoutSeconds: options.timeouts?.silenceTimeoutSeconds ?? null,
+                silenceAction: options.timeouts?.silenceAction ?? null,
+                retryPolicy: options.retryPolicy ? options.retryPolicy as unknown as Prisma.InputJsonValue : Prisma.DbNull,
+                parentCallId: options.parentCallId ?? null,
+                attemptNumber: options.attemptNumber ?? 1,
+                provider: options.provider ?? TelephonyProviderName.TWILIO,
+                timezone: options.timezone ?? null,
+                callingWindows: options.callingWindows
+                    ? options.callingWindows as unknown as Prisma.InputJsonValue
+                    : Prisma.DbNull
             }
         });
 
-        console.error(`Call started: ${callSid} for user ${userId}`);
+        console.error(`Call started: ${callSid} (${direction}) for user ${userId}`);
         return call;
     }
 
+    /**
+     * Give an outbound call recorded before it was dialled the carrier's call SID
+     * @param id The call's ID
+     * @param callSid The call SID returned by the carrier
+     * @param status The status reported when the call was placed
+     */
+    async assignCallSid(id: string, callSid: string, status: CallStatus): Promise<Call> {
+        return prisma.call.update({
+            where: { id },
+            data: { callSid, status }
+        });
+    }
+
+    /**
+     * Mark an outbound call recorded before it was dialled as failed, when the carrier refused it
+     * @param id The call's ID
+     * @param detail Why it could not be placed
+     */
+    async failDial(id: string, detail: string): Promise<Call | null> {
+        return prisma.call.update({
+            where: { id },
+            data: {
+                status: CallStatus.FAILED,
+                endedAt: new Date(),
+                endReason: CallEndReason.FAILED,
+                endDetail: detail
+            }
+        }).catch(() => null);
+    }
+
     /**
      * Add a message to a call transcript
      */
     async addMessage(
         callSid: string,
-        role: 'user' | 'assistant',
+        role: 'user' | 'assistant' | 'system',
         content: string
     ): Promise<CallMessage | null> {
         // Find the call
@@ -80,26 +234,42 @@ export class CallPersistenceService {
     }
 
     /**
-     * End a call
+     * End a call. The first recorded end reason wins, so a later generic teardown
+     * (e.g. the media stream stopping) does not overwrite why the call really ended.
      */
-    async endCall(callSid: string): Promise<Call | null> {
+    async endCall(
+        callSid: string,
+        endReason?: CallEndReason,
+        status: CallStatus = CallStatus.COMPLETED,
+        endDetail?: string
+    ): Promise<Call | null> {
+        const existing = await prisma.call.findUnique({
+            where: { callSid }
+        });
+
+        if (!existing) {
+            return null;
+        }
+
         const call = await prisma.call.update({
             where: { callSid },
             data: {
-                status: 'completed',
-                endedAt: new Date()
+                status: canTransition(existing.status, status) ? status : existing.status,
+                endedAt: existing.endedAt ?? new Date(),
+                endReason: existing.endReason ?? endReason ?? CallEndReason.COMPLETED,
+                endDetail: existing.endReason ? existing.endDetail : endDetail ?? null
             }
         }).catch(() => null);
 
         if (call) {
-            console.error(`Call ended: ${callSid}`);
+            console.error(`Call ended: ${callSid} (${call.endReason})`);
         }
 
         return call;
     }
 
     /**
-     * Get a call transcript by callSid (with ownership check)
+     * Get a call transcript by callSid (with ownership check), including any retry attempts
      */
     async getTranscript(callSid: string, userId: string): Promise<CallTranscript | null> {
         const call = await prisma.call.findUnique({
@@ -107,6 +277,20 @@ export class CallPersistenceService {
             include: {
                 messages: {
                     orderBy: { timestamp: 'asc' }
+                },
+                parentCall: {
+                    select: { callSid: true }
+                },
+                functionCalls: {
+                    orderBy: { createdAt: 'asc' }
+                },
+                retries: {
+                    orderBy: { attemptNumber: 'asc' },
+                    include: {
+                        messages: {
+                            orderBy: { timestamp: 'asc' }
+                        }
+                    }
                 }
             }
         });
@@ -121,7 +305,28 @@ export class CallPersistenceService {
             return null;
         }
 
-        return this.callToTranscript(call);
+        return this.callWithAttemptsToTranscript(call);
+    }
+
+    /**
+     * Get a call by callSid (with ownership check)
+     */
+    async getOwnedCall(callSid: string, userId: string): Promise<Call | null> {
+        const call = await prisma.call.findUnique({
+            where: { callSid }
+        });
+
+        if (!call) {
+            return null;
+        }
+
+        // Check ownership
+        if (call.userId !== userId) {
+            console.error(`User ${userId} attempted to access call ${callSid} owned by ${call.userId}`);
+            return null;
+        }
+
+        return call;
     }
 
     /**
@@ -173,15 +378,138 @@ export class CallPersistenceService {
     }
 
     /**
-     * Update call status
+     * Find the most recent outbound call placed from one of our numbers to a given party
+     * (internal use, used to recognise callbacks)
+     */
+    async findLatestOutboundCall(fromNumber: string, toNumber: string, userId?: string): Promise<CallWithMessages | null> {
+        return prisma.call.findFirst({
+            where: {
+                fromNumber,
+                toNumber,
+                direction: 'outbound',
+                ...(userId ? { userId } : {})
+            },
+            orderBy: { startedAt: 'desc' },
+            include: {
+                messages: {
+                    orderBy: { timestamp: 'asc' }
+                }
+            }
+        });
+    }
+
+    /**
+     * Update call status, enforcing the call lifecycle state machine.
+     * Invalid transitions (e.g. late or out-of-order events) leave the status unchanged
+     * but still record any lifecycle details.
+     */
+    async updateCallStatus(callSid: string, status: CallStatus, details: CallStatusDetails = {}): Promise<Call | null> {
+        const existing = await prisma.call.findUnique({
+            where: { callSid }
+        });
+
+        if (!existing) {
+            return null;
+        }
+
+        const valid = canTransition(existing.status, status);
+        if (!valid) {
+            console.error(`Ignoring invalid status transition for call ${callSid}: ${existing.status} -> ${status}`);
+        }
+
+        const reachedEnd = valid && isTerminalStatus(status);
+
+        return prisma.call.update({
+            where: { callSid },
+            data: {
+                status: valid ? status : existing.status,
+                ...(details.twilioStatus !== undefined ? { twilioStatus: details.twilioStatus } : {}),
+                ...(details.durationSeconds !== undefined ? { durationSeconds: details.durationSeconds } : {}),
+                ...(details.sipResponseCode !== undefined ? { sipResponseCode: details.sipResponseCode } : {}),
+                ...(details.answeredAt && !existing.answeredAt ? { answeredAt: details.answeredAt } : {}),
+                ...(reachedEnd ? {
+                    endedAt: existing.endedAt ?? new Date(),
+                    endReason: existing.endReason ?? endReasonForStatus(status)
+                } : {})
+            }
+        }).catch(() => null);
+    }
+
+    /**
+     * Record the answering machine detection result for a call
      */
-    async updateCallStatus(callSid: string, status: string): Promise<Call | null> {
+    async setAnsweredBy(callSid: string, answeredBy: string): Promise<Call | null> {
         return prisma.call.update({
             where: { callSid },
-            data: { status }
+            data: { answeredBy }
         }).catch(() => null);
     }
 
+    /**
+     * Read the realtime session settings stored on a call
+     */
+    getCallSettings(call: Call): CallSettings {
+        return {
+            voice: call.voice ?? undefined,
+            model: call.model ?? undefined,
+            temperature: call.temperature ?? undefined,
+            language: call.language ?? undefined,
+            transcriptionModel: call.transcriptionModel ?? undefined,
+            backend: (call.backend as RealtimeBackendName | null) ?? undefined
+        };
+    }
+
+    /**
+     * Read the timeouts stored on a call (unset values fall back to the user's defaults)
+     */
+    getCallTimeouts(call: Call): CallTimeouts {
+        return {
+            maxDurationSeconds: call.maxDurationSeconds ?? undefined,
+            silenceTimeoutSeconds: call.silenceTimeoutSeconds ?? undefined,
+            silenceAction: (call.silenceAction as SilenceAction | null) ?? undefined
+        };
+    }
+
+    /**
+     * Convert a Call with its parent and retry attempts to a CallTranscript
+     */
+    private callWithAttemptsToTranscript(call: CallWithAttempts): CallTranscript {
+        const transcript = this.callToTranscript(call);
+
+        if (call.parentCall) {
+            transcript.parentCallSid = call.parentCall.callSid;
+        }
+
+        if (call.functionCalls.length > 0) {
+            transcript.functionCalls = call.functionCalls.map(f => ({
+                toolName: f.toolName,
+                arguments: f.arguments,
+                status: f.status,
+                output: f.output,
+                error: f.error,
+                durationMs: f.durationMs,
+                timestamp: f.createdAt
+            }));
+        }
+
+        if (call.retryPolicy) {
+            const succeeded = [call, ...call.retries].find(attempt =>
+                attempt.status === CallStatus.COMPLETED &&
+                !retryOutcomeFor(attempt.status, attempt.endReason, attempt.answeredBy)
+            );
+
+            transcript.retry = {
+                policy: call.retryPolicy as unknown as RetryPolicy,
+                nextRetryAt: call.nextRetryAt,
+                error: call.retryError,
+                succeededCallSid: succeeded?.callSid ?? null,
+                attempts: call.retries.map(attempt => this.callToTranscript(attempt))
+            };
+        }
+
+        return transcript;
+    }
+
     /**
      * Convert a Call with messages to a CallTranscript
      */
@@ -191,9 +519,24 @@ export class CallPersistenceService {
             fromNumber: call.fromNumber,
             toNumber: call.toNumber,
             callContext: call.callContext,
+            direction: call.direction,
             startTime: call.startedAt,
             endTime: call.endedAt,
             status: call.status,
+            endReason: call.endReason,
+            endDetail: call.endDetail,
+            twilioStatus: call.twilioStatus,
+            answeredAt: call.answeredAt,
+            durationSeconds: call.durationSeconds,
+            sipResponseCode: call.sipResponseCode,
+            answeredBy: call.answeredBy,
+            outcome: call.outcomeSchema ? {
+                data: call.outcome,
+                valid: call.outcomeValid,
+                errors: (call.outcomeErrors as string[] | null) || [],
+                source: call.outcomeSource
+            } : null,
+            attemptNumber: call.attemptNumber,
             messages: call.messages.map(m => ({
                 role: m.role,
                 content: m.content,
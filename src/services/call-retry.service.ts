@@ -0,0 +1,157 @@
+import { Call } from '@prisma/client';
+import { prisma } from './db.service.js';
+import { callPersistenceService } from './call-persistence.service.js';
+import { CallDispatchService } from './call-dispatch.service.js';
+import { OutsideCallingHoursError } from './calling-hours.service.js';
+import { CallRequest, CallingWindow, FunctionToolDefinition, RetryPolicy, TelephonyProviderName } from '../types.js';
+import { retryOutcomeFor } from '../utils/call-status.js';
+import { SCHEDULER_BATCH_SIZE } from '../config/constants.js';
+
+/**
+ * Service for automatically re-dialling outbound calls that were not answered.
+ * The first call of a request holds the retry policy; every retry is a child call
+ * of it, and the next retry time is stored on the first call.
+ */
+export class CallRetryService {
+    /**
+     * Schedule the next attempt if an ended call's outcome is covered by its retry policy
+     * @param call The call that reached a terminal status
+     */
+    async handleCallEnded(call: Call): Promise<void> {
+        const root = call.parentCallId
+            ? await prisma.call.findUnique({ where: { id: call.parentCallId } })
+            : call;
+
+        if (!root?.retryPolicy) {
+            return;
+        }
+
+        const policy = root.retryPolicy as unknown as RetryPolicy;
+        const outcome = retryOutcomeFor(call.status, call.endReason, call.answeredBy);
+        if (!outcome || !policy.retryOn.includes(outcome)) {
+            return;
+        }
+
+        // Only the latest attempt decides whether to try again
+        const laterAttempts = await prisma.call.count({
+            where: { parentCallId: root.id, attemptNumber: { gt: call.attemptNumber } }
+        });
+        if (laterAttempts > 0) {
+            return;
+        }
+
+        if (call.attemptNumber >= policy.maxAttempts) {
+            console.error(`Call ${root.callSid} not retried: ${policy.maxAttempts} attempts used (last: ${outcome})`);
+            return;
+        }
+
+        const delaySeconds = policy.backoffSeconds * Math.pow(policy.backoffMultiplier, call.attemptNumber - 1);
+        const nextRetryAt = new Date(Date.now() + delaySeconds * 1000);
+
+        // Duplicate status callbacks must not push the retry back
+        const result = await prisma.call.updateMany({
+            where: { id: root.id, nextRetryAt: null },
+            data: { nextRetryAt }
+        });
+
+        if (result.count > 0) {
+            console.error(`Call ${root.callSid} attempt ${call.attemptNumber} ended (${outcome}), retrying at ${nextRetryAt.toISOString()}`);
+        }
+    }
+
+    /**
+     * Dial every retry that is due. Retries are claimed with FOR UPDATE SKIP LOCKED
+     * so concurrent replicas never dial the same attempt.
+     * @param dispatcher Places the calls
+     */
+    async processDueRetries(dispatcher: CallDispatchService): Promise<void> {
+        const claimed = await prisma.$queryRaw<{ id: string }[]>`
+            UPDATE "calls"
+            SET "next_retry_at" = NULL
+            WHERE "id" IN (
+                SELECT "id" FROM "calls"
+                WHERE "next_retry_at" <= NOW()
+                ORDER BY "next_retry_at"
+                LIMIT ${SCHEDULER_BATCH_SIZE}
+                FOR UPDATE SKIP LOCKED
+            )
+            RETURNING "id"
+        `;
+
+        for (const { id } of claimed) {
+            await this.dialRetry(id, dispatcher);
+        }
+    }
+
+    /**
+     * Stop any pending retry of the request a call belongs to
+     * @returns true if a pending retry was cancelled
+     */
+    async cancelRetries(call: Call): Promise<boolean> {
+        const result = await prisma.call.updateMany({
+            where: { id: call.parentCallId ?? call.id, nextRetryAt: { not: null } },
+            data: { nextRetryAt: null }
+        });
+
+        return result.count > 0;
+    }
+
+    /**
+     * Place the next attempt of a call as a child call
+     */
+    private async dialRetry(rootId: string, dispatcher: CallDispatchService): Promise<void> {
+        const root = await prisma.call.findUnique({
+            where: { id: rootId },
+            include: {
+                retries: {
+                    select: { attemptNumber: true }
+                }
+            }
+        });
+
+        if (!root) {
+            return;
+        }
+
+        const attemptNumber = Math.max(root.attemptNumber, ...root.retries.map(r => r.attemptNumber)) + 1;
+        const request: CallRequest = {
+            toNumber: root.toNumber,
+            callContext: root.callContext || '',
+            detectVoicemail: root.voicemailDetection,
+            keywordHangup: root.keywordHangup,
+            record: root.record,
+            settings: callPersistenceService.getCallSettings(root),
+            outcomeSchema: root.outcomeSchema ? root.outcomeSchema as Record<string, unknown> : undefined,
+            functionTools: (root.functionTools as FunctionToolDefinition[] | null) ?? undefined,
+            timeouts: callPersistenceService.getCallTimeouts(root),
+            fromNumber: root.fromNumber,
+            provider: root.provider as TelephonyProviderName,
+            timezone: root.timezone ?? undefined,
+            callingWindows: (root.callingWindows as CallingWindow[] | null) ?? undefined
+        };
+
+        try {
+            const { call } = await dispatcher.dial(root.userId, request, { parentCallId: root.id, attemptNumber });
+            console.error(`Call ${root.callSid} retried as ${call.callSid} (attempt ${attemptNumber})`);
+        } catch (error: any) {
+            // Try again once the recipient's calling hours start
+            if (error instanceof OutsideCallingHoursError && error.check.nextAllowedAt) {
+                await prisma.call.update({
+                    where: { id: root.id },
+                    data: { nextRetryAt: error.check.nextAllowedAt }
+                });
+                console.error(`Retry attempt ${attemptNumber} of call ${root.callSid} deferred to ${error.check.nextAllowedAt.toISOString()}: outside the recipient's calling hours`);
+                return;
+            }
+
+            console.error(`Retry attempt ${attemptNumber} of call ${root.callSid} failed to dial:`, error.message);
+            await prisma.call.update({
+                where: { id: root.id },
+                data: { retryError: `Attempt ${attemptNumber} could not be dialled: ${error.message}` }
+            });
+        }
+    }
+}
+
+// Singleton instance for use by the status callbacks and scheduler
+export const callRetryService = new CallRetryService();
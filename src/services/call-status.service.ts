@@ -0,0 +1,111 @@
+import { Call } from '@prisma/client';
+import { CallStatus } from '../types.js';
+import { fromTwilioStatus, isTerminalStatus } from '../utils/call-status.js';
+import { callPersistenceService, CallStatusDetails } from './call-persistence.service.js';
+import { callRetryService } from './call-retry.service.js';
+import { usageService } from './usage.service.js';
+import { CallStatusEvent } from './telephony/provider.js';
+
+/**
+ * Parameters posted by Twilio to a call status callback
+ */
+export interface TwilioStatusCallback {
+    CallSid: string;
+    CallStatus: string;
+    CallDuration?: string;
+    SipResponseCode?: string;
+    Timestamp?: string;
+}
+
+/**
+ * Parameters posted by Twilio to an async answering machine detection callback
+ */
+export interface TwilioAmdCallback {
+    CallSid: string;
+    AnsweredBy: string;
+}
+
+/**
+ * Service for ingesting carrier call status events into the call lifecycle
+ */
+export class CallStatusService {
+    /**
+     * Apply a Twilio status callback to the matching call
+     * @param callback The callback parameters
+     * @returns The updated call, or null if the call or status is unknown
+     */
+    async handleTwilioStatusCallback(callback: TwilioStatusCallback): Promise<Call | null> {
+        const status = fromTwilioStatus(callback.CallStatus);
+        if (!status) {
+            console.error(`Unknown Twilio status for call ${callback.CallSid}: ${callback.CallStatus}`);
+            return null;
+        }
+
+        const timestamp = callback.Timestamp ? new Date(callback.Timestamp) : undefined;
+
+        return this.handleStatusEvent({
+            callSid: callback.CallSid,
+            status,
+            providerStatus: callback.CallStatus,
+            durationSeconds: callback.CallDuration !== undefined ? parseInt(callback.CallDuration, 10) : undefined,
+            sipResponseCode: callback.SipResponseCode !== undefined ? parseInt(callback.SipResponseCode, 10) : undefined,
+            timestamp: timestamp && !isNaN(timestamp.getTime()) ? timestamp : undefined
+        });
+    }
+
+    /**
+     * Apply a status change reported by a carrier to the matching call
+     * @param event The status event
+     * @returns The updated call, or null if the call is unknown
+     */
+    async handleStatusEvent(event: CallStatusEvent): Promise<Call | null> {
+        const details: CallStatusDetails = {
+            twilioStatus: event.providerStatus
+        };
+
+        if (event.durationSeconds !== undefined) {
+            details.durationSeconds = event.durationSeconds;
+        }
+
+        if (event.sipResponseCode !== undefined) {
+            details.sipResponseCode = event.sipResponseCode;
+        }
+
+        if (event.status === CallStatus.IN_PROGRESS) {
+            details.answeredAt = event.timestamp ?? new Date();
+        }
+
+        console.error(`Status callback for call ${event.callSid}: ${event.providerStatus}`);
+        const call = await callPersistenceService.updateCallStatus(event.callSid, event.status, details);
+
+        if (call && isTerminalStatus(call.status)) {
+            await usageService.recordTelephonyUsage(call)
+                .catch(err => console.error('Failed to record call usage:', err));
+            await callRetryService.handleCallEnded(call);
+        }
+
+        return call;
+    }
+
+    /**
+     * Record an answering machine detection result on the call and its transcript
+     * @param callback The callback parameters
+     */
+    async handleAmdCallback(callback: TwilioAmdCallback): Promise<Call | null> {
+        console.error(`AMD result for call ${callback.CallSid}: ${callback.AnsweredBy}`);
+
+        const call = await callPersistenceService.setAnsweredBy(callback.CallSid, callback.AnsweredBy);
+        if (call && callback.AnsweredBy !== 'human' && callback.AnsweredBy !== 'unknown') {
+            await callPersistenceService.addMessage(
+                callback.CallSid,
+                'system',
+                `[Call reached an answering machine (${callback.AnsweredBy})]`
+            );
+        }
+
+        return call;
+    }
+}
+
+// Singleton instance for use by the voice server and telephony providers
+export const callStatusService = new CallStatusService();
@@ -0,0 +1,108 @@
+import { Call } from '@prisma/client';
+import { prisma } from './db.service.js';
+import { callPersistenceService } from './call-persistence.service.js';
+import { CallTimeouts, SilenceAction } from '../types.js';
+import {
+    DEFAULT_MAX_CALL_DURATION_SECONDS,
+    DEFAULT_SILENCE_TIMEOUT_SECONDS,
+    MAX_CALL_DURATION_SECONDS,
+    MAX_SILENCE_TIMEOUT_SECONDS,
+    MIN_CALL_DURATION_SECONDS,
+    MIN_SILENCE_TIMEOUT_SECONDS
+} from '../config/constants.js';
+
+/**
+ * Service for the duration and silence limits enforced on live calls.
+ * A call's own limits take precedence over its owner's defaults, which take
+ * precedence over the server defaults.
+ */
+export class CallTimeoutService {
+    /**
+     * Check that timeout values are within the allowed ranges
+     * @throws Error describing the first invalid value
+     */
+    validateTimeouts(timeouts: CallTimeouts): void {
+        const { maxDurationSeconds, silenceTimeoutSeconds, silenceAction } = timeouts;
+
+        if (maxDurationSeconds !== undefined
+            && (!Number.isInteger(maxDurationSeconds) || maxDurationSeconds < MIN_CALL_DURATION_SECONDS || maxDurationSeconds > MAX_CALL_DURATION_SECONDS)) {
+            throw new Error(`maxDurationSeconds must be a whole number between ${MIN_CALL_DURATION_SECONDS} and ${MAX_CALL_DURATION_SECONDS}`);
+        }
+
+        if (silenceTimeoutSeconds !== undefined && silenceTimeoutSeconds !== 0
+            && (!Number.isInteger(silenceTimeoutSeconds) || silenceTimeoutSeconds < MIN_SILENCE_TIMEOUT_SECONDS || silenceTimeoutSeconds > MAX_SILENCE_TIMEOUT_SECONDS)) {
+            throw new Error(`silenceTimeoutSeconds must be 0 (off) or a whole number between ${MIN_SILENCE_TIMEOUT_SECONDS} and ${MAX_SILENCE_TIMEOUT_SECONDS}`);
+        }
+
+        if (silenceAction !== undefined && !Object.values(SilenceAction).includes(silenceAction)) {
+            throw new Error(`silenceAction must be one of: ${Object.values(SilenceAction).join(', ')}`);
+        }
+    }
+
+    /**
+     * Update a user's default timeouts. Omitted values are left unchanged.
+     * @returns The user's defaults merged with the server defaults
+     */
+    async setUserDefaults(userId: string, timeouts: CallTimeouts): Promise<Required<CallTimeouts>> {
+        this.validateTimeouts(timeouts);
+
+        await prisma.user.update({
+            where: { id: userId },
+            data: {
+                maxCallDurationSeconds: timeouts.maxDurationSeconds,
+                silenceTimeoutSeconds: timeouts.silenceTimeoutSeconds,
+                silenceAction: timeouts.silenceAction
+            }
+        });
+
+        return this.getUserDefaults(userId);
+    }
+
+    /**
+     * Get a user's default timeouts, merged with the server defaults
+     */
+    async getUserDefaults(userId: string): Promise<Required<CallTimeouts>> {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: {
+                maxCallDurationSeconds: true,
+                silenceTimeoutSeconds: true,
+                silenceAction: true
+            }
+        });
+
+        return this.merge({
+            maxDurationSeconds: user?.maxCallDurationSeconds ?? undefined,
+            silenceTimeoutSeconds: user?.silenceTimeoutSeconds ?? undefined,
+            silenceAction: (user?.silenceAction as SilenceAction | null) ?? undefined
+        });
+    }
+
+    /**
+     * Resolve the timeouts to enforce on a call
+     */
+    async resolveTimeouts(call: Call): Promise<Required<CallTimeouts>> {
+        const callTimeouts = callPersistenceService.getCallTimeouts(call);
+        const userDefaults = await this.getUserDefaults(call.userId);
+
+        return {
+            maxDurationSeconds: callTimeouts.maxDurationSeconds ?? userDefaults.maxDurationSeconds,
+            silenceTimeoutSeconds: callTimeouts.silenceTimeoutSeconds ?? userDefaults.silenceTimeoutSeconds,
+            silenceAction: callTimeouts.silenceAction ?? userDefaults.silenceAction
+        };
+    }
+
+    /**
+     * Fill unset timeouts with the server defaults
+     */
+    merge(timeouts: CallTimeouts = {}): Required<CallTimeouts> {
+        return {
+            maxDurationSeconds: timeouts.maxDurationSeconds ?? DEFAULT_MAX_CALL_DURATION_SECONDS,
+            silenceTimeoutSeconds: timeouts.silenceTimeoutSeconds ?? DEFAULT_SILENCE_TIMEOUT_SECONDS,
+            silenceAction: timeouts.silenceAction ?? SilenceAction.PROMPT
+        };
+    }
+}
+
+// Singleton instance for use by event handlers and MCP tools
+export const callTimeoutService = new CallTimeoutService();
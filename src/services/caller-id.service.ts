@@ -0,0 +1,181 @@
+import { CallerId } from '@prisma/client';
+import { prisma } from './db.service.js';
+import { teamService } from './team.service.js';
+import { TwilioCallService } from './twilio/call.service.js';
+import { CallerIdSource, CallerIdStatus } from '../types.js';
+import { normalizePhoneNumber } from '../utils/phone-utils.js';
+
+/**
+ * Parameters posted by Twilio to an outgoing caller ID validation callback
+ */
+export interface TwilioCallerIdCallback {
+    PhoneNumber?: string;
+    VerificationStatus?: string;
+    OutgoingCallerIdSid?: string;
+}
+
+export interface AddedCallerId {
+    callerId: CallerId;
+    // Code to enter when Twilio calls the number, while verification is pending
+    validationCode: string | null;
+}
+
+/**
+ * Service for the numbers users may show as caller ID. A number can be used once it
+ * is on the Twilio account or verified as an outgoing caller ID, and only by the user
+ * or team that added it. The server's own number is available to everyone.
+ */
+export class CallerIdService {
+    /**
+     * Add a caller ID for a user, or for a team the user owns. Numbers already on the
+     * Twilio account are verified straight away; others get a validation call from Twilio.
+     */
+    async add(
+        userId: string,
+        twilioCallService: TwilioCallService,
+        phoneNumber: string,
+        options: { friendlyName?: string; teamId?: string } = {}
+    ): Promise<AddedCallerId> {
+        const normalized = normalizePhoneNumber(phoneNumber);
+        if (!normalized) {
+            throw new Error(`Invalid phone number "${phoneNumber}": use E.164 format (e.g. +14155550123)`);
+        }
+
+        if (options.teamId) {
+            await teamService.assertOwner(userId, options.teamId);
+        }
+        const owner = options.teamId ? { teamId: options.teamId } : { userId };
+
+        const existing = await prisma.callerId.findFirst({
+            where: { ...owner, phoneNumber: normalized }
+        });
+        if (existing?.status === CallerIdStatus.VERIFIED) {
+            return { callerId: existing, validationCode: null };
+        }
+
+        let data: { status: CallerIdStatus; source: CallerIdSource; outgoingCallerIdSid?: string | null; verifiedAt?: Date };
+        let validationCode: string | null = null;
+
+        if (await twilioCallService.isAccountNumber(normalized)) {
+            data = { status: CallerIdStatus.VERIFIED, source: CallerIdSource.ACCOUNT_NUMBER, verifiedAt: new Date() };
+        } else {
+            const outgoingCallerIdSid = await twilioCallService.findOutgoingCallerId(normalized);
+            if (outgoingCallerIdSid) {
+                data = { status: CallerIdStatus.VERIFIED, source: CallerIdSource.OUTGOING_CALLER_ID, outgoingCallerIdSid, verifiedAt: new Date() };
+            } else {
+                validationCode = await twilioCallService.requestCallerIdValidation(normalized, options.friendlyName);
+                data = { status: CallerIdStatus.PENDING, source: CallerIdSource.OUTGOING_CALLER_ID, outgoingCallerIdSid: null };
+            }
+        }
+
+        const callerId = existing
+            ? await prisma.callerId.update({
+                where: { id: existing.id },
+                data: { ...data, friendlyName: options.friendlyName ?? existing.friendlyName }
+            })
+            : await prisma.callerId.create({
+                data: { ...owner, phoneNumber: normalized, friendlyName: options.friendlyName || null, ...data }
+            });
+
+        console.error(`Caller ID ${normalized} added for ${options.teamId ? `team ${options.teamId}` : `user ${userId}`}: ${callerId.status}`);
+        return { callerId, validationCode };
+    }
+
+    /**
+     * Apply the result of an outgoing caller ID validation call to every pending entry for the number
+     */
+    async handleValidationCallback(callback: TwilioCallerIdCallback): Promise<void> {
+        if (!callback.PhoneNumber) {
+            return;
+        }
+
+        const verified = callback.VerificationStatus === 'success';
+        const result = await prisma.callerId.updateMany({
+            where: { phoneNumber: callback.PhoneNumber, status: CallerIdStatus.PENDING },
+            data: verified
+                ? { status: CallerIdStatus.VERIFIED, outgoingCallerIdSid: callback.OutgoingCallerIdSid || null, verifiedAt: new Date() }
+                : { status: CallerIdStatus.FAILED }
+        });
+
+        console.error(`Caller ID validation for ${callback.PhoneNumber}: ${callback.VerificationStatus} (${result.count} updated)`);
+    }
+
+    /**
+     * List the caller IDs a user may use: their own and their teams'. Pending entries are
+     * checked against Twilio in case the validation callback was missed.
+     */
+    async list(userId: string, twilioCallService: TwilioCallService): Promise<CallerId[]> {
+        const callerIds = await this.findOwned(userId);
+
+        for (const callerId of callerIds.filter(c => c.status === CallerIdStatus.PENDING)) {
+            const outgoingCallerIdSid = await twilioCallService.findOutgoingCallerId(callerId.phoneNumber)
+                .catch(() => null);
+            if (outgoingCallerIdSid) {
+                Object.assign(callerId, await prisma.callerId.update({
+                    where: { id: callerId.id },
+                    data: { status: CallerIdStatus.VERIFIED, outgoingCallerIdSid, verifiedAt: new Date() }
+                }));
+            }
+        }
+
+        return callerIds;
+    }
+
+    /**
+     * Remove a caller ID the user added, or one of a team they own
+     */
+    async remove(userId: string, id: string): Promise<boolean> {
+        const callerId = await prisma.callerId.findUnique({
+            where: { id }
+        });
+
+        if (!callerId) {
+            return false;
+        }
+        if (callerId.teamId ? !(await teamService.isOwner(userId, callerId.teamId)) : callerId.userId !== userId) {
+            return false;
+        }
+
+        await prisma.callerId.delete({ where: { id } });
+        return true;
+    }
+
+    /**
+     * Check that a user may call from a number
+     * @param defaultNumber The server's own number, which everyone may use
+     * @returns The number in E.164 format
+     * @throws Error if the number is not one of the user's verified caller IDs
+     */
+    async assertCanUse(userId: string, fromNumber: string, defaultNumber: string): Promise<string> {
+        const normalized = normalizePhoneNumber(fromNumber);
+        if (normalized && normalized === defaultNumber) {
+            return normalized;
+        }
+
+        const teamIds = await teamService.getTeamIds(userId);
+        const callerId = normalized ? await prisma.callerId.findFirst({
+            where: {
+                phoneNumber: normalized,
+                status: CallerIdStatus.VERIFIED,
+                OR: [{ userId }, { teamId: { in: teamIds } }]
+            }
+        }) : null;
+
+        if (!callerId) {
+            throw new Error(`${fromNumber} is not one of your verified caller IDs (see list-caller-ids)`);
+        }
+        return callerId.phoneNumber;
+    }
+
+    private async findOwned(userId: string): Promise<CallerId[]> {
+        const teamIds = await teamService.getTeamIds(userId);
+
+        return prisma.callerId.findMany({
+            where: { OR: [{ userId }, { teamId: { in: teamIds } }] },
+            orderBy: { createdAt: 'asc' }
+        });
+    }
+}
+
+// Singleton instance for use by the call dispatcher, voice server and MCP tools
+export const callerIdService = new CallerIdService();
@@ -0,0 +1,222 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './db.service.js';
+import { CallingWindow, OutsideHoursAction, TimeZoneSource } from '../types.js';
+import { DEFAULT_CALLING_HOURS_END, DEFAULT_CALLING_HOURS_START } from '../config/constants.js';
+import { getTimeZoneForNumber, normalizePhoneNumber } from '../utils/phone-utils.js';
+import {
+    formatInTimeZone,
+    getNextCallingWindowStart,
+    isValidTimeZone,
+    isWithinCallingWindows,
+    validateCallingWindows
+} from '../utils/time-utils.js';
+
+const DEFAULT_CALLING_WINDOWS: CallingWindow[] = [{ start: DEFAULT_CALLING_HOURS_START, end: DEFAULT_CALLING_HOURS_END }];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface CallingHours {
+    windows: CallingWindow[];
+    isDefault: boolean;
+    outsideHours: OutsideHoursAction;
+}
+
+/**
+ * Calling windows and time zone to use for one call instead of the user's defaults
+ */
+export interface CallingHoursOverrides {
+    timezone?: string;
+    windows?: CallingWindow[];
+}
+
+/**
+ * Whether a number may be called now, in the recipient's local time
+ */
+export interface CallingHoursCheck {
+    allowed: boolean;
+    timezone: string;
+    timezoneSource: TimeZoneSource;
+    localTime: string;
+    windows: CallingWindow[];
+    nextAllowedAt: Date | null;
+}
+
+/**
+ * Raised when a call would reach the recipient outside their calling hours
+ */
+export class OutsideCallingHoursError extends Error {
+    readonly check: CallingHoursCheck;
+
+    constructor(check: CallingHoursCheck) {
+        super(`${describeCallingHoursCheck(check)}. ${check.nextAllowedAt
+            ? `The next allowed time is ${formatInTimeZone(check.nextAllowedAt, check.timezone)} their time (${check.nextAllowedAt.toISOString()})`
+            : 'No calling window opens in the next week'}`);
+        this.name = 'OutsideCallingHoursError';
+        this.check = check;
+    }
+
+    /**
+     * Machine-readable description for API responses
+     */
+    toJSON(): object {
+        return {
+            error: this.message,
+            reason: 'outside_calling_hours',
+            timezone: this.check.timezone,
+            timezoneSource: this.check.timezoneSource,
+            localTime: this.check.localTime,
+            callingWindows: this.check.windows,
+            nextAllowedAt: this.check.nextAllowedAt?.toISOString() ?? null,
+            nextAllowedLocalTime: this.check.nextAllowedAt ? formatInTimeZone(this.check.nextAllowedAt, this.check.timezone) : null
+        };
+    }
+}
+
+/**
+ * Raised when a number's time zone cannot be inferred but is needed to apply calling windows
+ */
+export class UnknownTimeZoneError extends Error {
+    readonly toNumber: string;
+
+    constructor(toNumber: string) {
+        super(`Cannot infer the recipient's time zone from ${toNumber}: pass timezone`);
+        this.name = 'UnknownTimeZoneError';
+        this.toNumber = toNumber;
+    }
+
+    /**
+     * Machine-readable description for API responses
+     */
+    toJSON(): object {
+        return {
+            error: this.message,
+            reason: 'unknown_time_zone',
+            toNumber: this.toNumber
+        };
+    }
+}
+
+/**
+ * Explain why a check failed, e.g. "It is Tue 06:12 for the recipient (America/New_York, from the
+ * area code), outside the calling hours 08:00-21:00"
+ */
+export const describeCallingHoursCheck = (check: CallingHoursCheck): string => {
+    const windows = check.windows.map(window => {
+        const days = window.days ? `${window.days.map(day => WEEKDAYS[day]).join(',')} ` : '';
+        return `${days}${window.start}-${window.end}`;
+    }).join(', ');
+    const source = check.timezoneSource === TimeZoneSource.EXPLICIT ? 'as given' : `from the ${check.timezoneSource.replace('_', ' ')}`;
+
+    return `It is ${WEEKDAYS[new Date(`${check.localTime}Z`).getUTCDay()]} ${check.localTime.slice(11, 16)} for the recipient `
+        + `(${check.timezone}, ${source}), outside the calling hours ${windows}`;
+};
+
+/**
+ * Service for the hours outbound calls may reach recipients, in their local time.
+ * A call's own windows take precedence over its owner's, which take precedence
+ * over the server default of 08:00-21:00 every day.
+ */
+export class CallingHoursService {
+    /**
+     * Update a user's calling hours. Omitted values are left unchanged; null windows
+     * restore the server default and an empty list allows calls at any time.
+     */
+    async setUserCallingHours(userId: string, windows?: CallingWindow[] | null, outsideHours?: OutsideHoursAction): Promise<CallingHours> {
+        if (windows) {
+            validateCallingWindows(windows);
+        }
+
+        await prisma.user.update({
+            where: { id: userId },
+            data: {
+                callingWindows: windows === null
+                    ? Prisma.DbNull
+                    : windows as unknown as Prisma.InputJsonValue | undefined,
+                outsideHoursAction: outsideHours
+            }
+        });
+
+        return this.getUserCallingHours(userId);
+    }
+
+    /**
+     * Get a user's calling hours, falling back to the server default
+     */
+    async getUserCallingHours(userId: string): Promise<CallingHours> {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { callingWindows: true, outsideHoursAction: true }
+        });
+
+        const windows = user?.callingWindows as CallingWindow[] | null | undefined;
+
+        return {
+            windows: windows ?? DEFAULT_CALLING_WINDOWS,
+            isDefault: !windows,
+            outsideHours: (user?.outsideHoursAction as OutsideHoursAction | null) ?? OutsideHoursAction.REFUSE
+        };
+    }
+
+    /**
+     * Check whether a number may be called now in the recipient's time zone
+     * @returns The result, or null if the number is invalid (the destination policy refuses it)
+     * @throws Error if the given time zone is unknown
+     * @throws UnknownTimeZoneError if calling windows apply and the time zone cannot be inferred
+     */
+    async check(userId: string, toNumber: string, overrides: CallingHoursOverrides = {}, now = new Date()): Promise<CallingHoursCheck | null> {
+        const normalized = normalizePhoneNumber(toNumber);
+        if (!normalized) {
+            return null;
+        }
+
+        if (overrides.windows) {
+            validateCallingWindows(overrides.windows);
+        }
+        const windows = overrides.windows ?? (await this.getUserCallingHours(userId)).windows;
+
+        const zone = this.resolveTimeZone(normalized, overrides.timezone);
+        if (!zone) {
+            if (windows.length > 0) {
+                throw new UnknownTimeZoneError(normalized);
+            }
+            // Calls are allowed at any time, so the time zone does not matter
+            return {
+                allowed: true,
+                timezone: 'UTC',
+                timezoneSource: TimeZoneSource.UNKNOWN,
+                localTime: formatInTimeZone(now, 'UTC'),
+                windows,
+                nextAllowedAt: now
+            };
+        }
+
+        const allowed = windows.length === 0 || isWithinCallingWindows(now, windows, zone.timeZone);
+
+        return {
+            allowed,
+            timezone: zone.timeZone,
+            timezoneSource: zone.source,
+            localTime: formatInTimeZone(now, zone.timeZone),
+            windows,
+            nextAllowedAt: allowed ? now : getNextCallingWindowStart(now, windows, zone.timeZone)
+        };
+    }
+
+    /**
+     * Use the given time zone, or infer it from the number
+     * @param e164 The number in E.164 format
+     * @returns The time zone, or null if it cannot be inferred
+     */
+    private resolveTimeZone(e164: string, timezone?: string): { timeZone: string; source: TimeZoneSource } | null {
+        if (timezone) {
+            if (!isValidTimeZone(timezone)) {
+                throw new Error(`Unknown time zone: ${timezone}`);
+            }
+            return { timeZone: timezone, source: TimeZoneSource.EXPLICIT };
+        }
+
+        return getTimeZoneForNumber(e164);
+    }
+}
+
+// Singleton instance for use by MCP tools
+export const callingHoursService = new CallingHoursService();
@@ -0,0 +1,513 @@
+import { Call, Campaign, CampaignMember, Prisma } from '@prisma/client';
+import { prisma } from './db.service.js';
+import { CallDispatchService } from './call-dispatch.service.js';
+import { QuotaExceededError, quotaService } from './quota.service.js';
+import { CallingHoursCheck, OutsideCallingHoursError, callingHoursService } from './calling-hours.service.js';
+import { DestinationRejectedError, destinationPolicyService } from './destination-policy.service.js';
+import {
+    CallOptions,
+    CallStatus,
+    CallingWindow,
+    CampaignMemberStatus,
+    CampaignStatus,
+    DestinationRejectionReason
+} from '../types.js';
+import { fromTwilioStatus, isTerminalStatus, retryOutcomeFor } from '../utils/call-status.js';
+import { isValidTimeZone, isWithinCallingWindows, validateCallingWindows } from '../utils/time-utils.js';
+import { CAMPAIGN_CALL_SETTLE_MS, SCHEDULED_CLAIM_TIMEOUT_MS } from '../config/constants.js';
+
+const TEMPLATE_PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+const DO_NOT_CALL_ERROR = 'Skipped: the number is on the do-not-call list';
+const ACTIVE_MEMBER_STATUSES = [CampaignMemberStatus.PENDING, CampaignMemberStatus.DIALING, CampaignMemberStatus.CALLING];
+
+export interface CampaignRecipient {
+    phoneNumber: string;
+    variables?: Record<string, string>;
+}
+
+export interface CampaignInput {
+    name: string;
+    promptTemplate: string;
+    recipients: CampaignRecipient[];
+    callOptions: CallOptions;
+    maxConcurrency: number;
+    callingWindows?: CallingWindow[];
+    timezone?: string;
+}
+
+export interface CampaignSummary {
+    id: string;
+    name: string;
+    status: string;
+    timezone: string;
+    maxConcurrency: number;
+    callingWindows: CallingWindow[] | null;
+    createdAt: Date;
+    completedAt: Date | null;
+    total: number;
+    byStatus: Record<string, number>;
+    byResult: Record<string, number>;
+}
+
+export interface CampaignMemberResult {
+    phoneNumber: string;
+    variables: Record<string, string>;
+    status: string;
+    result: string | null;
+    error: string | null;
+    callSid: string | null;
+    attempts: number;
+    endReason: string | null;
+    outcome: unknown;
+}
+
+type CallWithRetries = Call & { retries: Call[] };
+type MemberWithCall = CampaignMember & { call: CallWithRetries | null };
+
+/**
+ * Fill a prompt template's {{placeholders}} from a recipient's variables
+ * @throws Error naming the first placeholder without a value
+ */
+const renderTemplate = (template: string, variables: Record<string, string>): string => {
+    return template.replace(TEMPLATE_PLACEHOLDER, (_match, name: string) => {
+        const value = variables[name];
+        if (value === undefined) {
+            throw new Error(`Missing value for template variable "${name}"`);
+        }
+        return value;
+    });
+};
+
+/**
+ * The most recent attempt of a call placed with a retry policy (or the call itself)
+ */
+const latestAttempt = (call: CallWithRetries): Call => {
+    return call.retries.reduce<Call>((latest, retry) =>
+        retry.attemptNumber > latest.attemptNumber ? retry : latest, call);
+};
+
+/**
+ * Service for campaigns: the same kind of call placed to a list of recipients,
+ * dialled in the background within a concurrency cap and calling windows
+ */
+export class CampaignService {
+    /**
+     * Validate and store a campaign; the runner starts dialling on its next tick
+     * @throws Error describing the first invalid input
+     */
+    async createCampaign(userId: string, input: CampaignInput): Promise<Campaign> {
+        const timezone = input.timezone || 'UTC';
+        if (!isValidTimeZone(timezone)) {
+            throw new Error(`Unknown time zone: ${timezone}`);
+        }
+
+        validateCallingWindows(input.callingWindows || []);
+
+        // Fail now rather than halfway through the list
+        input.recipients.forEach((recipient, index) => {
+            try {
+                renderTemplate(input.promptTemplate, { phoneNumber: recipient.phoneNumber, ...recipient.variables });
+            } catch (error: any) {
+                throw new Error(`Recipient ${index + 1} (${recipient.phoneNumber}): ${error.message}`);
+            }
+        });
+
+        // Refuse the campaign if any recipient may not be called, and store numbers in E.164.
+        // Recipients on the do-not-call list are kept but skipped.
+        const phoneNumbers: string[] = [];
+        const doNotCall = new Set<number>();
+        for (const [index, recipient] of input.recipients.entries()) {
+            try {
+                phoneNumbers.push(await destinationPolicyService.assertAllowed(userId, recipient.phoneNumber));
+            } catch (error) {
+                if (!this.isDoNotCall(error)) {
+                    throw error;
+                }
+                phoneNumbers.push((error as DestinationRejectedError).decision.normalizedNumber as string);
+                doNotCall.add(index);
+            }
+        }
+
+        const campaign = await prisma.campaign.create({
+            data: {
+                userId,
+                name: input.name,
+                promptTemplate: input.promptTemplate,
+                callOptions: input.callOptions as unknown as Prisma.InputJsonValue,
+                maxConcurrency: input.maxConcurrency,
+                callingWindows: input.callingWindows?.length
+                    ? input.callingWindows as unknown as Prisma.InputJsonValue
+                    : Prisma.DbNull,
+                timezone,
+                members: {
+                    create: input.recipients.map((recipient, index) => ({
+                        phoneNumber: phoneNumbers[index],
+                        ...(doNotCall.has(index) ? {
+                            status: CampaignMemberStatus.CANCELLED,
+                            error: DO_NOT_CALL_ERROR
+                        } : {}),
+                        variables: recipient.variables || {}
+                    }))
+                }
+            }
+        });
+
+        console.error(`Campaign ${campaign.id} created for user ${userId} with ${input.recipients.length} recipients`);
+        return campaign;
+    }
+
+    /**
+     * List a user's campaigns with their progress, newest first
+     */
+    async listCampaigns(userId: string): Promise<CampaignSummary[]> {
+        const campaigns = await prisma.campaign.findMany({
+            where: { userId },
+            orderBy: { createdAt: 'desc' },
+            include: { members: true }
+        });
+
+        return campaigns.map(campaign => this.summarize(campaign, campaign.members));
+    }
+
+    /**
+     * Get a campaign's progress (with ownership check)
+     */
+    async getSummary(userId: string, id: string): Promise<CampaignSummary | null> {
+        const campaign = await prisma.campaign.findFirst({
+            where: { id, userId },
+            include: { members: true }
+        });
+
+        return campaign ? this.summarize(campaign, campaign.members) : null;
+    }
+
+    /**
+     * Get the per-recipient results of a campaign (with ownership check)
+     */
+    async getResults(userId: string, id: string): Promise<CampaignMemberResult[] | null> {
+        const campaign = await prisma.campaign.findFirst({
+            where: { id, userId },
+            include: {
+                members: {
+                    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+                    include: {
+                        call: {
+                            include: { retries: true }
+                        }
+                    }
+                }
+            }
+        });
+
+        if (!campaign) {
+            return null;
+        }
+
+        return campaign.members.map(member => {
+            const attempt = member.call ? latestAttempt(member.call) : null;
+
+            return {
+                phoneNumber: member.phoneNumber,
+                variables: member.variables as Record<string, string>,
+                status: member.status,
+                result: member.result,
+                error: member.error,
+                callSid: attempt?.callSid ?? null,
+                attempts: member.call ? member.call.retries.length + 1 : 0,
+                endReason: attempt?.endReason ?? null,
+                outcome: attempt?.outcome ?? null
+            };
+        });
+    }
+
+    /**
+     * Stop dialling a campaign (with ownership check). Calls already in progress continue.
+     */
+    async cancelCampaign(userId: string, id: string): Promise<boolean> {
+        const result = await prisma.campaign.updateMany({
+            where: { id, userId, status: CampaignStatus.RUNNING },
+            data: { status: CampaignStatus.CANCELLED, completedAt: new Date() }
+        });
+
+        if (result.count === 0) {
+            return false;
+        }
+
+        await prisma.campaignMember.updateMany({
+            where: { campaignId: id, status: CampaignMemberStatus.PENDING },
+            data: { status: CampaignMemberStatus.CANCELLED }
+        });
+
+        return true;
+    }
+
+    /**
+     * Runner tick: record finished calls, then dial the next recipients of every running campaign
+     * @param dispatcher Places the calls
+     */
+    async processCampaigns(dispatcher: CallDispatchService): Promise<void> {
+        await this.failStaleClaims();
+        await this.settleMembers();
+
+        const campaigns = await prisma.campaign.findMany({
+            where: { status: CampaignStatus.RUNNING }
+        });
+
+        for (const campaign of campaigns) {
+            const windows = campaign.callingWindows as CallingWindow[] | null;
+            const inWindow = !windows || isWithinCallingWindows(new Date(), windows, campaign.timezone);
+
+            // Wait for the owner's quota to free up rather than failing recipients
+            if (inWindow && !(await quotaService.findViolation(campaign.userId))) {
+                const members = await this.claimMembers(campaign);
+                for (const member of members) {
+                    // The campaign's window is in its own time zone; each recipient's hours are in theirs.
+                    // Errors such as an unknown time zone fail the member when it is dialled.
+                    const hours = await callingHoursService.check(campaign.userId, member.phoneNumber).catch(() => null);
+                    if (hours && !hours.allowed) {
+                        await this.deferMember(campaign, member, hours);
+                        continue;
+                    }
+                    await this.dialMember(campaign, member, dispatcher);
+                }
+            }
+
+            await this.completeIfDone(campaign);
+        }
+    }
+
+    /**
+     * Claim as many pending members as the concurrency cap allows. The campaign row is
+     * locked while counting so concurrent replicas cannot exceed the cap together.
+     */
+    private async claimMembers(campaign: Campaign): Promise<CampaignMember[]> {
+        return prisma.$transaction(async tx => {
+            const locked = await tx.$queryRaw<{ id: string }[]>`
+                SELECT "id" FROM "campaigns"
+                WHERE "id" = ${campaign.id} AND "status" = ${CampaignStatus.RUNNING}
+                FOR UPDATE SKIP LOCKED
+            `;
+            if (locked.length === 0) {
+                return [];
+            }
+
+            const active = await tx.campaignMember.count({
+                where: {
+                    campaignId: campaign.id,
+                    status: { in: [CampaignMemberStatus.DIALING, CampaignMemberStatus.CALLING] }
+                }
+            });
+
+            const slots = campaign.maxConcurrency - active;
+            if (slots <= 0) {
+                return [];
+            }
+
+            const members = await tx.campaignMember.findMany({
+                where: {
+                    campaignId: campaign.id,
+                    status: CampaignMemberStatus.PENDING,
+                    OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: new Date() } }]
+                },
+                orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+                take: slots
+            });
+
+            await tx.campaignMember.updateMany({
+                where: { id: { in: members.map(m => m.id) } },
+                data: { status: CampaignMemberStatus.DIALING, claimedAt: new Date() }
+            });
+
+            return members;
+        });
+    }
+
+    /**
+     * Put a claimed member back until their calling hours start, or fail them if no
+     * calling window opens soon
+     */
+    private async deferMember(campaign: Campaign, member: CampaignMember, hours: CallingHoursCheck): Promise<void> {
+        if (!hours.nextAllowedAt) {
+            await prisma.campaignMember.update({
+                where: { id: member.id },
+                data: { status: CampaignMemberStatus.FAILED, result: CallStatus.FAILED, error: new OutsideCallingHoursError(hours).message }
+            });
+            return;
+        }
+
+        await prisma.campaignMember.update({
+            where: { id: member.id },
+            data: { status: CampaignMemberStatus.PENDING, claimedAt: null, nextAttemptAt: hours.nextAllowedAt }
+        });
+        console.error(`Campaign ${campaign.id}: ${member.phoneNumber} is outside their calling hours, deferred to ${hours.nextAllowedAt.toISOString()}`);
+    }
+
+    /**
+     * Place the call to a claimed member
+     */
+    private async dialMember(campaign: Campaign, member: CampaignMember, dispatcher: CallDispatchService): Promise<void> {
+        try {
+            const variables = member.variables as Record<string, string>;
+            const callContext = renderTemplate(campaign.promptTemplate, { phoneNumber: member.phoneNumber, ...variables });
+
+            const { call } = await dispatcher.dial(campaign.userId, {
+                ...(campaign.callOptions as CallOptions),
+                toNumber: member.phoneNumber,
+                callContext
+            });
+
+            await prisma.campaignMember.update({
+                where: { id: member.id },
+                data: { status: CampaignMemberStatus.CALLING, callId: call.id }
+            });
+
+            console.error(`Campaign ${campaign.id}: called ${member.phoneNumber} (${call.callSid})`);
+        } catch (error: any) {
+            // The quota can run out partway through a batch; wait for it like the runner does
+            if (error instanceof QuotaExceededError) {
+                await prisma.campaignMember.update({
+                    where: { id: member.id },
+                    data: { status: CampaignMemberStatus.PENDING, claimedAt: null, nextAttemptAt: error.violation.resetsAt }
+                });
+                console.error(`Campaign ${campaign.id}: ${member.phoneNumber} waits for the quota: ${error.message}`);
+                return;
+            }
+
+            console.error(`Campaign ${campaign.id}: failed to call ${member.phoneNumber}:`, error.message);
+            await prisma.campaignMember.update({
+                where: { id: member.id },
+                data: this.isDoNotCall(error)
+                    ? { status: CampaignMemberStatus.CANCELLED, error: DO_NOT_CALL_ERROR }
+                    : { status: CampaignMemberStatus.FAILED, result: CallStatus.FAILED, error: error.message }
+            });
+        }
+    }
+
+    private isDoNotCall(error: unknown): boolean {
+        return error instanceof DestinationRejectedError
+            && error.decision.reason === DestinationRejectionReason.DO_NOT_CALL;
+    }
+
+    /**
+     * Mark members whose call (including any retries) has finished with its result
+     */
+    private async settleMembers(): Promise<void> {
+        const members = await prisma.campaignMember.findMany({
+            where: { status: CampaignMemberStatus.CALLING },
+            include: {
+                call: {
+                    include: { retries: true }
+                }
+            }
+        });
+
+        for (const member of members) {
+            const result = this.finishedResult(member);
+            if (result) {
+                await prisma.campaignMember.update({
+                    where: { id: member.id },
+                    data: { status: CampaignMemberStatus.COMPLETED, result }
+                });
+            }
+        }
+    }
+
+    /**
+     * The result of a member's call, or null while it (or a retry of it) is still going
+     */
+    private finishedResult(member: MemberWithCall): string | null {
+        if (!member.call) {
+            return CallStatus.FAILED;
+        }
+
+        if (member.call.nextRetryAt) {
+            return null;
+        }
+
+        const attempt = latestAttempt(member.call);
+        if (!isTerminalStatus(attempt.status)) {
+            return null;
+        }
+
+        // Wait for Twilio's final status, which is when retries are decided
+        const twilioStatus = attempt.twilioStatus ? fromTwilioStatus(attempt.twilioStatus) : null;
+        const settled = (twilioStatus && isTerminalStatus(twilioStatus)) ||
+            (attempt.endedAt && Date.now() - attempt.endedAt.getTime() > CAMPAIGN_CALL_SETTLE_MS);
+        if (!settled) {
+            return null;
+        }
+
+        if (attempt.status === CallStatus.CANCELLED) {
+            return CallStatus.CANCELLED;
+        }
+
+        return retryOutcomeFor(attempt.status, attempt.endReason, attempt.answeredBy) ?? 'answered';
+    }
+
+    /**
+     * Members left in 'dialing' by a replica that stopped mid-dial may or may not have
+     * been called, so fail them rather than risk calling someone twice
+     */
+    private async failStaleClaims(): Promise<void> {
+        await prisma.campaignMember.updateMany({
+            where: {
+                status: CampaignMemberStatus.DIALING,
+                claimedAt: { lt: new Date(Date.now() - SCHEDULED_CLAIM_TIMEOUT_MS) }
+            },
+            data: {
+                status: CampaignMemberStatus.FAILED,
+                result: CallStatus.FAILED,
+                error: 'Campaign runner stopped while dialing; the call may not have been placed'
+            }
+        });
+    }
+
+    /**
+     * Mark a campaign completed once no recipient is left to call
+     */
+    private async completeIfDone(campaign: Campaign): Promise<void> {
+        const remaining = await prisma.campaignMember.count({
+            where: { campaignId: campaign.id, status: { in: ACTIVE_MEMBER_STATUSES } }
+        });
+
+        if (remaining === 0) {
+            await prisma.campaign.updateMany({
+                where: { id: campaign.id, status: CampaignStatus.RUNNING },
+                data: { status: CampaignStatus.COMPLETED, completedAt: new Date() }
+            });
+            console.error(`Campaign ${campaign.id} completed`);
+        }
+    }
+
+    /**
+     * Count a campaign's members by status and result
+     */
+    private summarize(campaign: Campaign, members: CampaignMember[]): CampaignSummary {
+        const byStatus: Record<string, number> = {};
+        const byResult: Record<string, number> = {};
+
+        for (const member of members) {
+            byStatus[member.status] = (byStatus[member.status] || 0) + 1;
+            if (member.result) {
+                byResult[member.result] = (byResult[member.result] || 0) + 1;
+            }
+        }
+
+        return {
+            id: campaign.id,
+            name: campaign.name,
+            status: campaign.status,
+            timezone: campaign.timezone,
+            maxConcurrency: campaign.maxConcurrency,
+            callingWindows: campaign.callingWindows as CallingWindow[] | null,
+            createdAt: campaign.createdAt,
+            completedAt: campaign.completedAt,
+            total: members.length,
+            byStatus,
+            byResult
+        };
+    }
+}
+
+// Singleton instance for use by the web server and campaign runner
+export const campaignService = new CampaignService();
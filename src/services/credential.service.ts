@@ -0,0 +1,256 @@
+import { createHash } from 'crypto';
+import twilio from 'twilio';
+import OpenAI from 'openai';
+import { TenantCredential } from '@prisma/client';
+import { prisma } from './db.service.js';
+import { teamService } from './team.service.js';
+import { decryptSecret, encryptSecret, maskSecret } from '../utils/crypto-utils.js';
+import { normalizePhoneNumber } from '../utils/phone-utils.js';
+
+const ACCOUNT_SID = /^AC[0-9a-f]{32}$/i;
+
+export interface TwilioCredentials {
+    accountSid: string;
+    authToken: string;
+    fromNumber: string;
+}
+
+/**
+ * Credentials to store. Omitted values are left unchanged; null removes them.
+ */
+export interface CredentialsInput {
+    twilio?: TwilioCredentials | null;
+    openaiApiKey?: string | null;
+}
+
+export type CredentialSource = 'user' | 'team' | 'server';
+
+/**
+ * Which accounts a user's calls use, without the secrets
+ */
+export interface CredentialsSummary {
+    twilio: {
+        source: CredentialSource;
+        accountSid: string | null;
+        fromNumber: string | null;
+        authToken: string | null;
+    };
+    openai: {
+        source: CredentialSource;
+        apiKey: string | null;
+    };
+}
+
+/**
+ * Service for the Twilio and OpenAI accounts calls are placed with. A user's own
+ * credentials take precedence over those of their teams (in the order they joined),
+ * which take precedence over the server's. Twilio and OpenAI are resolved separately.
+ */
+export class CredentialService {
+    private readonly twilioClients = new Map<string, twilio.Twilio>();
+
+    /**
+     * Store credentials for a user, or for a team the user owns, after checking them
+     * against Twilio and OpenAI
+     * @throws Error if the credentials are rejected or the number is not on the Twilio account
+     */
+    async setCredentials(userId: string, input: CredentialsInput, teamId?: string): Promise<CredentialsSummary> {
+        if (teamId) {
+            await teamService.assertOwner(userId, teamId);
+        }
+
+        const data: Partial<Pick<TenantCredential, 'twilioAccountSid' | 'twilioAuthToken' | 'twilioNumber' | 'openaiApiKey'>> = {};
+
+        if (input.twilio === null) {
+            Object.assign(data, { twilioAccountSid: null, twilioAuthToken: null, twilioNumber: null });
+        } else if (input.twilio) {
+            const fromNumber = await this.checkTwilio(input.twilio);
+            Object.assign(data, {
+                twilioAccountSid: input.twilio.accountSid,
+                twilioAuthToken: encryptSecret(input.twilio.authToken),
+                twilioNumber: fromNumber
+            });
+        }
+
+        if (input.openaiApiKey === null) {
+            data.openaiApiKey = null;
+        } else if (input.openaiApiKey) {
+            await this.checkOpenAI(input.openaiApiKey);
+            data.openaiApiKey = encryptSecret(input.openaiApiKey);
+        }
+
+        const owner = teamId ? { teamId } : { userId };
+        const existing = await prisma.tenantCredential.findFirst({ where: owner });
+        if (existing) {
+            await prisma.tenantCredential.update({ where: { id: existing.id }, data });
+        } else {
+            await prisma.tenantCredential.create({ data: { ...owner, ...data } });
+        }
+
+        console.error(`Credentials updated for ${teamId ? `team ${teamId}` : `user ${userId}`}`);
+        return this.getSummary(userId);
+    }
+
+    /**
+     * Remove the credentials of a user, or of a team the user owns
+     */
+    async removeCredentials(userId: string, teamId?: string): Promise<boolean> {
+        if (teamId) {
+            await teamService.assertOwner(userId, teamId);
+        }
+
+        const result = await prisma.tenantCredential.deleteMany({
+            where: teamId ? { teamId } : { userId }
+        });
+
+        return result.count > 0;
+    }
+
+    /**
+     * Describe which accounts a user's calls use
+     */
+    async getSummary(userId: string): Promise<CredentialsSummary> {
+        const candidates = await this.findForUser(userId);
+        const twilioOwner = candidates.find(c => c.twilioAccountSid && c.twilioAuthToken && c.twilioNumber);
+        const openaiOwner = candidates.find(c => c.openaiApiKey);
+
+        return {
+            twilio: twilioOwner ? {
+                source: twilioOwner.userId ? 'user' : 'team',
+                accountSid: twilioOwner.twilioAccountSid,
+                fromNumber: twilioOwner.twilioNumber,
+                authToken: maskSecret(decryptSecret(twilioOwner.twilioAuthToken as string))
+            } : {
+                source: 'server',
+                accountSid: null,
+                fromNumber: process.env.TWILIO_NUMBER || null,
+                authToken: null
+            },
+            openai: openaiOwner ? {
+                source: openaiOwner.userId ? 'user' : 'team',
+                apiKey: maskSecret(decryptSecret(openaiOwner.openaiApiKey as string))
+            } : {
+                source: 'server',
+                apiKey: null
+            }
+        };
+    }
+
+    /**
+     * Get the Twilio account a user's calls are placed with
+     * @returns The credentials, or null to use the server's account
+     */
+    async resolveTwilio(userId: string): Promise<TwilioCredentials | null> {
+        const candidates = await this.findForUser(userId);
+        const owner = candidates.find(c => c.twilioAccountSid && c.twilioAuthToken && c.twilioNumber);
+        if (!owner) {
+            return null;
+        }
+
+        return {
+            accountSid: owner.twilioAccountSid as string,
+            authToken: decryptSecret(owner.twilioAuthToken as string),
+            fromNumber: owner.twilioNumber as string
+        };
+    }
+
+    /**
+     * Get the OpenAI API key a user's calls use, falling back to the server's
+     */
+    async resolveOpenAIKey(userId: string): Promise<string> {
+        const candidates = await this.findForUser(userId);
+        const owner = candidates.find(c => c.openaiApiKey);
+
+        return owner ? decryptSecret(owner.openaiApiKey as string) : process.env.OPENAI_API_KEY || '';
+    }
+
+    /**
+     * Get the auth token of a Twilio account calls are placed with, to check its webhook signatures
+     * @returns The auth token, or null if the account is unknown
+     */
+    async getTwilioAuthToken(accountSid?: string): Promise<string | null> {
+        if (!accountSid || accountSid === process.env.TWILIO_ACCOUNT_SID) {
+            return process.env.TWILIO_AUTH_TOKEN || null;
+        }
+
+        const credential = await prisma.tenantCredential.findFirst({
+            where: { twilioAccountSid: accountSid, twilioAuthToken: { not: null } }
+        });
+
+        return credential ? decryptSecret(credential.twilioAuthToken as string) : null;
+    }
+
+    /**
+     * Get a Twilio client for an account, reused while its credentials are unchanged
+     */
+    getTwilioClient(credentials: TwilioCredentials): twilio.Twilio {
+        const key = createHash('sha256').update(`${credentials.accountSid}:${credentials.authToken}`).digest('hex');
+
+        let client = this.twilioClients.get(key);
+        if (!client) {
+            client = twilio(credentials.accountSid, credentials.authToken);
+            this.twilioClients.set(key, client);
+        }
+        return client;
+    }
+
+    /**
+     * Check Twilio credentials and that the number belongs to the account
+     * @returns The number in E.164 format
+     */
+    private async checkTwilio(credentials: TwilioCredentials): Promise<string> {
+        if (!ACCOUNT_SID.test(credentials.accountSid)) {
+            throw new Error('Invalid Twilio account SID: it starts with AC followed by 32 hexadecimal characters');
+        }
+
+        const fromNumber = normalizePhoneNumber(credentials.fromNumber);
+        if (!fromNumber) {
+            throw new Error(`Invalid phone number "${credentials.fromNumber}": use E.164 format (e.g. +14155550123)`);
+        }
+
+        const client = twilio(credentials.accountSid, credentials.authToken);
+        try {
+            await client.api.v2010.accounts(credentials.accountSid).fetch();
+        } catch (error: any) {
+            throw new Error(`Twilio rejected the credentials: ${error.message}`);
+        }
+
+        const numbers = await client.incomingPhoneNumbers.list({ phoneNumber: fromNumber, limit: 1 });
+        if (numbers.length === 0) {
+            throw new Error(`${fromNumber} is not a phone number on Twilio account ${credentials.accountSid}`);
+        }
+
+        return fromNumber;
+    }
+
+    private async checkOpenAI(apiKey: string): Promise<void> {
+        try {
+            await new OpenAI({ apiKey }).models.list();
+        } catch (error: any) {
+            throw new Error(`OpenAI rejected the API key: ${error.message}`);
+        }
+    }
+
+    /**
+     * The credentials that may apply to a user: their own first, then their teams'
+     */
+    private async findForUser(userId: string): Promise<TenantCredential[]> {
+        const [own, memberships] = await Promise.all([
+            prisma.tenantCredential.findUnique({ where: { userId } }),
+            prisma.teamMember.findMany({
+                where: { userId },
+                include: { team: { include: { credentials: true } } },
+                orderBy: { createdAt: 'asc' }
+            })
+        ]);
+
+        const teamCredentials = memberships
+            .map(m => m.team.credentials)
+            .filter((c): c is TenantCredential => c !== null);
+
+        return own ? [own, ...teamCredentials] : teamCredentials;
+    }
+}
+
+// Singleton instance for use by call services, the voice server and MCP tools
+export const credentialService = new CredentialService();
@@ -0,0 +1,282 @@
+import { DestinationRejection, DestinationRule } from '@prisma/client';
+import { prisma } from './db.service.js';
+import { doNotCallService } from './do-not-call.service.js';
+import { DestinationRejectionReason, DestinationRuleAction } from '../types.js';
+import { EMERGENCY_NUMBERS, PREMIUM_RATE_PREFIXES } from '../config/phone-numbers.js';
+import { getCountryForNumber, getNationalNumber, normalizePhoneNumber, stripPhoneFormatting } from '../utils/phone-utils.js';
+
+const RULE_PATTERN = /^\+\d{1,15}\*?$/;
+const SHORT_CODE = /^\d{3,6}$/;
+const COUNTRY_CODE = /^[A-Z]{2}$/;
+
+/**
+ * Result of checking a number against the destination policy
+ */
+export interface DestinationDecision {
+    allowed: boolean;
+    normalizedNumber: string | null;
+    country: string | null;
+    reason?: DestinationRejectionReason;
+    detail?: string;
+}
+
+export interface DestinationRules {
+    allowedCountries: string[];
+    globalAllowedCountries: string[];
+    rules: DestinationRule[];
+}
+
+/**
+ * Raised when the destination policy refuses to call a number
+ */
+export class DestinationRejectedError extends Error {
+    readonly toNumber: string;
+    readonly decision: DestinationDecision;
+
+    constructor(toNumber: string, decision: DestinationDecision) {
+        super(`Cannot call ${toNumber}: ${decision.detail}`);
+        this.name = 'DestinationRejectedError';
+        this.toNumber = toNumber;
+        this.decision = decision;
+    }
+
+    /**
+     * Machine-readable description for API responses
+     */
+    toJSON(): object {
+        return {
+            error: this.message,
+            reason: this.decision.reason,
+            toNumber: this.toNumber,
+            normalizedNumber: this.decision.normalizedNumber,
+            country: this.decision.country
+        };
+    }
+}
+
+/**
+ * Service deciding which numbers may be called. Emergency, short-code and premium-rate
+ * numbers are always refused; deny lists win over allow lists, and a non-empty allow
+ * list or country list restricts calls to the numbers it covers. Numbers on the user's
+ * do-not-call list are refused last.
+ */
+export class DestinationPolicyService {
+    /**
+     * Check that a user may call a number, recording a refusal in the audit trail
+     * @returns The number in E.164 format
+     * @throws DestinationRejectedError if the number may not be called
+     */
+    async assertAllowed(userId: string, toNumber: string): Promise<string> {
+        const decision = await this.evaluate(userId, toNumber);
+        if (decision.allowed && decision.normalizedNumber) {
+            return decision.normalizedNumber;
+        }
+
+        console.error(`Destination ${toNumber} refused for user ${userId}: ${decision.reason}`);
+        await prisma.destinationRejection.create({
+            data: {
+                userId,
+                toNumber,
+                normalizedNumber: decision.normalizedNumber,
+                reason: decision.reason as string,
+                detail: decision.detail
+            }
+        }).catch(err => console.error('Failed to record destination rejection:', err));
+
+        throw new DestinationRejectedError(toNumber, decision);
+    }
+
+    /**
+     * Decide whether a user may call a number
+     */
+    async evaluate(userId: string, toNumber: string): Promise<DestinationDecision> {
+        const stripped = stripPhoneFormatting(toNumber);
+        const normalizedNumber = normalizePhoneNumber(toNumber);
+        const country = normalizedNumber ? getCountryForNumber(normalizedNumber) : null;
+        const reject = (reason: DestinationRejectionReason, detail: string): DestinationDecision =>
+            ({ allowed: false, normalizedNumber, country, reason, detail });
+
+        if (this.isEmergencyNumber(stripped, normalizedNumber)) {
+            return reject(DestinationRejectionReason.EMERGENCY_NUMBER, 'emergency numbers cannot be called');
+        }
+
+        if (SHORT_CODE.test(stripped)) {
+            return reject(DestinationRejectionReason.SHORT_CODE, 'short codes cannot be called');
+        }
+
+        if (!normalizedNumber) {
+            return reject(DestinationRejectionReason.INVALID_NUMBER, 'not a valid phone number in E.164 format (e.g. +14155550123)');
+        }
+
+        const premiumPrefix = PREMIUM_RATE_PREFIXES.find(prefix => normalizedNumber.startsWith(prefix));
+        if (premiumPrefix) {
+            return reject(DestinationRejectionReason.PREMIUM_RATE, `premium-rate numbers (${premiumPrefix}...) cannot be called`);
+        }
+
+        const [rules, user] = await Promise.all([
+            prisma.destinationRule.findMany({
+                where: { OR: [{ userId: null }, { userId }] }
+            }),
+            prisma.user.findUnique({
+                where: { id: userId },
+                select: { allowedCountries: true }
+            })
+        ]);
+        const globalRules = rules.filter(r => r.userId === null);
+        const userRules = rules.filter(r => r.userId !== null);
+
+        const globalDeny = this.findMatch(globalRules, DestinationRuleAction.DENY, normalizedNumber);
+        if (globalDeny) {
+            return reject(DestinationRejectionReason.GLOBAL_DENYLIST, `blocked by the server deny list (${globalDeny.pattern})`);
+        }
+
+        const userDeny = this.findMatch(userRules, DestinationRuleAction.DENY, normalizedNumber);
+        if (userDeny) {
+            return reject(DestinationRejectionReason.USER_DENYLIST, `blocked by your deny list (${userDeny.pattern})`);
+        }
+
+        if (this.isRestrictedBy(globalRules, normalizedNumber)) {
+            return reject(DestinationRejectionReason.NOT_IN_GLOBAL_ALLOWLIST, 'not on the server allow list');
+        }
+
+        if (this.isRestrictedBy(userRules, normalizedNumber)) {
+            return reject(DestinationRejectionReason.NOT_IN_USER_ALLOWLIST, 'not on your allow list');
+        }
+
+        const globalCountries = this.getGlobalAllowedCountries();
+        if (globalCountries.length > 0 && (!country || !globalCountries.includes(country))) {
+            return reject(DestinationRejectionReason.COUNTRY_NOT_ALLOWED, `calls to ${country ?? 'this country'} are not allowed on this server`);
+        }
+
+        const userCountries = user?.allowedCountries ?? [];
+        if (userCountries.length > 0 && (!country || !userCountries.includes(country))) {
+            return reject(DestinationRejectionReason.COUNTRY_NOT_ALLOWED, `calls to ${country ?? 'this country'} are not in your allowed countries`);
+        }
+
+        if (await doNotCallService.isListed(userId, normalizedNumber)) {
+            return reject(DestinationRejectionReason.DO_NOT_CALL, 'the number is on your do-not-call list');
+        }
+
+        return { allowed: true, normalizedNumber, country };
+    }
+
+    /**
+     * Add an allow or deny rule for a user, or for everyone when userId is null
+     */
+    async addRule(userId: string | null, action: DestinationRuleAction, pattern: string, note?: string): Promise<DestinationRule> {
+        const normalizedPattern = stripPhoneFormatting(pattern);
+        if (!RULE_PATTERN.test(normalizedPattern)) {
+            throw new Error('Invalid pattern: use an E.164 number (+14155550123) or a prefix ending in * (+1415*)');
+        }
+
+        return prisma.destinationRule.create({
+            data: { userId, action, pattern: normalizedPattern, note: note || null }
+        });
+    }
+
+    /**
+     * Remove a rule. Global rules can only be removed when allowGlobal is set.
+     */
+    async removeRule(userId: string, id: string, allowGlobal: boolean): Promise<boolean> {
+        const result = await prisma.destinationRule.deleteMany({
+            where: {
+                id,
+                OR: allowGlobal ? [{ userId }, { userId: null }] : [{ userId }]
+            }
+        });
+
+        return result.count > 0;
+    }
+
+    /**
+     * List the rules and country restrictions that apply to a user
+     */
+    async listRules(userId: string): Promise<DestinationRules> {
+        const [rules, user] = await Promise.all([
+            prisma.destinationRule.findMany({
+                where: { OR: [{ userId: null }, { userId }] },
+                orderBy: { createdAt: 'asc' }
+            }),
+            prisma.user.findUnique({
+                where: { id: userId },
+                select: { allowedCountries: true }
+            })
+        ]);
+
+        return {
+            allowedCountries: user?.allowedCountries ?? [],
+            globalAllowedCountries: this.getGlobalAllowedCountries(),
+            rules
+        };
+    }
+
+    /**
+     * Restrict a user's calls to some countries (an empty list allows any country)
+     */
+    async setAllowedCountries(userId: string, countries: string[]): Promise<string[]> {
+        const codes = countries.map(c => c.trim().toUpperCase());
+        const invalid = codes.filter(c => !COUNTRY_CODE.test(c));
+        if (invalid.length > 0) {
+            throw new Error(`Invalid country codes: ${invalid.join(', ')} (use ISO 3166-1 alpha-2, e.g. US)`);
+        }
+
+        const user = await prisma.user.update({
+            where: { id: userId },
+            data: { allowedCountries: [...new Set(codes)] }
+        });
+
+        return user.allowedCountries;
+    }
+
+    /**
+     * Get the most recent refusals, for one user or for everyone
+     */
+    async getRejections(userId: string | null, limit: number): Promise<DestinationRejection[]> {
+        return prisma.destinationRejection.findMany({
+            where: userId ? { userId } : {},
+            orderBy: { createdAt: 'desc' },
+            take: limit
+        });
+    }
+
+    private isEmergencyNumber(stripped: string, normalizedNumber: string | null): boolean {
+        if (EMERGENCY_NUMBERS.includes(stripped.replace(/^\+/, ''))) {
+            return true;
+        }
+
+        if (!normalizedNumber) {
+            // e.g. +44999 or +1911, which are too short to be valid numbers
+            return stripped.startsWith('+') && EMERGENCY_NUMBERS.includes(getNationalNumber(stripped));
+        }
+
+        // North American numbers can't have 911 as their area code, but catch +1 911 ... anyway
+        return normalizedNumber.startsWith('+1911') || EMERGENCY_NUMBERS.includes(getNationalNumber(normalizedNumber));
+    }
+
+    /**
+     * Whether a list has allow rules and none of them covers the number
+     */
+    private isRestrictedBy(rules: DestinationRule[], number: string): boolean {
+        const hasAllowList = rules.some(r => r.action === DestinationRuleAction.ALLOW);
+        return hasAllowList && !this.findMatch(rules, DestinationRuleAction.ALLOW, number);
+    }
+
+    private findMatch(rules: DestinationRule[], action: DestinationRuleAction, number: string): DestinationRule | undefined {
+        return rules.find(rule => rule.action === action && (rule.pattern.endsWith('*')
+            ? number.startsWith(rule.pattern.slice(0, -1))
+            : number === rule.pattern));
+    }
+
+    /**
+     * Countries every user is limited to, from ALLOWED_DESTINATION_COUNTRIES (empty allows any)
+     */
+    private getGlobalAllowedCountries(): string[] {
+        return (process.env.ALLOWED_DESTINATION_COUNTRIES || '')
+            .split(',')
+            .map(c => c.trim().toUpperCase())
+            .filter(Boolean);
+    }
+}
+
+// Singleton instance for use by the call dispatcher and MCP tools
+export const destinationPolicyService = new DestinationPolicyService();
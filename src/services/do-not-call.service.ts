@@ -0,0 +1,93 @@
+import { DoNotCall } from '@prisma/client';
+import { prisma } from './db.service.js';
+import { normalizePhoneNumber } from '../utils/phone-utils.js';
+
+export type DoNotCallSource = 'manual' | 'opt_out';
+
+/**
+ * Service for the per-user do-not-call list, checked before every outbound call
+ */
+export class DoNotCallService {
+    /**
+     * Add a number to a user's do-not-call list (no-op if it is already listed)
+     */
+    async add(userId: string, phoneNumber: string, source: DoNotCallSource, note?: string, callSid?: string): Promise<DoNotCall> {
+        const normalized = this.normalize(phoneNumber);
+
+        return prisma.doNotCall.upsert({
+            where: { userId_phoneNumber: { userId, phoneNumber: normalized } },
+            create: {
+                userId,
+                phoneNumber: normalized,
+                source,
+                note: note || null,
+                callSid: callSid || null
+            },
+            update: {}
+        });
+    }
+
+    /**
+     * Add the other party of a call to its owner's list after they asked not to be called again
+     * @param callSid The call in which they opted out
+     * @param statement What they said
+     */
+    async addOptOut(callSid: string, statement?: string): Promise<DoNotCall | null> {
+        const call = await prisma.call.findUnique({
+            where: { callSid }
+        });
+
+        if (!call) {
+            console.error(`Cannot record opt-out: call ${callSid} not found`);
+            return null;
+        }
+
+        const phoneNumber = call.direction === 'inbound' ? call.fromNumber : call.toNumber;
+        console.error(`${phoneNumber} opted out of calls from user ${call.userId} on call ${callSid}`);
+
+        return this.add(call.userId, phoneNumber, 'opt_out', statement, callSid);
+    }
+
+    /**
+     * Remove a number from a user's list
+     */
+    async remove(userId: string, phoneNumber: string): Promise<boolean> {
+        const result = await prisma.doNotCall.deleteMany({
+            where: { userId, phoneNumber: this.normalize(phoneNumber) }
+        });
+
+        return result.count > 0;
+    }
+
+    /**
+     * List a user's do-not-call entries, newest first
+     */
+    async list(userId: string): Promise<DoNotCall[]> {
+        return prisma.doNotCall.findMany({
+            where: { userId },
+            orderBy: { createdAt: 'desc' }
+        });
+    }
+
+    /**
+     * Check whether a user must not call an E.164 number
+     */
+    async isListed(userId: string, phoneNumber: string): Promise<boolean> {
+        const entry = await prisma.doNotCall.findUnique({
+            where: { userId_phoneNumber: { userId, phoneNumber } }
+        });
+
+        return entry !== null;
+    }
+
+    private normalize(phoneNumber: string): string {
+        const normalized = normalizePhoneNumber(phoneNumber);
+        if (!normalized) {
+            throw new Error(`Invalid phone number "${phoneNumber}": use E.164 format (e.g. +14155550123)`);
+        }
+        return normalized;
+    }
+}
+
+// Singleton instance for use by the destination policy, call handlers and MCP tools
+export const doNotCallService = new DoNotCallService();
@@ -0,0 +1,310 @@
+import { Ajv } from 'ajv';
+import { LookupAddress, lookup as lookupCallback } from 'dns';
+import { lookup } from 'dns/promises';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { BlockList, LookupFunction, isIPv4 } from 'net';
+import { Call, FunctionInvocation, FunctionTool, Prisma } from '@prisma/client';
+import { prisma } from './db.service.js';
+import { callPersistenceService } from './call-persistence.service.js';
+import { FunctionToolDefinition } from '../types.js';
+import { RESERVED_TOOL_NAMES } from '../config/tools.js';
+import { MAX_FUNCTION_OUTPUT_CHARS, MAX_FUNCTION_TIMEOUT_MS } from '../config/constants.js';
+
+const TOOL_NAME = /^[a-zA-Z0-9_-]{1,64}$/;
+
+// Loopback, private, link-local and other non-public ranges tool endpoints may not reach
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+    PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+    PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Check whether an address is outside the public internet. IPv4-mapped IPv6 addresses
+ * (e.g. ::ffff:127.0.0.1) are checked against the IPv4 ranges.
+ */
+function isPrivateAddress(address: string): boolean {
+    return PRIVATE_ADDRESSES.check(address, isIPv4(address) ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * DNS lookup for tool requests that refuses non-public addresses. The request connects to
+ * the address checked here, so a host cannot pass the check and then resolve elsewhere.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+    lookupCallback(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+        if (error) {
+            callback(error, '');
+        } else if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+            callback(new Error(`${hostname} is not a public address`), '');
+        } else if (options.all) {
+            callback(null, addresses);
+        } else {
+            callback(null, addresses[0].address, addresses[0].family);
+        }
+    });
+};
+
+/**
+ * POST JSON to a tool's endpoint over a connection to a public address. Redirects are
+ * not followed.
+ * @returns The HTTP status and the response body
+ */
+const postToEndpoint = (
+    endpoint: string,
+    headers: Record<string, string>,
+    body: string,
+    timeoutMs: number
+): Promise<{ status: number; body: string }> => {
+    const url = new URL(endpoint);
+    const request = url.protocol === 'https:' ? httpsRequest : httpRequest;
+
+    return new Promise((resolve, reject) => {
+        const req = request(url, {
+            method: 'POST',
+            headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+            lookup: publicLookup,
+            signal: AbortSignal.timeout(timeoutMs)
+        }, (res) => {
+            const chunks: Buffer[] = [];
+            res.on('data', (chunk: Buffer) => chunks.push(chunk));
+            res.on('end', () => resolve({ status: res.statusCode ?? 0, body: Buffer.concat(chunks).toString('utf8') }));
+            res.on('error', reject);
+        });
+        req.on('error', reject);
+        req.end(body);
+    });
+};
+
+export type FunctionInvocationStatus = 'success' | 'error' | 'timeout';
+
+export interface FunctionInvocationResult {
+    status: FunctionInvocationStatus;
+    output: string;
+}
+
+/**
+ * Service for user-defined HTTP function tools: storing them, resolving the tools
+ * of a call and running the agent's calls to them
+ */
+export class FunctionToolService {
+    private readonly ajv = new Ajv({ strict: false });
+
+    /**
+     * Check that a tool definition is usable
+     * @throws Error describing why the tool was rejected
+     */
+    async validateTool(tool: FunctionToolDefinition): Promise<void> {
+        if (!TOOL_NAME.test(tool.name)) {
+            throw new Error(`Invalid tool name "${tool.name}": use up to 64 letters, digits, _ or -`);
+        }
+
+        if (RESERVED_TOOL_NAMES.includes(tool.name)) {
+            throw new Error(`Tool name "${tool.name}" is reserved`);
+        }
+
+        if (!this.ajv.validateSchema(tool.parameters)) {
+            throw new Error(`Invalid parameters schema for tool "${tool.name}": ${this.ajv.errorsText(this.ajv.errors)}`);
+        }
+
+        if (tool.parameters.type !== 'object') {
+            throw new Error(`Invalid parameters schema for tool "${tool.name}": the top-level type must be "object"`);
+        }
+
+        let url: URL;
+        try {
+            url = new URL(tool.endpoint);
+        } catch {
+            throw new Error(`Invalid endpoint for tool "${tool.name}": ${tool.endpoint}`);
+        }
+        if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+            throw new Error(`Invalid endpoint for tool "${tool.name}": only http and https URLs are supported`);
+        }
+        await this.assertPublicEndpoint(tool);
+
+        if (tool.timeoutMs <= 0 || tool.timeoutMs > MAX_FUNCTION_TIMEOUT_MS) {
+            throw new Error(`Invalid timeout for tool "${tool.name}": must be between 1 and ${MAX_FUNCTION_TIMEOUT_MS} ms`);
+        }
+    }
+
+    /**
+     * Check that a tool's endpoint resolves only to public addresses, so tools cannot reach
+     * the server's own network. Run again before every invocation, as DNS can change.
+     * @throws Error if the host cannot be resolved or any of its addresses is not public
+     */
+    private async assertPublicEndpoint(tool: FunctionToolDefinition): Promise<void> {
+        // IPv6 literals keep their brackets in URL.hostname
+        const hostname = new URL(tool.endpoint).hostname.replace(/^\[|\]$/g, '');
+
+        let addresses: { address: string }[];
+        try {
+            addresses = await lookup(hostname, { all: true });
+        } catch {
+            throw new Error(`Invalid endpoint for tool "${tool.name}": ${hostname} cannot be resolved`);
+        }
+
+        if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+            throw new Error(`Invalid endpoint for tool "${tool.name}": ${hostname} is not a public address`);
+        }
+    }
+
+    /**
+     * Add a tool to a user's account, or replace the tool with the same name
+     */
+    async setTool(userId: string, tool: FunctionToolDefinition): Promise<FunctionTool> {
+        await this.validateTool(tool);
+
+        const data = {
+            description: tool.description,
+            parameters: tool.parameters as Prisma.InputJsonValue,
+            endpoint: tool.endpoint,
+            timeoutMs: tool.timeoutMs,
+            headers: tool.headers ? tool.headers : Prisma.DbNull
+        };
+
+        return prisma.functionTool.upsert({
+            where: { userId_name: { userId, name: tool.name } },
+            create: { userId, name: tool.name, ...data },
+            update: data
+        });
+    }
+
+    /**
+     * List the tools on a user's account
+     */
+    async listTools(userId: string): Promise<FunctionTool[]> {
+        return prisma.functionTool.findMany({
+            where: { userId },
+            orderBy: { name: 'asc' }
+        });
+    }
+
+    /**
+     * Remove a tool from a user's account
+     */
+    async removeTool(userId: string, name: string): Promise<boolean> {
+        const result = await prisma.functionTool.deleteMany({
+            where: { userId, name }
+        });
+
+        return result.count > 0;
+    }
+
+    /**
+     * Get the tools available on a call: the owner's account tools, overridden by
+     * any tool of the same name given to the call itself
+     */
+    async getToolsForCall(call: Call): Promise<FunctionToolDefinition[]> {
+        const accountTools = await this.listTools(call.userId);
+        const tools = new Map<string, FunctionToolDefinition>();
+
+        for (const tool of accountTools) {
+            tools.set(tool.name, {
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.parameters as Record<string, unknown>,
+                endpoint: tool.endpoint,
+                timeoutMs: tool.timeoutMs,
+                headers: (tool.headers as Record<string, string> | null) ?? undefined
+            });
+        }
+
+        for (const tool of (call.functionTools as FunctionToolDefinition[] | null) || []) {
+            tools.set(tool.name, tool);
+        }
+
+        return [...tools.values()];
+    }
+
+    /**
+     * Get the tool invocations made on a call
+     */
+    async getInvocations(callId: string): Promise<FunctionInvocation[]> {
+        return prisma.functionInvocation.findMany({
+            where: { callId },
+            orderBy: { createdAt: 'asc' }
+        });
+    }
+
+    /**
+     * POST the agent's arguments to a tool's endpoint and log the invocation against the call
+     * @param callSid The call the agent is on
+     * @param tool The tool called
+     * @param args The arguments given by the agent
+     * @param functionCallId The realtime function call ID
+     * @returns The output to give back to the agent
+     */
+    async invoke(callSid: string, tool: FunctionToolDefinition, args: unknown, functionCallId: string): Promise<FunctionInvocationResult> {
+        const started = Date.now();
+        let status: FunctionInvocationStatus = 'success';
+        let httpStatus: number | null = null;
+        let output = '';
+        let error: string | null = null;
+
+        try {
+            // Literal IP endpoints are not looked up, so they are checked here
+            await this.assertPublicEndpoint(tool);
+            const response = await postToEndpoint(tool.endpoint, {
+                'Content-Type': 'application/json',
+                ...tool.headers
+            }, JSON.stringify({ name: tool.name, arguments: args, callSid }), tool.timeoutMs);
+
+            httpStatus = response.status;
+            output = response.body.slice(0, MAX_FUNCTION_OUTPUT_CHARS);
+
+            if (response.status >= 300 && response.status < 400) {
+                status = 'error';
+                error = `HTTP ${response.status}: redirects are not followed`;
+            } else if (response.status < 200 || response.status >= 300) {
+                status = 'error';
+                error = `HTTP ${response.status}`;
+            }
+        } catch (err: any) {
+            // The request is aborted with the timeout's TimeoutError as its cause
+            status = err?.name === 'TimeoutError' || err?.cause?.name === 'TimeoutError' ? 'timeout' : 'error';
+            error = status === 'timeout' ? `No response within ${tool.timeoutMs} ms` : err?.message || String(err);
+        }
+
+        const durationMs = Date.now() - started;
+        console.error(`Function ${tool.name} on call ${callSid}: ${status} in ${durationMs}ms`);
+
+        await this.logInvocation(callSid, {
+            toolName: tool.name,
+            functionCallId,
+            arguments: (args ?? {}) as Prisma.InputJsonValue,
+            status,
+            httpStatus,
+            output: output || null,
+            error,
+            durationMs
+        }).catch(err => console.error('Failed to log function invocation:', err));
+
+        return {
+            status,
+            output: status === 'success' ? output : JSON.stringify({ error, response: output || undefined })
+        };
+    }
+
+    private async logInvocation(
+        callSid: string,
+        invocation: Omit<Prisma.FunctionInvocationUncheckedCreateInput, 'callId'>
+    ): Promise<void> {
+        const call = await callPersistenceService.findCall(callSid);
+        if (!call) {
+            return;
+        }
+
+        await prisma.functionInvocation.create({
+            data: { callId: call.id, ...invocation }
+        });
+    }
+}
+
+// Singleton instance for use by call handlers and the web server
+export const functionToolService = new FunctionToolService();
@@ -0,0 +1,117 @@
+import { prisma } from './db.service.js';
+import { InboundNumber } from '@prisma/client';
+import { callPersistenceService, CallWithMessages } from './call-persistence.service.js';
+
+const CALLBACK_TRANSCRIPT_MESSAGES = 10;
+
+export interface InboundRoute {
+    userId: string;
+    agentPrompt: string | null;
+    previousCall: CallWithMessages | null;
+}
+
+/**
+ * Service for routing inbound calls on owned numbers to users and agent prompts
+ */
+export class InboundRoutingService {
+    /**
+     * Assign an owned number to a user, or update its agent prompt
+     */
+    async setNumber(userId: string, phoneNumber: string, agentPrompt?: string): Promise<InboundNumber> {
+        const existing = await prisma.inboundNumber.findUnique({
+            where: { phoneNumber }
+        });
+
+        if (existing && existing.userId !== userId) {
+            console.error(`User ${userId} attempted to claim inbound number ${phoneNumber} owned by ${existing.userId}`);
+            throw new Error('Phone number is already assigned to another user');
+        }
+
+        return prisma.inboundNumber.upsert({
+            where: { phoneNumber },
+            create: {
+                phoneNumber,
+                userId,
+                agentPrompt: agentPrompt || null
+            },
+            update: {
+                agentPrompt: agentPrompt || null
+            }
+        });
+    }
+
+    /**
+     * List the inbound numbers owned by a user
+     */
+    async listNumbers(userId: string): Promise<InboundNumber[]> {
+        return prisma.inboundNumber.findMany({
+            where: { userId },
+            orderBy: { createdAt: 'asc' }
+        });
+    }
+
+    /**
+     * Release an inbound number (with ownership check)
+     */
+    async removeNumber(userId: string, phoneNumber: string): Promise<boolean> {
+        const result = await prisma.inboundNumber.deleteMany({
+            where: { phoneNumber, userId }
+        });
+
+        return result.count > 0;
+    }
+
+    /**
+     * Resolve who should answer a call from `fromNumber` to our number `toNumber`.
+     * Numbers with an explicit assignment route to their owner; otherwise a caller
+     * returning an earlier outbound call is routed to the user who placed it.
+     */
+    async resolveRoute(toNumber: string, fromNumber: string): Promise<InboundRoute | null> {
+        const inboundNumber = await prisma.inboundNumber.findUnique({
+            where: { phoneNumber: toNumber }
+        });
+
+        const previousCall = await callPersistenceService.findLatestOutboundCall(
+            toNumber,
+            fromNumber,
+            inboundNumber?.userId
+        );
+
+        if (inboundNumber) {
+            return {
+                userId: inboundNumber.userId,
+                agentPrompt: inboundNumber.agentPrompt,
+                previousCall
+            };
+        }
+
+        if (previousCall) {
+            return {
+                userId: previousCall.userId,
+                agentPrompt: null,
+                previousCall
+            };
+        }
+
+        return null;
+    }
+
+    /**
+     * Summarise an earlier outbound call so the agent can handle a callback about it
+     */
+    describePreviousCall(call: CallWithMessages): string {
+        const transcript = call.messages
+            .slice(-CALLBACK_TRANSCRIPT_MESSAGES)
+            .map(m => `${m.role === 'assistant' ? 'You' : 'Them'}: ${m.content}`)
+            .join('\n');
+
+        return [
+            `On ${call.startedAt.toISOString()} you called this person with the following task:`,
+            call.callContext || '(no task recorded)',
+            transcript ? `End of that conversation:\n${transcript}` : ''
+        ].filter(Boolean).join('\n');
+    }
+}
+
+// Singleton instance for use by the voice server
+export const inboundRoutingService = new InboundRoutingService();
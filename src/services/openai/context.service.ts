@@ -1,5 +1,11 @@
-import { generateOutboundCallContext } from '../../config/prompts.js';
-import { CallState, ConversationMessage } from '../../types.js';
+import {
+    generateInboundCallContext,
+    generateLanguageInstruction,
+    generateOutboundCallContext,
+    generateOutcomeInstruction
+} from '../../config/prompts.js';
+import { LANGUAGE_NAMES } from '../../config/constants.js';
+import { CallState, CallType, ConversationMessage } from '../../types.js';
 
 export class OpenAIContextService {
 
@@ -8,9 +14,21 @@ export class OpenAIContextService {
         callState.toNumber = toNumber;
     }
 
-    public setupConversationContext(callState: CallState, callContext?: string): void {
+    public setupConversationContext(callState: CallState, callContext?: string, callbackContext?: string): void {
         callState.initialMessage = 'Hello!';
-        callState.callContext = generateOutboundCallContext(callState, callContext);
+        callState.taskContext = callContext || '';
+        callState.callContext = callState.callType === CallType.INBOUND
+            ? generateInboundCallContext(callState, callContext, callbackContext)
+            : generateOutboundCallContext(callState, callContext);
+
+        const languageName = LANGUAGE_NAMES[callState.settings.language as keyof typeof LANGUAGE_NAMES];
+        if (languageName) {
+            callState.callContext = `${callState.callContext}\n\n${generateLanguageInstruction(languageName)}`;
+        }
+
+        if (callState.outcomeSchema) {
+            callState.callContext = `${callState.callContext}\n\n${generateOutcomeInstruction()}`;
+        }
 
         const systemMessage: ConversationMessage = {
             role: 'system',
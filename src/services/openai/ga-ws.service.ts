@@ -0,0 +1,69 @@
+import { RealtimeBackendName, RealtimeConfig } from '../../types.js';
+import { DEFAULT_OPENAI_GA_WEBSOCKET_URL } from '../../config/constants.js';
+import { RealtimeEvent } from '../realtime/backend.js';
+import { OpenAIWsService } from './ws.service.js';
+
+/**
+ * Service for handling OpenAI API interactions over the generally available Realtime
+ * protocol. Audio settings are nested under session.audio, the session has no
+ * temperature, and audio output events are named response.output_audio.*.
+ */
+export class OpenAIGAWsService extends OpenAIWsService {
+    public readonly name: RealtimeBackendName = RealtimeBackendName.OPENAI_GA;
+
+    protected getBaseUrl(): string {
+        return process.env.OPENAI_GA_WEBSOCKET_URL || DEFAULT_OPENAI_GA_WEBSOCKET_URL;
+    }
+
+    protected getHeaders(config: RealtimeConfig): Record<string, string> {
+        return { Authorization: `Bearer ${config.apiKey}` };
+    }
+
+    protected buildSession(config: RealtimeConfig, instructions: string, tools: object[]): Record<string, unknown> {
+        return {
+            output_modalities: ['audio'],
+            audio: {
+                input: {
+                    format: { type: 'audio/pcmu' },
+                    transcription: {
+                        model: config.transcriptionModel,
+                        ...(config.language ? { language: config.language } : {})
+                    },
+                    turn_detection: { type: 'server_vad' }
+                },
+                output: {
+                    format: { type: 'audio/pcmu' },
+                    voice: config.voice
+                }
+            },
+            instructions,
+            tools,
+            tool_choice: 'auto'
+        };
+    }
+
+    protected buildVoicemailSession(instructions: string): Record<string, unknown> {
+        return { instructions, audio: { input: { turn_detection: null } } };
+    }
+
+    protected decodeEvent(data: any): RealtimeEvent | null {
+        switch (data.type) {
+        case 'response.output_audio.delta':
+            return data.delta ? { type: 'agent_audio', payload: data.delta, itemId: data.item_id ?? null } : null;
+        case 'response.output_audio_transcript.done':
+            return { type: 'agent_transcript', text: data.transcript };
+        case 'response.audio.delta':
+        case 'response.audio_transcript.done':
+            return null;
+        default:
+            return super.decodeEvent(data);
+        }
+    }
+
+    /**
+     * Every GA session update names the session type
+     */
+    protected updateSession(session: Record<string, unknown>): void {
+        super.updateSession({ type: 'realtime', ...session });
+    }
+}
@@ -1,71 +1,148 @@
 import { WebSocket } from 'ws';
-import { OpenAIConfig } from '../../types.js';
-import { SHOW_TIMING_MATH } from '../../config/constants.js';
+import { RealtimeBackendName, RealtimeConfig } from '../../types.js';
+import { DEFAULT_OPENAI_WEBSOCKET_URL, LOG_EVENT_TYPES, SHOW_TIMING_MATH } from '../../config/constants.js';
+import { RealtimeEvent, RealtimeVoiceBackend } from '../realtime/backend.js';
 
 /**
- * Service for handling OpenAI API interactions
+ * Where and how to open a realtime WebSocket
  */
-export class OpenAIWsService {
-    private webSocket: WebSocket | null = null;
-    private readonly config: OpenAIConfig;
+export interface RealtimeConnection {
+    url: string;
+    headers: Record<string, string>;
+    model: string;
+}
 
-    /**
-     * Create a new OpenAI service
-     * @param config Configuration for the OpenAI API
-     */
-    constructor(config: OpenAIConfig) {
-        this.config = config;
-    }
+/**
+ * Service for handling OpenAI API interactions over the Realtime beta protocol.
+ * Other backends speaking a variant of the protocol override the connection,
+ * the session shape and the event names.
+ */
+export class OpenAIWsService implements RealtimeVoiceBackend {
+    public readonly name: RealtimeBackendName = RealtimeBackendName.OPENAI;
+    protected webSocket: WebSocket | null = null;
+    protected config: RealtimeConfig | null = null;
+    private model = '';
 
     /**
      * Initialize the WebSocket connection to OpenAI
-     * @param onMessage Callback for handling messages from OpenAI
+     * @param config Configuration for the OpenAI API, resolved for this call
+     * @param onEvent Callback for handling events from OpenAI
      * @param onOpen Callback for when the connection is opened
      * @param onError Callback for handling errors
      */
     public initialize(
-        onMessage: (data: WebSocket.Data) => void,
+        config: RealtimeConfig,
+        onEvent: (event: RealtimeEvent) => void,
         onOpen: () => void,
         onError: (error: Error) => void
     ): void {
-        this.webSocket = new WebSocket(this.config.websocketUrl, {
-            headers: {
-                Authorization: `Bearer ${this.config.apiKey}`,
-                'OpenAI-Beta': 'realtime=v1'
-            }
-        });
+        this.config = config;
+        const connection = this.getConnection(config);
+        this.model = connection.model;
+        this.webSocket = new WebSocket(connection.url, { headers: connection.headers });
 
         this.webSocket.on('open', onOpen);
-        this.webSocket.on('message', onMessage);
+        this.webSocket.on('message', (data: WebSocket.Data) => {
+            const event = this.parseMessage(data);
+            if (event) {
+                onEvent(event);
+            }
+        });
         this.webSocket.on('error', onError);
     }
 
+    public getModel(): string {
+        return this.model;
+    }
+
     /**
      * Initialize the session with OpenAI
      * @param callContext The context for the call
+     * @param tools The function tools available to the agent
      */
-    public initializeSession(callContext: string): void {
-        if (!this.webSocket || this.webSocket.readyState !== WebSocket.OPEN) {
+    public initializeSession(callContext: string, tools: object[]): void {
+        if (!this.config || !this.isConnected()) {
             return;
         }
 
-        const sessionUpdate = {
-            type: 'session.update',
-            session: {
-                turn_detection: { type: 'server_vad' },
-                input_audio_format: 'g711_ulaw',
-                output_audio_format: 'g711_ulaw',
-                voice: this.config.voice,
-                instructions: callContext,
-                modalities: ['text', 'audio'],
-                temperature: this.config.temperature,
-                'input_audio_transcription': {
-                    'model': 'whisper-1'
-                },
+        this.updateSession(this.buildSession(this.config, callContext, tools));
+    }
+
+    /**
+     * Add a system message to the conversation
+     * @param text The message text
+     */
+    public sendSystemMessage(text: string): void {
+        this.send({
+            type: 'conversation.item.create',
+            item: {
+                type: 'message',
+                role: 'system',
+                content: [{ type: 'input_text', text }]
             }
-        };
+        });
+    }
+
+    /**
+     * Return the result of a function call to the model
+     * @param callId The ID of the function call
+     * @param output The result, serialized as a string
+     */
+    public sendFunctionOutput(callId: string, output: string): void {
+        this.send({
+            type: 'conversation.item.create',
+            item: {
+                type: 'function_call_output',
+                call_id: callId,
+                output
+            }
+        });
+    }
 
-        this.webSocket.send(JSON.stringify(sessionUpdate));
+    /**
+     * Replace the session instructions
+     * @param instructions The new instructions
+     */
+    public updateInstructions(instructions: string): void {
+        this.updateSession({ instructions });
+    }
+
+    /**
+     * Switch the session to leaving a voicemail. Turn detection is disabled so the
+     * agent does not react to the recording's silence or background noise.
+     * @param instructions The voicemail instructions
+     */
+    public startVoicemailSession(instructions: string): void {
+        this.updateSession(this.buildVoicemailSession(instructions));
+    }
+
+    /**
+     * Cancel the response currently being generated, if any
+     */
+    public cancelResponse(): void {
+        this.send({ type: 'response.cancel' });
+    }
+
+    /**
+     * Ask OpenAI to generate a response without waiting for caller speech
+     */
+    public requestResponse(): void {
+        this.send({ type: 'response.create' });
+    }
+
+    /**
+     * Ask OpenAI for a short spoken response with one-off instructions and no tool calls,
+     * e.g. to fill silence while a function call is running
+     * @param instructions Instructions for this response only
+     */
+    public requestSpokenResponse(instructions: string): void {
+        this.send({
+            type: 'response.create',
+            response: {
+                instructions,
+                tool_choice: 'none'
+            }
+        });
     }
 
     /**
@@ -82,16 +159,10 @@ export class OpenAIWsService {
      * @param audioPayload The audio payload to forward
      */
     public sendAudio(audioPayload: string): void {
-        if (!this.webSocket || this.webSocket.readyState !== WebSocket.OPEN) {
-            return;
-        }
-
-        const audioAppend = {
+        this.send({
             type: 'input_audio_buffer.append',
             audio: audioPayload
-        };
-
-        this.webSocket.send(JSON.stringify(audioAppend));
+        });
     }
 
     /**
@@ -100,10 +171,6 @@ export class OpenAIWsService {
      * @param elapsedTime The time elapsed since the response started
      */
     public truncateAssistantResponse(itemId: string, elapsedTime: number): void {
-        if (!this.webSocket || this.webSocket.readyState !== WebSocket.OPEN) {
-            return;
-        }
-
         const truncateEvent = {
             type: 'conversation.item.truncate',
             item_id: itemId,
@@ -115,7 +182,7 @@ export class OpenAIWsService {
             console.error('Sending truncation event:', JSON.stringify(truncateEvent));
         }
 
-        this.webSocket.send(JSON.stringify(truncateEvent));
+        this.send(truncateEvent);
     }
 
     /**
@@ -124,4 +191,118 @@ export class OpenAIWsService {
     public isConnected(): boolean {
         return this.webSocket !== null && this.webSocket.readyState === WebSocket.OPEN;
     }
+
+    /**
+     * Where to connect: the endpoint, with the call's model if it has one
+     */
+    protected getConnection(config: RealtimeConfig): RealtimeConnection {
+        const url = new URL(this.getBaseUrl());
+        if (config.model) {
+            url.searchParams.set('model', config.model);
+        }
+
+        return {
+            url: url.toString(),
+            headers: this.getHeaders(config),
+            model: url.searchParams.get('model') || ''
+        };
+    }
+
+    protected getBaseUrl(): string {
+        return process.env.OPENAI_WEBSOCKET_URL || DEFAULT_OPENAI_WEBSOCKET_URL;
+    }
+
+    protected getHeaders(config: RealtimeConfig): Record<string, string> {
+        return {
+            Authorization: `Bearer ${config.apiKey}`,
+            'OpenAI-Beta': 'realtime=v1'
+        };
+    }
+
+    protected buildSession(config: RealtimeConfig, instructions: string, tools: object[]): Record<string, unknown> {
+        return {
+            turn_detection: { type: 'server_vad' },
+            input_audio_format: 'g711_ulaw',
+            output_audio_format: 'g711_ulaw',
+            voice: config.voice,
+            instructions,
+            modalities: ['text', 'audio'],
+            temperature: config.temperature,
+            'input_audio_transcription': {
+                'model': config.transcriptionModel,
+                ...(config.language ? { 'language': config.language } : {})
+            },
+            tools,
+            tool_choice: 'auto',
+        };
+    }
+
+    protected buildVoicemailSession(instructions: string): Record<string, unknown> {
+        return { instructions, turn_detection: null };
+    }
+
+    /**
+     * Decode a server event of the beta protocol
+     * @returns The event, or null if the call handler doesn't use it
+     */
+    protected decodeEvent(data: any): RealtimeEvent | null {
+        switch (data.type) {
+        case 'conversation.item.input_audio_transcription.completed':
+            return { type: 'caller_transcript', text: data.transcript };
+        case 'response.audio_transcript.done':
+            return { type: 'agent_transcript', text: data.transcript };
+        case 'response.audio.delta':
+            return data.delta ? { type: 'agent_audio', payload: data.delta, itemId: data.item_id ?? null } : null;
+        case 'input_audio_buffer.speech_started':
+            return { type: 'caller_speech_started' };
+        case 'input_audio_buffer.speech_stopped':
+            return { type: 'caller_speech_stopped' };
+        case 'response.created':
+            return { type: 'response_created' };
+        case 'session.created':
+            return { type: 'session_created', model: data.session?.model || '' };
+        case 'response.done':
+            return { type: 'response_done', response: data.response ?? { status: 'failed' } };
+        case 'response.function_call_arguments.done':
+            return { type: 'function_call', name: data.name, arguments: data.arguments, callId: data.call_id };
+        case 'error':
+            return { type: 'error', message: data.error?.message || 'Unknown error' };
+        default:
+            return null;
+        }
+    }
+
+    /**
+     * Send a partial session update
+     * @param session The session fields to update
+     */
+    protected updateSession(session: Record<string, unknown>): void {
+        this.send({
+            type: 'session.update',
+            session
+        });
+    }
+
+    protected send(event: object): void {
+        if (!this.webSocket || this.webSocket.readyState !== WebSocket.OPEN) {
+            return;
+        }
+
+        this.webSocket.send(JSON.stringify(event));
+    }
+
+    private parseMessage(data: WebSocket.Data): RealtimeEvent | null {
+        try {
+            const response = JSON.parse(data.toString());
+
+            if (LOG_EVENT_TYPES.includes(response.type)) {
+                // console.log(`Received event: ${response.type}`, response);
+            }
+
+            return this.decodeEvent(response);
+        } catch (error) {
+            console.error('Error processing OpenAI message:', error, 'Raw message:', data);
+            return null;
+        }
+    }
 }
@@ -0,0 +1,142 @@
+import { Ajv, ErrorObject } from 'ajv';
+import OpenAI from 'openai';
+import { Prisma } from '@prisma/client';
+import { prisma } from './db.service.js';
+import { credentialService } from './credential.service.js';
+import { OUTCOME_EXTRACTION_MODEL } from '../config/constants.js';
+
+export type OutcomeSource = 'function_call' | 'extraction';
+
+export interface OutcomeValidation {
+    valid: boolean;
+    errors: string[];
+}
+
+/**
+ * Service for filling and validating the structured outcome requested for a call
+ */
+export class OutcomeService {
+    private readonly ajv = new Ajv({ allErrors: true, strict: false });
+
+    /**
+     * Check that a caller-supplied outcome schema is usable
+     * @throws Error describing why the schema was rejected
+     */
+    validateSchema(schema: Record<string, unknown>): void {
+        if (!this.ajv.validateSchema(schema)) {
+            throw new Error(`Invalid outcomeSchema: ${this.ajv.errorsText(this.ajv.errors)}`);
+        }
+
+        // Realtime function parameters must describe an object
+        if (schema.type !== 'object') {
+            throw new Error('Invalid outcomeSchema: the top-level type must be "object"');
+        }
+    }
+
+    /**
+     * Validate an outcome against a call's schema and store it
+     * @param callSid The call SID
+     * @param data The outcome object
+     * @param source How the outcome was obtained
+     */
+    async recordOutcome(callSid: string, data: unknown, source: OutcomeSource): Promise<OutcomeValidation | null> {
+        const call = await prisma.call.findUnique({
+            where: { callSid }
+        });
+
+        if (!call || !call.outcomeSchema) {
+            console.error(`Cannot record outcome: call ${callSid} has no outcome schema`);
+            return null;
+        }
+
+        const validation = this.validate(call.outcomeSchema as Record<string, unknown>, data);
+
+        await prisma.call.update({
+            where: { callSid },
+            data: {
+                outcome: data as Prisma.InputJsonValue,
+                outcomeValid: validation.valid,
+                outcomeErrors: validation.errors.length > 0 ? validation.errors : Prisma.DbNull,
+                outcomeSource: source
+            }
+        });
+
+        console.error(`Outcome recorded for call ${callSid} via ${source} (valid=${validation.valid})`);
+        return validation;
+    }
+
+    /**
+     * After a call ends, extract the outcome from the transcript if the agent
+     * did not record a valid one during the conversation
+     * @param callSid The call SID
+     */
+    async finalizeOutcome(callSid: string): Promise<void> {
+        const call = await prisma.call.findUnique({
+            where: { callSid },
+            include: {
+                messages: {
+                    orderBy: { timestamp: 'asc' }
+                }
+            }
+        });
+
+        if (!call || !call.outcomeSchema || call.outcomeValid) {
+            return;
+        }
+
+        const transcript = call.messages
+            .map(m => `${m.role}: ${m.content}`)
+            .join('\n');
+
+        if (!transcript) {
+            return;
+        }
+
+        const openai = new OpenAI({ apiKey: await credentialService.resolveOpenAIKey(call.userId) });
+        const completion = await openai.chat.completions.create({
+            model: OUTCOME_EXTRACTION_MODEL,
+            messages: [
+                {
+                    role: 'system',
+                    content: 'Extract the outcome of this phone call from its transcript. The "assistant" placed or answered the call on the user\'s behalf. Only use facts stated in the transcript; use null where the schema allows it for anything unknown.'
+                },
+                {
+                    role: 'user',
+                    content: `Task of the call:\n${call.callContext || '(none)'}\n\nTranscript:\n${transcript}`
+                }
+            ],
+            response_format: {
+                type: 'json_schema',
+                json_schema: {
+                    name: 'call_outcome',
+                    schema: call.outcomeSchema as Record<string, unknown>
+                }
+            }
+        });
+
+        const content = completion.choices[0]?.message?.content;
+        if (!content) {
+            console.error(`Outcome extraction for call ${callSid} returned no content`);
+            return;
+        }
+
+        await this.recordOutcome(callSid, JSON.parse(content), 'extraction');
+    }
+
+    /**
+     * Validate data against a JSON Schema
+     */
+    private validate(schema: Record<string, unknown>, data: unknown): OutcomeValidation {
+        const validateFn = this.ajv.compile(schema);
+        const valid = validateFn(data);
+        const errors = (validateFn.errors || []).map((e: ErrorObject) => `${e.instancePath || '/'} ${e.message}`);
+
+        // Schemas are loaded fresh per call, so don't let Ajv's cache grow with them
+        this.ajv.removeSchema(schema);
+
+        return { valid, errors };
+    }
+}
+
+// Singleton instance for use by event handlers
+export const outcomeService = new OutcomeService();
@@ -0,0 +1,503 @@
+import OpenAI from 'openai';
+import { CallState, ConversationMessage, RealtimeBackendName, RealtimeConfig } from '../../types.js';
+import { DEFAULT_PIPELINE_LLM_BASE_URL, DEFAULT_PIPELINE_LLM_MODEL } from '../../config/constants.js';
+import { MULAW_SAMPLE_RATE, SAMPLES_PER_MS } from '../../utils/audio-utils.js';
+import { RealtimeEvent, RealtimeVoiceBackend } from '../realtime/backend.js';
+import { RealtimeUsage, usageService } from '../usage.service.js';
+import { SpeechDetector } from './vad.service.js';
+import { speechService } from './speech.service.js';
+
+// Sentence-ending punctuation (with any closing quotes or brackets) followed by whitespace
+const SENTENCE_END = /[.!?…]+["')\]]*\s+/g;
+
+/**
+ * A reply being generated and spoken
+ */
+interface PipelineResponse {
+    itemId: string;
+    abort: AbortController;
+    text: string;
+    // Sentences sent to speech, and where their audio starts in the reply
+    sentences: { text: string; startMs: number }[];
+    audioMs: number;
+    // Reported by the chat model at the end of its stream
+    usage: RealtimeUsage | undefined;
+    done: boolean;
+}
+
+/**
+ * A finished reply, kept so it can be cut short at what the other party heard
+ */
+interface SpokenReply {
+    itemId: string;
+    // Its entry in the call's conversation history
+    message: ConversationMessage;
+    sentences: { text: string; startMs: number }[];
+}
+
+/**
+ * Tool calls made by a reply, and how many history messages came before them
+ */
+interface ToolTurn {
+    position: number;
+    calls: OpenAI.ChatCompletionMessageToolCall[];
+}
+
+/**
+ * Split streamed text into the sentences completed so far and the rest
+ */
+const splitSentences = (text: string): { sentences: string[]; rest: string } => {
+    const sentences: string[] = [];
+    let start = 0;
+    for (const match of text.matchAll(SENTENCE_END)) {
+        const end = (match.index ?? 0) + match[0].length;
+        const sentence = text.slice(start, end).trim();
+        if (sentence) {
+            sentences.push(sentence);
+        }
+        start = end;
+    }
+    return { sentences, rest: text.slice(start) };
+};
+
+/**
+ * Conversation engine that cascades separate models instead of a realtime one: local
+ * VAD on the inbound audio, a speech-to-text endpoint, any chat-completions-compatible
+ * model and a text-to-speech endpoint. It emits the same events as the realtime
+ * backends, so transcripts, function tools, barge-in and hang-ups are handled alike.
+ *
+ * Replies are spoken sentence by sentence as the model streams them. When the other
+ * party starts speaking, the reply is cancelled and later cut short at what was played.
+ * The model is given the call's conversation history, so messages the handler records
+ * there reach it; only tool calls and their outputs are kept here.
+ */
+export class PipelineVoiceBackend implements RealtimeVoiceBackend {
+    public readonly name = RealtimeBackendName.PIPELINE;
+    private readonly callState: CallState;
+    private config: RealtimeConfig | null = null;
+    private onEvent: (event: RealtimeEvent) => void = () => undefined;
+    private llm: OpenAI | null = null;
+    private detector: SpeechDetector | null = null;
+    private connected = false;
+    private instructions = '';
+    private tools: OpenAI.ChatCompletionTool[] = [];
+    // Function outputs are kept apart from the calls as they can arrive after later turns
+    private readonly toolTurns: ToolTurn[] = [];
+    private readonly functionOutputs = new Map<string, string>();
+    private turnDetection = true;
+    private response: PipelineResponse | null = null;
+    private lastReply: SpokenReply | null = null;
+    // Utterances are transcribed one after another, in the order they were spoken
+    private transcriptions: Promise<void> = Promise.resolve();
+    private itemCount = 0;
+
+    /**
+     * @param callState The state of the call, whose conversation history replies are built from
+     */
+    constructor(callState: CallState) {
+        this.callState = callState;
+    }
+
+    /**
+     * Set up the models for this call. There is no connection to open, so the
+     * session is ready at once.
+     * @param config Configuration resolved for this call; its API key is used for
+     * every endpoint without a key of its own
+     * @param onEvent Callback for events
+     * @param onOpen Callback for when the session is ready
+     * @param onError Callback for errors
+     */
+    public initialize(
+        config: RealtimeConfig,
+        onEvent: (event: RealtimeEvent) => void,
+        onOpen: () => void,
+        onError: (error: Error) => void
+    ): void {
+        this.config = config;
+        this.onEvent = onEvent;
+        this.llm = new OpenAI({
+            apiKey: process.env.PIPELINE_LLM_API_KEY || config.apiKey,
+            baseURL: process.env.PIPELINE_LLM_BASE_URL || DEFAULT_PIPELINE_LLM_BASE_URL
+        });
+        this.detector = new SpeechDetector(
+            () => this.handleSpeechStarted(),
+            (audio) => this.handleSpeechStopped(audio),
+            onError
+        );
+        this.connected = true;
+
+        onEvent({ type: 'session_created', model: this.getModel() });
+        onOpen();
+    }
+
+    /**
+     * The chat model replies are generated with (PIPELINE_LLM_MODEL)
+     */
+    public getModel(): string {
+        return process.env.PIPELINE_LLM_MODEL || DEFAULT_PIPELINE_LLM_MODEL;
+    }
+
+    public isConnected(): boolean {
+        return this.connected;
+    }
+
+    public close(): void {
+        this.connected = false;
+        this.cancelResponse();
+        this.detector?.close();
+    }
+
+    /**
+     * Set the call's instructions and function tools
+     * @param instructions The system prompt
+     * @param tools Function tools in the realtime format
+     */
+    public initializeSession(instructions: string, tools: object[]): void {
+        this.instructions = instructions;
+        this.tools = tools.map((tool: any) => ({
+            type: 'function',
+            function: {
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.parameters
+            }
+        }));
+    }
+
+    public updateInstructions(instructions: string): void {
+        this.instructions = instructions;
+    }
+
+    /**
+     * Switch to leaving a voicemail: the recording's audio is ignored, so nothing it
+     * plays interrupts or prompts a reply
+     */
+    public startVoicemailSession(instructions: string): void {
+        this.instructions = instructions;
+        this.turnDetection = false;
+    }
+
+    public sendAudio(payload: string): void {
+        if (this.connected && this.turnDetection) {
+            this.detector?.push(payload);
+        }
+    }
+
+    /**
+     * The handler records system messages in the call's history, which every reply is built from
+     */
+    public sendSystemMessage(): void {
+        // Nothing to send
+    }
+
+    public sendFunctionOutput(callId: string, output: string): void {
+        this.functionOutputs.set(callId, output);
+    }
+
+    public requestResponse(): void {
+        this.startResponse();
+    }
+
+    /**
+     * Reply with one-off instructions and no tool calls
+     */
+    public requestSpokenResponse(instructions: string): void {
+        this.startResponse(instructions);
+    }
+
+    /**
+     * Stop generating and speaking the current reply, if any
+     */
+    public cancelResponse(): void {
+        const response = this.response;
+        if (!response) {
+            return;
+        }
+
+        response.abort.abort();
+        this.finishResponse(response, 'cancelled');
+    }
+
+    /**
+     * Cut the reply short in the conversation, keeping the sentences whose audio had
+     * started playing
+     */
+    public truncateAssistantResponse(itemId: string, audioEndMs: number): void {
+        if (this.response?.itemId === itemId) {
+            this.cancelResponse();
+        }
+
+        const reply = this.lastReply;
+        if (reply?.itemId !== itemId) {
+            return;
+        }
+
+        reply.message.content = reply.sentences
+            .filter(sentence => sentence.startMs < audioEndMs)
+            .map(sentence => sentence.text)
+            .join(' ');
+    }
+
+    /**
+     * Barge-in: the other party interrupts whatever the agent was saying
+     */
+    private handleSpeechStarted(): void {
+        if (!this.connected || !this.turnDetection) {
+            return;
+        }
+
+        this.cancelResponse();
+        this.onEvent({ type: 'caller_speech_started' });
+    }
+
+    /**
+     * Transcribe the utterance and reply to it
+     */
+    private handleSpeechStopped(audio: Buffer): void {
+        if (!this.connected || !this.turnDetection || !this.config) {
+            return;
+        }
+
+        this.onEvent({ type: 'caller_speech_stopped' });
+
+        const config = this.config;
+        this.transcriptions = this.transcriptions
+            .then(async () => {
+                const text = await speechService.transcribe(audio, {
+                    apiKey: config.apiKey,
+                    model: config.transcriptionModel,
+                    language: config.language
+                });
+                this.recordSpeechUsage(audio.length / MULAW_SAMPLE_RATE, 0);
+                if (!text || !this.connected) {
+                    return;
+                }
+
+                // Recorded in the call's history by the event service
+                this.onEvent({ type: 'caller_transcript', text });
+
+                if (this.turnDetection) {
+                    this.startResponse();
+                }
+            })
+            .catch(error => this.onEvent({ type: 'error', message: `Transcription failed: ${error.message}` }));
+    }
+
+    private startResponse(instructions?: string): void {
+        if (!this.connected) {
+            return;
+        }
+
+        this.cancelResponse();
+
+        const response: PipelineResponse = {
+            itemId: `pipeline_item_${++this.itemCount}`,
+            abort: new AbortController(),
+            text: '',
+            sentences: [],
+            audioMs: 0,
+            usage: undefined,
+            done: false
+        };
+        this.response = response;
+        this.onEvent({ type: 'response_created' });
+
+        this.generate(response, instructions)
+            .catch(error => this.failResponse(response, `Reply failed: ${error.message}`));
+    }
+
+    /**
+     * Stop a reply that could not be generated or spoken. Errors after it was cancelled,
+     * such as those of its aborted requests, are ignored.
+     */
+    private failResponse(response: PipelineResponse, message: string): void {
+        if (response.done) {
+            return;
+        }
+
+        response.abort.abort();
+        this.onEvent({ type: 'error', message });
+        this.finishResponse(response, 'failed');
+    }
+
+    /**
+     * Stream a reply from the chat model, speaking each sentence as soon as it is complete
+     * @param instructions One-off instructions, for a reply without tool calls
+     */
+    private async generate(response: PipelineResponse, instructions?: string): Promise<void> {
+        if (!this.llm || !this.config) {
+            return;
+        }
+
+        const useTools = !instructions && this.tools.length > 0;
+        const stream = await this.llm.chat.completions.create({
+            model: this.getModel(),
+            temperature: this.config.temperature,
+            messages: this.buildMessages(instructions),
+            ...(useTools ? { tools: this.tools, tool_choice: 'auto' as const } : {}),
+            stream: true,
+            // Sent in a last chunk, for metering; a cancelled reply never gets it
+            stream_options: { include_usage: true }
+        }, { signal: response.abort.signal });
+
+        const toolCalls: OpenAI.ChatCompletionMessageToolCall[] = [];
+        // Sentences are spoken one after another while the model goes on writing; the chain
+        // never rejects, so a failure cannot go unhandled before it is awaited
+        let speech: Promise<void> = Promise.resolve();
+        const speak = (sentence: string) => {
+            speech = speech
+                .then(() => this.speak(response, sentence))
+                .catch(error => this.failResponse(response, `Speech failed: ${error.message}`));
+        };
+
+        let pending = '';
+        for await (const chunk of stream) {
+            if (chunk.usage) {
+                response.usage = {
+                    input_tokens: chunk.usage.prompt_tokens,
+                    output_tokens: chunk.usage.completion_tokens,
+                    input_token_details: {
+                        text_tokens: chunk.usage.prompt_tokens,
+                        cached_tokens_details: { text_tokens: chunk.usage.prompt_tokens_details?.cached_tokens ?? 0 }
+                    },
+                    output_token_details: { text_tokens: chunk.usage.completion_tokens }
+                };
+            }
+
+            const delta = chunk.choices[0]?.delta;
+            if (delta?.content) {
+                response.text += delta.content;
+                const { sentences, rest } = splitSentences(pending + delta.content);
+                pending = rest;
+                sentences.forEach(speak);
+            }
+
+            for (const call of delta?.tool_calls ?? []) {
+                const toolCall = toolCalls[call.index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+                toolCall.id = call.id || toolCall.id;
+                toolCall.function.name += call.function?.name ?? '';
+                toolCall.function.arguments += call.function?.arguments ?? '';
+            }
+        }
+
+        if (pending.trim()) {
+            speak(pending.trim());
+        }
+        await speech;
+
+        this.finishResponse(response, 'completed', toolCalls.filter(Boolean));
+    }
+
+    /**
+     * Synthesize one sentence of the reply and stream its audio
+     */
+    private async speak(response: PipelineResponse, sentence: string): Promise<void> {
+        if (response.done || !this.config) {
+            return;
+        }
+
+        response.sentences.push({ text: sentence, startMs: response.audioMs });
+        await speechService.synthesize(sentence, {
+            apiKey: this.config.apiKey,
+            voice: this.config.voice,
+            signal: response.abort.signal
+        }, (mulaw) => {
+            if (response.done) {
+                return;
+            }
+
+            response.audioMs += mulaw.length / SAMPLES_PER_MS;
+            this.onEvent({ type: 'agent_audio', payload: mulaw.toString('base64'), itemId: response.itemId });
+        });
+    }
+
+    /**
+     * Add the reply to the conversation and report it. A cancelled reply keeps only the
+     * sentences that were spoken; its tool calls are dropped.
+     */
+    private finishResponse(
+        response: PipelineResponse,
+        status: 'completed' | 'cancelled' | 'failed',
+        toolCalls: OpenAI.ChatCompletionMessageToolCall[] = []
+    ): void {
+        if (response.done) {
+            return;
+        }
+
+        response.done = true;
+        if (this.response === response) {
+            this.response = null;
+        }
+
+        const text = status === 'completed'
+            ? response.text.trim()
+            : response.sentences.map(sentence => sentence.text).join(' ');
+        const calls = status === 'completed' ? toolCalls : [];
+
+        if (text) {
+            this.onEvent({ type: 'agent_transcript', text });
+
+            // The event service has just added it to the call's history
+            const history = this.callState.conversationHistory;
+            const message = history[history.length - 1];
+            if (message?.role === 'assistant' && message.content === text) {
+                this.lastReply = { itemId: response.itemId, message, sentences: response.sentences };
+            }
+        }
+        if (calls.length > 0) {
+            this.toolTurns.push({ position: this.callState.conversationHistory.length, calls });
+        }
+        for (const call of calls) {
+            this.onEvent({ type: 'function_call', name: call.function.name, arguments: call.function.arguments, callId: call.id });
+        }
+        this.recordSpeechUsage(0, response.audioMs / 1000);
+        this.onEvent({ type: 'response_done', response: { status, usage: response.usage } });
+    }
+
+    /**
+     * Add speech-to-text and text-to-speech audio to the call's estimated cost
+     */
+    private recordSpeechUsage(transcribedSeconds: number, synthesizedSeconds: number): void {
+        if (!this.callState.callSid || (transcribedSeconds === 0 && synthesizedSeconds === 0)) {
+            return;
+        }
+
+        usageService.recordSpeechUsage(this.callState.callSid, transcribedSeconds, synthesizedSeconds)
+            .catch(err => console.error('Failed to record speech usage:', err));
+    }
+
+    /**
+     * The messages for the chat model: the instructions, then the call's conversation history
+     * with each reply's tool calls where they were made, followed by their outputs (or a
+     * placeholder while they are running)
+     */
+    private buildMessages(instructions?: string): OpenAI.ChatCompletionMessageParam[] {
+        const messages: OpenAI.ChatCompletionMessageParam[] = [{ role: 'system', content: this.instructions }];
+        const history = this.callState.conversationHistory;
+
+        for (let position = 0; position <= history.length; position++) {
+            for (const turn of this.toolTurns.filter(turn => turn.position === position)) {
+                messages.push({ role: 'assistant', content: null, tool_calls: turn.calls });
+                for (const call of turn.calls) {
+                    messages.push({
+                        role: 'tool',
+                        tool_call_id: call.id,
+                        content: this.functionOutputs.get(call.id) ?? JSON.stringify({ status: 'no result yet' })
+                    });
+                }
+            }
+
+            const message = history[position];
+            // The history starts with the call context, which the instructions replace
+            if (message && !(position === 0 && message.role === 'system')) {
+                messages.push({ role: message.role, content: message.content });
+            }
+        }
+
+        if (instructions) {
+            messages.push({ role: 'system', content: instructions });
+        }
+
+        return messages;
+    }
+}
@@ -0,0 +1,107 @@
+import { Readable } from 'stream';
+import {
+    DEFAULT_PIPELINE_STT_URL,
+    DEFAULT_PIPELINE_TTS_MODEL,
+    DEFAULT_PIPELINE_TTS_SAMPLE_RATE,
+    DEFAULT_PIPELINE_TTS_URL
+} from '../../config/constants.js';
+import { MULAW_SAMPLE_RATE, decodeMulaw, downsample, encodeMulaw, encodeWav } from '../../utils/audio-utils.js';
+
+export interface TranscribeOptions {
+    // Used when PIPELINE_STT_API_KEY is not set
+    apiKey: string;
+    model: string;
+    language?: string;
+}
+
+export interface SynthesizeOptions {
+    // Used when PIPELINE_TTS_API_KEY is not set
+    apiKey: string;
+    voice: string;
+    signal: AbortSignal;
+}
+
+/**
+ * Service for the speech-to-text and text-to-speech endpoints of the cascaded pipeline.
+ * Both speak OpenAI's audio API, which many self-hosted servers also implement;
+ * PIPELINE_STT_URL and PIPELINE_TTS_URL point them elsewhere.
+ */
+export class SpeechService {
+    /**
+     * Transcribe an utterance
+     * @param mulaw The utterance as μ-law 8 kHz audio
+     * @returns The transcript, empty if nothing was understood
+     */
+    async transcribe(mulaw: Buffer, options: TranscribeOptions): Promise<string> {
+        const wav = encodeWav([decodeMulaw(mulaw)], MULAW_SAMPLE_RATE);
+        const form = new FormData();
+        form.append('file', new Blob([new Uint8Array(wav)], { type: 'audio/wav' }), 'speech.wav');
+        form.append('model', process.env.PIPELINE_STT_MODEL || options.model);
+        if (options.language) {
+            form.append('language', options.language);
+        }
+
+        const response = await fetch(process.env.PIPELINE_STT_URL || DEFAULT_PIPELINE_STT_URL, {
+            method: 'POST',
+            headers: { Authorization: `Bearer ${process.env.PIPELINE_STT_API_KEY || options.apiKey}` },
+            body: form
+        });
+
+        if (!response.ok) {
+            throw new Error(`Speech-to-text failed: HTTP ${response.status} ${await response.text()}`);
+        }
+
+        const result = await response.json() as { text?: string };
+        return result.text?.trim() || '';
+    }
+
+    /**
+     * Synthesize speech, streaming it as μ-law 8 kHz audio while it is generated.
+     * The endpoint returns raw 16-bit PCM at PIPELINE_TTS_SAMPLE_RATE.
+     * @param text The text to speak
+     * @param onAudio Callback for each chunk of audio
+     */
+    async synthesize(text: string, options: SynthesizeOptions, onAudio: (mulaw: Buffer) => void): Promise<void> {
+        const response = await fetch(process.env.PIPELINE_TTS_URL || DEFAULT_PIPELINE_TTS_URL, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                Authorization: `Bearer ${process.env.PIPELINE_TTS_API_KEY || options.apiKey}`
+            },
+            body: JSON.stringify({
+                model: process.env.PIPELINE_TTS_MODEL || DEFAULT_PIPELINE_TTS_MODEL,
+                input: text,
+                voice: options.voice,
+                response_format: 'pcm'
+            }),
+            signal: options.signal
+        });
+
+        if (!response.ok || !response.body) {
+            throw new Error(`Text-to-speech failed: HTTP ${response.status} ${await response.text()}`);
+        }
+
+        const sampleRate = Number(process.env.PIPELINE_TTS_SAMPLE_RATE) || DEFAULT_PIPELINE_TTS_SAMPLE_RATE;
+        // Convert whole groups of input samples, so no output sample straddles two chunks
+        const groupBytes = Math.ceil(sampleRate / MULAW_SAMPLE_RATE) * 2;
+        let pending = Buffer.alloc(0);
+
+        for await (const chunk of Readable.fromWeb(response.body as any)) {
+            pending = Buffer.concat([pending, chunk as Buffer]);
+            const usable = pending.length - (pending.length % groupBytes);
+            if (usable === 0) {
+                continue;
+            }
+
+            const pcm = new Int16Array(usable / 2);
+            for (let i = 0; i < pcm.length; i++) {
+                pcm[i] = pending.readInt16LE(i * 2);
+            }
+            pending = pending.subarray(usable);
+            onAudio(encodeMulaw(downsample(pcm, sampleRate, MULAW_SAMPLE_RATE)));
+        }
+    }
+}
+
+// Singleton instance for use by the pipeline backend
+export const speechService = new SpeechService();
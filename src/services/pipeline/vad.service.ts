@@ -0,0 +1,112 @@
+import type VAD from 'node-vad';
+import {
+    PIPELINE_MAX_UTTERANCE_MS,
+    PIPELINE_PREROLL_MS,
+    PIPELINE_SPEECH_END_MS,
+    PIPELINE_SPEECH_START_MS,
+    PIPELINE_VAD_FRAME_MS
+} from '../../config/constants.js';
+import { MULAW_SAMPLE_RATE, SAMPLES_PER_MS, decodeMulaw } from '../../utils/audio-utils.js';
+
+const FRAME_BYTES = PIPELINE_VAD_FRAME_MS * SAMPLES_PER_MS;
+
+/**
+ * Detects when the other party starts and stops speaking in a call's inbound μ-law
+ * audio, and collects what they said. Frames are classified by node-vad (WebRTC VAD),
+ * which is only loaded once a call uses it as it is a native module.
+ */
+export class SpeechDetector {
+    private readonly onSpeechStart: () => void;
+    private readonly onSpeechEnd: (audio: Buffer) => void;
+    private readonly vad: Promise<{ detector: VAD; voiceEvent: number } | null>;
+    private pending = Buffer.alloc(0);
+    // Frames are classified one after another, in the order they arrived
+    private frames: Promise<void> = Promise.resolve();
+    private speaking = false;
+    private voicedMs = 0;
+    private silentMs = 0;
+    // Audio just before speech was detected, so the utterance's first syllable isn't cut off
+    private preroll: Buffer[] = [];
+    private utterance: Buffer[] = [];
+    private closed = false;
+
+    /**
+     * @param onSpeechStart Callback for when speech starts
+     * @param onSpeechEnd Callback with the μ-law audio of the utterance once speech stops
+     * @param onError Callback for when the VAD cannot be loaded
+     */
+    constructor(onSpeechStart: () => void, onSpeechEnd: (audio: Buffer) => void, onError: (error: Error) => void) {
+        this.onSpeechStart = onSpeechStart;
+        this.onSpeechEnd = onSpeechEnd;
+        this.vad = import('node-vad')
+            .then(({ default: NodeVAD }) => ({ detector: new NodeVAD(NodeVAD.Mode.AGGRESSIVE), voiceEvent: NodeVAD.Event.VOICE }))
+            .catch((error) => {
+                onError(error);
+                return null;
+            });
+    }
+
+    /**
+     * Add inbound audio
+     * @param payload μ-law 8 kHz audio, base64 encoded
+     */
+    public push(payload: string): void {
+        if (this.closed) {
+            return;
+        }
+
+        this.pending = Buffer.concat([this.pending, Buffer.from(payload, 'base64')]);
+        while (this.pending.length >= FRAME_BYTES) {
+            const frame = this.pending.subarray(0, FRAME_BYTES);
+            this.pending = this.pending.subarray(FRAME_BYTES);
+            this.frames = this.frames
+                .then(() => this.processFrame(frame))
+                .catch(err => console.error('Failed to classify audio frame:', err));
+        }
+    }
+
+    public close(): void {
+        this.closed = true;
+        this.preroll = [];
+        this.utterance = [];
+    }
+
+    private async processFrame(frame: Buffer): Promise<void> {
+        const vad = await this.vad;
+        if (!vad || this.closed) {
+            return;
+        }
+
+        const samples = decodeMulaw(frame);
+        const event = await vad.detector.processAudio(Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength), MULAW_SAMPLE_RATE);
+        const voice = event === vad.voiceEvent;
+
+        if (!this.speaking) {
+            this.preroll.push(frame);
+            if (this.preroll.length > PIPELINE_PREROLL_MS / PIPELINE_VAD_FRAME_MS) {
+                this.preroll.shift();
+            }
+
+            this.voicedMs = voice ? this.voicedMs + PIPELINE_VAD_FRAME_MS : 0;
+            if (this.voicedMs >= PIPELINE_SPEECH_START_MS) {
+                this.speaking = true;
+                this.silentMs = 0;
+                this.utterance = this.preroll;
+                this.preroll = [];
+                this.onSpeechStart();
+            }
+            return;
+        }
+
+        this.utterance.push(frame);
+        this.silentMs = voice ? 0 : this.silentMs + PIPELINE_VAD_FRAME_MS;
+
+        if (this.silentMs >= PIPELINE_SPEECH_END_MS || this.utterance.length * PIPELINE_VAD_FRAME_MS >= PIPELINE_MAX_UTTERANCE_MS) {
+            const audio = Buffer.concat(this.utterance);
+            this.speaking = false;
+            this.voicedMs = 0;
+            this.utterance = [];
+            this.onSpeechEnd(audio);
+        }
+    }
+}
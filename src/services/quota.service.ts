@@ -0,0 +1,304 @@
+import { Prisma, UserQuota } from '@prisma/client';
+import { prisma } from './db.service.js';
+import { CallStatus, QuotaLimit, QuotaLimits } from '../types.js';
+import {
+    DEFAULT_MAX_CALLS_PER_DAY,
+    DEFAULT_MAX_CALLS_PER_HOUR,
+    DEFAULT_MAX_CONCURRENT_CALLS,
+    DEFAULT_MONTHLY_MINUTES,
+    DEFAULT_QUOTA_PLAN,
+    MAX_CALL_DURATION_SECONDS
+} from '../config/constants.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const ACTIVE_CALL_STATUSES = [CallStatus.PENDING, CallStatus.INITIATED, CallStatus.RINGING, CallStatus.IN_PROGRESS];
+
+// Calls whose final status callback never arrived stop counting as active after this long
+const ACTIVE_CALL_MAX_AGE_MS = MAX_CALL_DURATION_SECONDS * 1000 + 10 * 60 * 1000;
+
+export const DEFAULT_QUOTA_LIMITS: QuotaLimits = {
+    maxConcurrentCalls: DEFAULT_MAX_CONCURRENT_CALLS,
+    maxCallsPerHour: DEFAULT_MAX_CALLS_PER_HOUR,
+    maxCallsPerDay: DEFAULT_MAX_CALLS_PER_DAY,
+    monthlyMinutes: DEFAULT_MONTHLY_MINUTES,
+    monthlyBudgetUsd: null
+};
+
+/**
+ * A limit a call would exceed. resetsAt is null when it depends on a call ending.
+ */
+export interface QuotaViolation {
+    limit: QuotaLimit;
+    max: number;
+    current: number;
+    resetsAt: Date | null;
+}
+
+export interface QuotaUsage {
+    concurrentCalls: number;
+    callsLastHour: number;
+    callsLastDay: number;
+    monthlyMinutes: number;
+    monthlyCostUsd: number;
+}
+
+export interface QuotaStatus {
+    plan: string;
+    limits: QuotaLimits;
+    usage: QuotaUsage;
+}
+
+/**
+ * Raised when a user has reached one of their call placement limits
+ */
+export class QuotaExceededError extends Error {
+    readonly violation: QuotaViolation;
+
+    constructor(violation: QuotaViolation) {
+        const resets = violation.resetsAt ? `resets at ${violation.resetsAt.toISOString()}` : 'resets when one of your active calls ends';
+        super(`Quota exceeded: ${violation.limit} limit of ${violation.max} reached (${resets})`);
+        this.name = 'QuotaExceededError';
+        this.violation = violation;
+    }
+
+    /**
+     * Machine-readable description for API responses
+     */
+    toJSON(): object {
+        return {
+            error: this.message,
+            limit: this.violation.limit,
+            max: this.violation.max,
+            current: this.violation.current,
+            resetsAt: this.violation.resetsAt?.toISOString() ?? null
+        };
+    }
+}
+
+/**
+ * Service for per-user call placement quotas
+ */
+export class QuotaService {
+    /**
+     * Give a new user the default plan
+     */
+    async assignDefaultPlan(userId: string): Promise<UserQuota> {
+        return prisma.userQuota.create({
+            data: { userId, plan: DEFAULT_QUOTA_PLAN, ...DEFAULT_QUOTA_LIMITS }
+        });
+    }
+
+    /**
+     * Change a user's limits. Omitted limits are left unchanged; null removes a limit.
+     */
+    async setLimits(userId: string, limits: Partial<QuotaLimits>, plan?: string): Promise<QuotaStatus> {
+        for (const [name, value] of Object.entries(limits)) {
+            if (value !== null && value !== undefined && (!Number.isFinite(value) || value < 0)) {
+                throw new Error(`${name} must be a non-negative number or null`);
+            }
+        }
+
+        await prisma.userQuota.upsert({
+            where: { userId },
+            create: { userId, plan: plan ?? 'custom', ...DEFAULT_QUOTA_LIMITS, ...limits },
+            update: { ...limits, ...(plan ? { plan } : {}) }
+        });
+
+        return this.getStatus(userId);
+    }
+
+    /**
+     * Get a user's limits and their current usage
+     */
+    async getStatus(userId: string, db: Prisma.TransactionClient = prisma): Promise<QuotaStatus> {
+        const now = new Date();
+        const quota = await this.getQuota(userId, db);
+
+        const [concurrentCalls, callsLastHour, callsLastDay, monthly] = await Promise.all([
+            this.countActiveCalls(userId, now, db),
+            this.countCallsSince(userId, new Date(now.getTime() - HOUR_MS), db),
+            this.countCallsSince(userId, new Date(now.getTime() - DAY_MS), db),
+            this.getMonthlyUsage(userId, now, db)
+        ]);
+
+        return {
+            plan: quota.plan,
+            limits: quota.limits,
+            usage: {
+                concurrentCalls,
+                callsLastHour,
+                callsLastDay,
+                monthlyMinutes: monthly.minutes,
+                monthlyCostUsd: monthly.costUsd
+            }
+        };
+    }
+
+    /**
+     * Check that a user may place another call now
+     * @throws QuotaExceededError naming the first limit that would be exceeded
+     */
+    async assertCallAllowed(userId: string, db: Prisma.TransactionClient = prisma): Promise<void> {
+        const violation = await this.findViolation(userId, db);
+        if (violation) {
+            console.error(`User ${userId} exceeded ${violation.limit} quota (${violation.current}/${violation.max})`);
+            throw new QuotaExceededError(violation);
+        }
+    }
+
+    /**
+     * Reserve a call slot: check the user's limits and record the call while no other
+     * call of theirs is being placed, so parallel requests cannot all pass the same check
+     * @param userId The user placing the call
+     * @param create Records the call, counted by later checks
+     * @throws QuotaExceededError naming the first limit that would be exceeded
+     */
+    async reserveCall<T>(userId: string, create: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> {
+        return prisma.$transaction(async (tx) => {
+            // Held until the transaction ends
+            await tx.$queryRaw`SELECT 1 FROM pg_advisory_xact_lock(hashtext(${`quota:${userId}`}))`;
+            await this.assertCallAllowed(userId, tx);
+            return create(tx);
+        });
+    }
+
+    /**
+     * Find the first limit another call would exceed, if any
+     */
+    async findViolation(userId: string, db: Prisma.TransactionClient = prisma): Promise<QuotaViolation | null> {
+        const now = new Date();
+        const { limits, usage } = await this.getStatus(userId, db);
+
+        if (limits.maxConcurrentCalls !== null && usage.concurrentCalls >= limits.maxConcurrentCalls) {
+            return {
+                limit: QuotaLimit.CONCURRENT_CALLS,
+                max: limits.maxConcurrentCalls,
+                current: usage.concurrentCalls,
+                resetsAt: null
+            };
+        }
+
+        if (limits.maxCallsPerHour !== null && usage.callsLastHour >= limits.maxCallsPerHour) {
+            return {
+                limit: QuotaLimit.CALLS_PER_HOUR,
+                max: limits.maxCallsPerHour,
+                current: usage.callsLastHour,
+                resetsAt: await this.windowResetsAt(userId, now, HOUR_MS, usage.callsLastHour, limits.maxCallsPerHour, db)
+            };
+        }
+
+        if (limits.maxCallsPerDay !== null && usage.callsLastDay >= limits.maxCallsPerDay) {
+            return {
+                limit: QuotaLimit.CALLS_PER_DAY,
+                max: limits.maxCallsPerDay,
+                current: usage.callsLastDay,
+                resetsAt: await this.windowResetsAt(userId, now, DAY_MS, usage.callsLastDay, limits.maxCallsPerDay, db)
+            };
+        }
+
+        if (limits.monthlyMinutes !== null && usage.monthlyMinutes >= limits.monthlyMinutes) {
+            return {
+                limit: QuotaLimit.MONTHLY_MINUTES,
+                max: limits.monthlyMinutes,
+                current: usage.monthlyMinutes,
+                resetsAt: this.nextMonthStart(now)
+            };
+        }
+
+        if (limits.monthlyBudgetUsd !== null && usage.monthlyCostUsd >= limits.monthlyBudgetUsd) {
+            return {
+                limit: QuotaLimit.MONTHLY_BUDGET,
+                max: limits.monthlyBudgetUsd,
+                current: usage.monthlyCostUsd,
+                resetsAt: this.nextMonthStart(now)
+            };
+        }
+
+        return null;
+    }
+
+    private async getQuota(userId: string, db: Prisma.TransactionClient): Promise<{ plan: string; limits: QuotaLimits }> {
+        const quota = await db.userQuota.findUnique({
+            where: { userId }
+        });
+
+        if (!quota) {
+            return { plan: DEFAULT_QUOTA_PLAN, limits: DEFAULT_QUOTA_LIMITS };
+        }
+
+        return {
+            plan: quota.plan,
+            limits: {
+                maxConcurrentCalls: quota.maxConcurrentCalls,
+                maxCallsPerHour: quota.maxCallsPerHour,
+                maxCallsPerDay: quota.maxCallsPerDay,
+                monthlyMinutes: quota.monthlyMinutes,
+                monthlyBudgetUsd: quota.monthlyBudgetUsd
+            }
+        };
+    }
+
+    private async countActiveCalls(userId: string, now: Date, db: Prisma.TransactionClient): Promise<number> {
+        return db.call.count({
+            where: {
+                userId,
+                // Inbound calls are answered, not placed, so they don't hold up outbound calls
+                direction: 'outbound',
+                status: { in: ACTIVE_CALL_STATUSES },
+                startedAt: { gte: new Date(now.getTime() - ACTIVE_CALL_MAX_AGE_MS) }
+            }
+        });
+    }
+
+    private async countCallsSince(userId: string, since: Date, db: Prisma.TransactionClient): Promise<number> {
+        return db.call.count({
+            where: { userId, direction: 'outbound', startedAt: { gte: since } }
+        });
+    }
+
+    /**
+     * When a sliding window limit frees up: once enough of the oldest calls in the
+     * window have aged out that the count drops below the limit
+     */
+    private async windowResetsAt(
+        userId: string,
+        now: Date,
+        windowMs: number,
+        count: number,
+        max: number,
+        db: Prisma.TransactionClient
+    ): Promise<Date> {
+        const oldest = await db.call.findFirst({
+            where: { userId, direction: 'outbound', startedAt: { gte: new Date(now.getTime() - windowMs) } },
+            orderBy: { startedAt: 'asc' },
+            skip: count - max,
+            select: { startedAt: true }
+        });
+
+        return new Date((oldest?.startedAt ?? now).getTime() + windowMs);
+    }
+
+    /**
+     * Billed minutes and estimated cost of the calls started this calendar month (UTC)
+     */
+    private async getMonthlyUsage(userId: string, now: Date, db: Prisma.TransactionClient): Promise<{ minutes: number; costUsd: number }> {
+        const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+        const usage = await db.callUsage.aggregate({
+            where: { call: { userId, startedAt: { gte: monthStart } } },
+            _sum: { billedMinutes: true, openaiCostUsd: true, twilioCostUsd: true }
+        });
+
+        return {
+            minutes: usage._sum.billedMinutes ?? 0,
+            costUsd: Math.round(((usage._sum.openaiCostUsd ?? 0) + (usage._sum.twilioCostUsd ?? 0)) * 1_000_000) / 1_000_000
+        };
+    }
+
+    private nextMonthStart(now: Date): Date {
+        return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+    }
+}
+
+// Singleton instance for use by the call dispatcher and MCP tools
+export const quotaService = new QuotaService();
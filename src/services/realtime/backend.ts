@@ -0,0 +1,113 @@
+import { RealtimeBackendName, RealtimeConfig } from '../../types.js';
+import { RealtimeUsage } from '../usage.service.js';
+
+/**
+ * A response the model has finished generating
+ */
+export interface RealtimeResponse {
+    // 'completed', 'cancelled', 'incomplete' or 'failed'
+    status: string;
+    usage?: RealtimeUsage;
+}
+
+/**
+ * An event from a realtime backend, decoded from its protocol
+ */
+export type RealtimeEvent =
+    | { type: 'session_created'; model: string }
+    | { type: 'caller_speech_started' }
+    | { type: 'caller_speech_stopped' }
+    // Transcript of what the other party said
+    | { type: 'caller_transcript'; text: string }
+    // Transcript of what the agent said
+    | { type: 'agent_transcript'; text: string }
+    // μ-law 8 kHz audio of the agent, base64 encoded, and the conversation item it belongs to
+    | { type: 'agent_audio'; payload: string; itemId: string | null }
+    | { type: 'response_created' }
+    | { type: 'response_done'; response: RealtimeResponse }
+    | { type: 'function_call'; name: string; arguments: string; callId: string }
+    | { type: 'error'; message: string };
+
+/**
+ * A conversation engine a call's agent runs on, such as a realtime speech-to-speech
+ * model. Audio in and out is μ-law 8 kHz, as streamed by the carrier.
+ */
+export interface RealtimeVoiceBackend {
+    readonly name: RealtimeBackendName;
+
+    /**
+     * Connect to the backend
+     * @param config Configuration resolved for this call
+     * @param onEvent Callback for decoded events
+     * @param onOpen Callback for when the connection is opened
+     * @param onError Callback for connection errors
+     */
+    initialize(
+        config: RealtimeConfig,
+        onEvent: (event: RealtimeEvent) => void,
+        onOpen: () => void,
+        onError: (error: Error) => void
+    ): void;
+
+    /**
+     * The model (or deployment) the connection was opened with
+     */
+    getModel(): string;
+
+    isConnected(): boolean;
+
+    close(): void;
+
+    /**
+     * Configure the session with the call's instructions and function tools
+     */
+    initializeSession(instructions: string, tools: object[]): void;
+
+    /**
+     * Replace the session instructions
+     */
+    updateInstructions(instructions: string): void;
+
+    /**
+     * Switch to leaving a voicemail: new instructions, and no turn detection so the
+     * agent does not react to the recording's silence or background noise
+     */
+    startVoicemailSession(instructions: string): void;
+
+    /**
+     * Forward audio from the other party
+     */
+    sendAudio(payload: string): void;
+
+    /**
+     * Add a system message to the conversation
+     */
+    sendSystemMessage(text: string): void;
+
+    /**
+     * Return the result of a function call to the model
+     */
+    sendFunctionOutput(callId: string, output: string): void;
+
+    /**
+     * Generate a response without waiting for the other party to speak
+     */
+    requestResponse(): void;
+
+    /**
+     * Generate a short spoken response with one-off instructions and no tool calls
+     */
+    requestSpokenResponse(instructions: string): void;
+
+    /**
+     * Cancel the response being generated, if any
+     */
+    cancelResponse(): void;
+
+    /**
+     * Cut the agent's message short at what the other party actually heard
+     * @param itemId The conversation item of the agent's message
+     * @param audioEndMs How much of its audio was played
+     */
+    truncateAssistantResponse(itemId: string, audioEndMs: number): void;
+}
@@ -0,0 +1,208 @@
+import { CallState } from '../../types.js';
+import { SHOW_TIMING_MATH } from '../../config/constants.js';
+import { checkForGoodbye } from '../../utils/call-utils.js';
+import { callPersistenceService } from '../call-persistence.service.js';
+import { usageService } from '../usage.service.js';
+import { SAMPLES_PER_MS } from '../../utils/audio-utils.js';
+import { RealtimeEvent, RealtimeResponse } from './backend.js';
+
+/**
+ * Service for processing the events of a call's realtime backend
+ */
+export class RealtimeEventService {
+    private readonly callState: CallState;
+    private readonly onEndCall: () => void;
+    private readonly onSendAudioToTwilio: (payload: string) => void;
+    private readonly onTruncateResponse: () => void;
+    private readonly onResponseDone: (response: RealtimeResponse) => void;
+    private readonly onFunctionCall: (name: string, args: any, callId: string) => void;
+
+    /**
+     * Create a new realtime event processor
+     * @param callState The state of the call
+     * @param onEndCall Callback for ending the call
+     * @param onSendAudioToTwilio Callback for sending audio to Twilio
+     * @param onTruncateResponse Callback for truncating the response
+     * @param onResponseDone Callback for when a response has been fully generated
+     * @param onFunctionCall Callback for when the model calls a function tool
+     */
+    constructor(
+        callState: CallState,
+        onEndCall: () => void,
+        onSendAudioToTwilio: (payload: string) => void,
+        onTruncateResponse: () => void,
+        onResponseDone: (response: RealtimeResponse) => void,
+        onFunctionCall: (name: string, args: any, callId: string) => void
+    ) {
+        this.callState = callState;
+        this.onEndCall = onEndCall;
+        this.onSendAudioToTwilio = onSendAudioToTwilio;
+        this.onTruncateResponse = onTruncateResponse;
+        this.onResponseDone = onResponseDone;
+        this.onFunctionCall = onFunctionCall;
+    }
+
+    /**
+     * Process an event from the call's realtime backend
+     * @param event The decoded event
+     */
+    public processEvent(event: RealtimeEvent): void {
+        switch (event.type) {
+        case 'caller_transcript':
+            this.handleTranscriptionCompleted(event.text);
+            break;
+        case 'agent_transcript':
+            this.handleAudioTranscriptDone(event.text);
+            break;
+        case 'agent_audio':
+            this.handleAudioDelta(event.payload, event.itemId);
+            break;
+        case 'caller_speech_started':
+            this.callState.callerSpeaking = true;
+            this.callState.lastCallerSpeechTimestamp = this.callState.latestMediaTimestamp;
+            this.onTruncateResponse();
+            break;
+        case 'caller_speech_stopped':
+            this.callState.callerSpeaking = false;
+            this.callState.lastCallerSpeechTimestamp = this.callState.latestMediaTimestamp;
+            break;
+        case 'response_created':
+            this.callState.responseActive = true;
+            break;
+        case 'session_created':
+            if (event.model) {
+                this.callState.realtimeModel = event.model;
+            }
+            break;
+        case 'response_done':
+            this.callState.responseActive = false;
+            this.recordUsage(event.response);
+            this.onResponseDone(event.response);
+            break;
+        case 'function_call':
+            this.handleFunctionCall(event.name, event.arguments, event.callId);
+            break;
+        case 'error':
+            console.error('Realtime backend error:', event.message);
+            break;
+        }
+    }
+
+    /**
+     * Handle a transcription completed event
+     * @param transcription The transcription text
+     */
+    private handleTranscriptionCompleted(transcription: string): void {
+        if (!transcription) {
+            return;
+        }
+
+        this.callState.conversationHistory.push({
+            role: 'user',
+            content: transcription
+        });
+
+        // Save to database
+        if (this.callState.callSid) {
+            callPersistenceService.addMessage(this.callState.callSid, 'user', transcription)
+                .catch(err => console.error('Failed to save user message:', err));
+        }
+
+        if (this.isGoodbyeDetectionActive() && checkForGoodbye(transcription)) {
+            this.onEndCall();
+        }
+    }
+
+    /**
+     * Handle an audio transcript done event
+     * @param transcript The transcript text
+     */
+    private handleAudioTranscriptDone(transcript: string): void {
+        if (!transcript) {
+            return;
+        }
+
+        this.callState.conversationHistory.push({
+            role: 'assistant',
+            content: transcript
+        });
+
+        // Save to database
+        if (this.callState.callSid) {
+            callPersistenceService.addMessage(this.callState.callSid, 'assistant', transcript)
+                .catch(err => console.error('Failed to save assistant message:', err));
+        }
+
+        // End call if assistant says goodbye
+        if (this.isGoodbyeDetectionActive() && checkForGoodbye(transcript)) {
+            this.onEndCall();
+        }
+    }
+
+    /**
+     * Meter the tokens of a finished response
+     * @param response The finished response
+     */
+    private recordUsage(response: RealtimeResponse): void {
+        if (!response?.usage || !this.callState.callSid) {
+            return;
+        }
+
+        usageService.recordResponseUsage(this.callState.callSid, this.callState.realtimeModel, response.usage)
+            .catch(err => console.error('Failed to record response usage:', err));
+    }
+
+    /**
+     * Handle a completed function call from the model
+     * @param name The function name
+     * @param rawArgs The arguments, JSON encoded
+     * @param callId The ID of the function call
+     */
+    private handleFunctionCall(name: string, rawArgs: string, callId: string): void {
+        let args: any = {};
+        try {
+            args = rawArgs ? JSON.parse(rawArgs) : {};
+        } catch (error) {
+            console.error(`Invalid arguments for function ${name}:`, error);
+        }
+
+        this.onFunctionCall(name, args, callId);
+    }
+
+    /**
+     * Keyword goodbye detection is a per-call fallback to the end_call function.
+     * Goodbye phrases are also ignored while a voicemail greeting may be playing
+     * ("leave a message after the tone") and while leaving a voicemail, which
+     * hangs up once the message has finished playing instead.
+     */
+    private isGoodbyeDetectionActive(): boolean {
+        return this.callState.keywordHangup
+            && !this.callState.awaitingMachineDetection
+            && !this.callState.voicemailMode
+            && !this.callState.pendingHangup;
+    }
+
+    /**
+     * Handle a chunk of the agent's audio
+     * @param payload The audio, base64 encoded
+     * @param itemId The conversation item it belongs to
+     */
+    private handleAudioDelta(payload: string, itemId: string | null): void {
+        this.onSendAudioToTwilio(payload);
+
+        // Track when Twilio will have finished playing the agent's audio (μ-law, one byte per sample)
+        const durationMs = Buffer.from(payload, 'base64').length / SAMPLES_PER_MS;
+        this.callState.agentAudioEndTimestamp = Math.max(this.callState.agentAudioEndTimestamp, this.callState.latestMediaTimestamp) + durationMs;
+
+        if (!this.callState.responseStartTimestampTwilio) {
+            this.callState.responseStartTimestampTwilio = this.callState.latestMediaTimestamp;
+            if (SHOW_TIMING_MATH) {
+                // console.log(`Setting start timestamp for new response: ${this.callState.responseStartTimestampTwilio}ms`);
+            }
+        }
+
+        if (itemId) {
+            this.callState.lastAssistantItemId = itemId;
+        }
+    }
+}
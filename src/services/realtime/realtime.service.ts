@@ -0,0 +1,54 @@
+import { CallState, RealtimeBackendName } from '../../types.js';
+import { OpenAIWsService } from '../openai/ws.service.js';
+import { OpenAIGAWsService } from '../openai/ga-ws.service.js';
+import { AzureOpenAIWsService } from '../azure/ws.service.js';
+import { PipelineVoiceBackend } from '../pipeline/pipeline.service.js';
+import { RealtimeVoiceBackend } from './backend.js';
+
+/**
+ * Creates the conversation engine a call's agent runs on. REALTIME_BACKEND picks the
+ * one used when a call does not choose.
+ */
+export class RealtimeService {
+    /**
+     * Create a backend for one call
+     * @param callState The call's state; the pipeline builds its replies from its conversation history
+     * @param name The backend, or undefined for the default
+     */
+    create(callState: CallState, name?: RealtimeBackendName | string | null): RealtimeVoiceBackend {
+        switch (name || this.getDefaultName()) {
+        case RealtimeBackendName.OPENAI_GA:
+            return new OpenAIGAWsService();
+        case RealtimeBackendName.AZURE_OPENAI:
+            return new AzureOpenAIWsService();
+        case RealtimeBackendName.PIPELINE:
+            return new PipelineVoiceBackend(callState);
+        default:
+            return new OpenAIWsService();
+        }
+    }
+
+    /**
+     * Check that a backend can be used on this server
+     * @param name The backend, or undefined for the default
+     * @throws Error if it is unknown or not configured
+     */
+    assertAvailable(name?: RealtimeBackendName | string | null): void {
+        const backendName = name || this.getDefaultName();
+        if (!Object.values(RealtimeBackendName).includes(backendName as RealtimeBackendName)) {
+            throw new Error(`Unknown realtime backend: ${backendName}`);
+        }
+
+        if (backendName === RealtimeBackendName.AZURE_OPENAI
+            && !(process.env.AZURE_OPENAI_ENDPOINT && process.env.AZURE_OPENAI_API_KEY && process.env.AZURE_OPENAI_DEPLOYMENT)) {
+            throw new Error('Azure OpenAI is not configured on this server');
+        }
+    }
+
+    getDefaultName(): RealtimeBackendName {
+        return (process.env.REALTIME_BACKEND as RealtimeBackendName | undefined) || RealtimeBackendName.OPENAI;
+    }
+}
+
+// Singleton instance for use by the call dispatcher and call handler
+export const realtimeService = new RealtimeService();
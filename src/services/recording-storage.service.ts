@@ -0,0 +1,127 @@
+import { createReadStream } from 'fs';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+
+/**
+ * Where locally captured call audio is kept
+ */
+export interface RecordingStorage {
+    /**
+     * Store a file
+     * @param key Storage key, e.g. "CA123.wav"
+     * @param data File contents
+     * @param contentType MIME type of the file
+     */
+    save(key: string, data: Buffer, contentType: string): Promise<void>;
+
+    /**
+     * Open a stored file for reading
+     */
+    open(key: string): Promise<Readable>;
+}
+
+/**
+ * Stores recordings as files in a local directory
+ */
+export class LocalDiskStorage implements RecordingStorage {
+    private readonly directory: string;
+
+    constructor(directory: string) {
+        this.directory = path.resolve(directory);
+    }
+
+    public async save(key: string, data: Buffer): Promise<void> {
+        await mkdir(this.directory, { recursive: true });
+        await writeFile(this.resolve(key), data);
+    }
+
+    public async open(key: string): Promise<Readable> {
+        return createReadStream(this.resolve(key));
+    }
+
+    private resolve(key: string): string {
+        // Keys are generated by us, but never let one escape the directory
+        return path.join(this.directory, path.basename(key));
+    }
+}
+
+/**
+ * Stores recordings in an S3 bucket or an S3-compatible store (MinIO, R2, ...)
+ */
+export class S3Storage implements RecordingStorage {
+    private readonly client: S3Client;
+    private readonly bucket: string;
+    private readonly prefix: string;
+
+    constructor(client: S3Client, bucket: string, prefix = '') {
+        this.client = client;
+        this.bucket = bucket;
+        this.prefix = prefix;
+    }
+
+    public async save(key: string, data: Buffer, contentType: string): Promise<void> {
+        await this.client.send(new PutObjectCommand({
+            Bucket: this.bucket,
+            Key: `${this.prefix}${key}`,
+            Body: data,
+            ContentType: contentType
+        }));
+    }
+
+    public async open(key: string): Promise<Readable> {
+        const result = await this.client.send(new GetObjectCommand({
+            Bucket: this.bucket,
+            Key: `${this.prefix}${key}`
+        }));
+
+        if (!result.Body) {
+            throw new Error(`Recording ${key} not found in storage`);
+        }
+
+        return result.Body as Readable;
+    }
+}
+
+/**
+ * Create the storage configured by RECORDING_STORAGE ('local' or 's3'),
+ * or null if local capture is disabled
+ */
+export function createRecordingStorage(): RecordingStorage | null {
+    switch (process.env.RECORDING_STORAGE) {
+    case 'local':
+        return new LocalDiskStorage(process.env.RECORDING_DIR || './recordings');
+    case 's3': {
+        if (!process.env.S3_BUCKET) {
+            throw new Error('S3_BUCKET is required when RECORDING_STORAGE=s3');
+        }
+
+        const client = new S3Client({
+            region: process.env.S3_REGION || 'us-east-1',
+            endpoint: process.env.S3_ENDPOINT || undefined,
+            forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+            credentials: process.env.S3_ACCESS_KEY_ID ? {
+                accessKeyId: process.env.S3_ACCESS_KEY_ID,
+                secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || ''
+            } : undefined
+        });
+
+        return new S3Storage(client, process.env.S3_BUCKET, process.env.S3_PREFIX || 'recordings/');
+    }
+    default:
+        return null;
+    }
+}
+
+let recordingStorage: RecordingStorage | null | undefined;
+
+/**
+ * Get the configured storage, created on first use once the environment is loaded
+ */
+export function getRecordingStorage(): RecordingStorage | null {
+    if (recordingStorage === undefined) {
+        recordingStorage = createRecordingStorage();
+    }
+    return recordingStorage;
+}
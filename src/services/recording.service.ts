@@ -0,0 +1,201 @@
+import { Readable } from 'stream';
+import { CallRecording } from '@prisma/client';
+import { prisma } from './db.service.js';
+import { callPersistenceService } from './call-persistence.service.js';
+import { getRecordingStorage } from './recording-storage.service.js';
+import { CallAudioCapture } from './audio-capture.service.js';
+import { credentialService } from './credential.service.js';
+
+export type RecordingFormat = 'mp3' | 'wav';
+
+const TWILIO_ACCOUNT_IN_URL = /\/Accounts\/(AC\w+)\//;
+
+/**
+ * Parameters posted by Twilio to a recording status callback
+ */
+export interface TwilioRecordingCallback {
+    CallSid: string;
+    RecordingSid: string;
+    RecordingStatus: string;
+    RecordingUrl?: string;
+    RecordingDuration?: string;
+    RecordingChannels?: string;
+    ErrorCode?: string;
+}
+
+export interface RecordingAudio {
+    contentType: string;
+    contentLength: string | null;
+    body: Readable;
+}
+
+const CONTENT_TYPES: Record<RecordingFormat, string> = {
+    mp3: 'audio/mpeg',
+    wav: 'audio/wav',
+};
+
+/**
+ * Service for storing call recordings and serving their audio to call owners
+ */
+export class RecordingService {
+    /**
+     * Whether recorded calls should also be captured from the media stream
+     */
+    isCaptureEnabled(): boolean {
+        return getRecordingStorage() !== null;
+    }
+
+    /**
+     * Store a stereo capture of a call's media stream
+     * @param callSid The call SID
+     * @param capture The audio captured during the call
+     */
+    async saveCapture(callSid: string, capture: CallAudioCapture): Promise<CallRecording | null> {
+        const storage = getRecordingStorage();
+        const call = await callPersistenceService.findCall(callSid);
+        if (!storage || !call || !capture.hasAudio()) {
+            return null;
+        }
+
+        const storageKey = `${callSid}.wav`;
+        await storage.save(storageKey, capture.toWav(), CONTENT_TYPES.wav);
+
+        console.error(`Captured recording saved for call ${callSid}`);
+        return prisma.callRecording.upsert({
+            where: { recordingSid: `capture-${callSid}` },
+            create: {
+                callId: call.id,
+                recordingSid: `capture-${callSid}`,
+                source: 'capture',
+                status: 'completed',
+                storageKey,
+                durationSeconds: capture.getDurationSeconds(),
+                channels: 2
+            },
+            update: {
+                storageKey,
+                durationSeconds: capture.getDurationSeconds()
+            }
+        });
+    }
+
+    /**
+     * Save or update a recording from a Twilio recording status callback
+     * @param callback The callback parameters
+     */
+    async handleRecordingCallback(callback: TwilioRecordingCallback): Promise<CallRecording | null> {
+        const call = await callPersistenceService.findCall(callback.CallSid);
+        if (!call) {
+            console.error(`Recording ${callback.RecordingSid} is for unknown call ${callback.CallSid}`);
+            return null;
+        }
+
+        const status = callback.ErrorCode && callback.ErrorCode !== '0' ? 'failed' : callback.RecordingStatus;
+        const details = {
+            status,
+            url: callback.RecordingUrl || null,
+            durationSeconds: callback.RecordingDuration ? parseInt(callback.RecordingDuration, 10) : null,
+            channels: callback.RecordingChannels ? parseInt(callback.RecordingChannels, 10) : null
+        };
+
+        console.error(`Recording ${callback.RecordingSid} for call ${callback.CallSid}: ${status}`);
+        return prisma.callRecording.upsert({
+            where: { recordingSid: callback.RecordingSid },
+            create: {
+                callId: call.id,
+                recordingSid: callback.RecordingSid,
+                ...details
+            },
+            update: details
+        });
+    }
+
+    /**
+     * Get the recordings of a call (with ownership check)
+     * @returns null if the call does not exist or belongs to another user
+     */
+    async getRecordings(callSid: string, userId: string): Promise<CallRecording[] | null> {
+        const call = await callPersistenceService.getOwnedCall(callSid, userId);
+        if (!call) {
+            return null;
+        }
+
+        return prisma.callRecording.findMany({
+            where: { callId: call.id },
+            orderBy: { createdAt: 'asc' }
+        });
+    }
+
+    /**
+     * Get a recording by SID (with ownership check)
+     */
+    async getOwnedRecording(recordingSid: string, userId: string): Promise<CallRecording | null> {
+        const recording = await prisma.callRecording.findUnique({
+            where: { recordingSid },
+            include: { call: true }
+        });
+
+        if (!recording) {
+            return null;
+        }
+
+        // Check ownership
+        if (recording.call.userId !== userId) {
+            console.error(`User ${userId} attempted to access recording ${recordingSid} owned by ${recording.call.userId}`);
+            return null;
+        }
+
+        return recording;
+    }
+
+    /**
+     * Open a stream of a completed recording's audio, from Twilio or recording storage
+     * @throws Error if the recording is not available in the format
+     */
+    async openAudio(recording: CallRecording, format: RecordingFormat): Promise<RecordingAudio> {
+        if (recording.source === 'capture') {
+            const storage = getRecordingStorage();
+            if (!storage || !recording.storageKey) {
+                throw new Error('Recording storage is not configured');
+            }
+            if (format !== 'wav') {
+                throw new Error('Captured recordings are only available as wav');
+            }
+
+            return {
+                contentType: CONTENT_TYPES.wav,
+                contentLength: null,
+                body: await storage.open(recording.storageKey)
+            };
+        }
+
+        if (recording.status !== 'completed' || !recording.url) {
+            throw new Error(`Recording is not available (${recording.status})`);
+        }
+
+        // Recordings of calls on users' own Twilio accounts need those accounts' credentials
+        const accountSid = TWILIO_ACCOUNT_IN_URL.exec(recording.url)?.[1] || process.env.TWILIO_ACCOUNT_SID || '';
+        const authToken = await credentialService.getTwilioAuthToken(accountSid);
+        if (!authToken) {
+            throw new Error(`No credentials for Twilio account ${accountSid}`);
+        }
+        const credentials = Buffer.from(`${accountSid}:${authToken}`).toString('base64');
+
+        const response = await fetch(`${recording.url}.${format}`, {
+            headers: { Authorization: `Basic ${credentials}` }
+        });
+
+        if (!response.ok || !response.body) {
+            throw new Error(`Failed to fetch recording ${recording.recordingSid}: HTTP ${response.status}`);
+        }
+
+        return {
+            contentType: CONTENT_TYPES[format],
+            contentLength: response.headers.get('content-length'),
+            body: Readable.fromWeb(response.body as any)
+        };
+    }
+}
+
+// Singleton instance for use by the voice and web servers
+export const recordingService = new RecordingService();
@@ -0,0 +1,189 @@
+import { Prisma, ScheduledCall, ScheduledCallAttempt } from '@prisma/client';
+import { prisma } from './db.service.js';
+import { CallDispatchService } from './call-dispatch.service.js';
+import { DestinationRejectedError, destinationPolicyService } from './destination-policy.service.js';
+import { OutsideCallingHoursError, UnknownTimeZoneError } from './calling-hours.service.js';
+import { CallRequest, ScheduledCallStatus } from '../types.js';
+import {
+    MAX_SCHEDULED_DIAL_ATTEMPTS,
+    SCHEDULED_CLAIM_TIMEOUT_MS,
+    SCHEDULED_DIAL_RETRY_DELAY_MS,
+    SCHEDULER_BATCH_SIZE
+} from '../config/constants.js';
+
+export type ScheduledCallWithAttempts = ScheduledCall & { attempts: ScheduledCallAttempt[] };
+
+/**
+ * Service for storing outbound calls to be placed later and dialling them when due
+ */
+export class ScheduledCallService {
+    /**
+     * Store a call to be placed at a later time
+     * @param userId The user the call is placed for
+     * @param request The call request
+     * @param scheduledFor When to dial
+     * @param timezone Time zone the time was given in (kept for display)
+     */
+    async schedule(userId: string, request: CallRequest, scheduledFor: Date, timezone?: string): Promise<ScheduledCall> {
+        // Refuse disallowed numbers now; the policy is checked again when the call is dialled
+        const toNumber = await destinationPolicyService.assertAllowed(userId, request.toNumber);
+
+        const scheduledCall = await prisma.scheduledCall.create({
+            data: {
+                userId,
+                toNumber,
+                request: { ...request, toNumber } as unknown as Prisma.InputJsonValue,
+                scheduledFor,
+                timezone: timezone || null
+            }
+        });
+
+        console.error(`Scheduled call ${scheduledCall.id} to ${toNumber} for ${scheduledFor.toISOString()}`);
+        return scheduledCall;
+    }
+
+    /**
+     * List a user's scheduled calls with their dial attempts, soonest first
+     */
+    async list(userId: string, status?: ScheduledCallStatus): Promise<ScheduledCallWithAttempts[]> {
+        return prisma.scheduledCall.findMany({
+            where: { userId, ...(status ? { status } : {}) },
+            include: {
+                attempts: {
+                    orderBy: { attemptedAt: 'asc' }
+                }
+            },
+            orderBy: { scheduledFor: 'asc' }
+        });
+    }
+
+    /**
+     * Cancel a scheduled call that has not been dialled yet (with ownership check)
+     * @returns false if the job does not exist, belongs to another user or was already picked up
+     */
+    async cancel(userId: string, id: string): Promise<boolean> {
+        const result = await prisma.scheduledCall.updateMany({
+            where: { id, userId, status: ScheduledCallStatus.PENDING },
+            data: { status: ScheduledCallStatus.CANCELLED }
+        });
+
+        return result.count > 0;
+    }
+
+    /**
+     * Dial every scheduled call that is due. Jobs are claimed with
+     * FOR UPDATE SKIP LOCKED so concurrent replicas never dial the same job.
+     * @param dispatcher Places the calls
+     */
+    async processDueCalls(dispatcher: CallDispatchService): Promise<void> {
+        await this.failStaleClaims();
+
+        const claimed = await prisma.$queryRaw<{ id: string }[]>`
+            UPDATE "scheduled_calls"
+            SET "status" = ${ScheduledCallStatus.DIALING}, "claimed_at" = NOW(), "updated_at" = NOW()
+            WHERE "id" IN (
+                SELECT "id" FROM "scheduled_calls"
+                WHERE "status" = ${ScheduledCallStatus.PENDING} AND "scheduled_for" <= NOW()
+                ORDER BY "scheduled_for"
+                LIMIT ${SCHEDULER_BATCH_SIZE}
+                FOR UPDATE SKIP LOCKED
+            )
+            RETURNING "id"
+        `;
+
+        for (const { id } of claimed) {
+            await this.dial(id, dispatcher);
+        }
+    }
+
+    /**
+     * Dial a claimed job and record the attempt. Failed dials are retried
+     * a few times before the job is marked as failed.
+     */
+    private async dial(id: string, dispatcher: CallDispatchService): Promise<void> {
+        const scheduledCall = await prisma.scheduledCall.findUnique({
+            where: { id },
+            include: { attempts: true }
+        });
+
+        if (!scheduledCall) {
+            return;
+        }
+
+        try {
+            const request = scheduledCall.request as unknown as CallRequest;
+            const { call } = await dispatcher.dial(scheduledCall.userId, request);
+
+            await prisma.$transaction([
+                prisma.scheduledCallAttempt.create({
+                    data: { scheduledCallId: id, callSid: call.callSid, status: 'dialed' }
+                }),
+                prisma.scheduledCall.update({
+                    where: { id },
+                    data: { status: ScheduledCallStatus.DIALED, callSid: call.callSid, lastError: null }
+                })
+            ]);
+
+            console.error(`Scheduled call ${id} dialled as ${call.callSid}`);
+        } catch (error: any) {
+            // Not an attempt: wait until the recipient's calling hours start
+            if (error instanceof OutsideCallingHoursError && error.check.nextAllowedAt) {
+                await prisma.scheduledCall.update({
+                    where: { id },
+                    data: { status: ScheduledCallStatus.PENDING, scheduledFor: error.check.nextAllowedAt, lastError: error.message }
+                });
+                console.error(`Scheduled call ${id} is outside the recipient's calling hours, deferred to ${error.check.nextAllowedAt.toISOString()}`);
+                return;
+            }
+
+            const attemptCount = scheduledCall.attempts.length + 1;
+            // A refused destination or an unknown time zone won't change by trying again
+            const retry = attemptCount < MAX_SCHEDULED_DIAL_ATTEMPTS
+                && !(error instanceof DestinationRejectedError)
+                && !(error instanceof OutsideCallingHoursError)
+                && !(error instanceof UnknownTimeZoneError);
+
+            await prisma.$transaction([
+                prisma.scheduledCallAttempt.create({
+                    data: { scheduledCallId: id, status: 'error', error: error.message }
+                }),
+                prisma.scheduledCall.update({
+                    where: { id },
+                    data: retry
+                        ? {
+                            status: ScheduledCallStatus.PENDING,
+                            scheduledFor: new Date(Date.now() + SCHEDULED_DIAL_RETRY_DELAY_MS),
+                            lastError: error.message
+                        }
+                        : { status: ScheduledCallStatus.FAILED, lastError: error.message }
+                })
+            ]);
+
+            console.error(`Scheduled call ${id} attempt ${attemptCount} failed${retry ? ', will retry' : ''}:`, error.message);
+        }
+    }
+
+    /**
+     * Jobs left in 'dialing' by a replica that stopped mid-dial may or may not have
+     * been placed, so fail them rather than risk calling someone twice
+     */
+    private async failStaleClaims(): Promise<void> {
+        const result = await prisma.scheduledCall.updateMany({
+            where: {
+                status: ScheduledCallStatus.DIALING,
+                claimedAt: { lt: new Date(Date.now() - SCHEDULED_CLAIM_TIMEOUT_MS) }
+            },
+            data: {
+                status: ScheduledCallStatus.FAILED,
+                lastError: 'Scheduler stopped while dialing; the call may not have been placed'
+            }
+        });
+
+        if (result.count > 0) {
+            console.error(`Marked ${result.count} stale scheduled call(s) as failed`);
+        }
+    }
+}
+
+// Singleton instance for use by the web server and scheduler
+export const scheduledCallService = new ScheduledCallService();
@@ -1,24 +1,23 @@
 import { WebSocket } from 'ws';
-import twilio from 'twilio';
 import { CallType } from '../types.js';
 import { OpenAIContextService } from './openai/context.service.js';
 import { OpenAICallHandler } from '../handlers/openai.handler.js';
+import { TelephonyProvider } from './telephony/provider.js';
 
 /**
  * Manages multiple concurrent call sessions
  */
 export class SessionManagerService {
     private readonly activeSessions: Map<string, OpenAICallHandler>;
-    private readonly twilioClient: twilio.Twilio;
+    private readonly sessionsByCallSid: Map<string, OpenAICallHandler>;
     private readonly contextService: OpenAIContextService;
 
     /**
      * Create a new session manager
-     * @param twilioConfig Configuration for the Twilio client
      */
-    constructor(twilioClient: twilio.Twilio) {
+    constructor() {
         this.activeSessions = new Map();
-        this.twilioClient = twilioClient;
+        this.sessionsByCallSid = new Map();
         this.contextService = new OpenAIContextService();
     }
 
@@ -26,20 +25,43 @@ export class SessionManagerService {
      * Creates a new call session and adds it to the active sessions
      * @param ws The WebSocket connection
      * @param callType The type of call
+     * @param provider The carrier that opened the media stream. Each session resolves
+     * its owner's credentials per call and may switch to their carrier account.
      */
-    public createSession(ws: WebSocket, callType: CallType): void {
-        const handler = new OpenAICallHandler(ws, callType, this.twilioClient, this.contextService);
-        this.registerSessionCleanup(ws);
+    public createSession(ws: WebSocket, callType: CallType, provider: TelephonyProvider): void {
+        const handler = new OpenAICallHandler(
+            ws,
+            callType,
+            provider,
+            this.contextService,
+            (callSid) => this.sessionsByCallSid.set(callSid, handler)
+        );
+        this.registerSessionCleanup(ws, handler);
         this.addSession(ws, handler);
     }
 
+    /**
+     * Get the live session handling a call
+     * @param callSid The Twilio call SID
+     * @returns The call handler, or undefined if the call is not active on this server
+     */
+    public getSessionByCallSid(callSid: string): OpenAICallHandler | undefined {
+        return this.sessionsByCallSid.get(callSid);
+    }
+
     /**
      * Register cleanup for a session
      * @param ws The WebSocket connection
+     * @param handler The OpenAI call handler
      */
-    private registerSessionCleanup(ws: WebSocket): void {
+    private registerSessionCleanup(ws: WebSocket, handler: OpenAICallHandler): void {
         ws.on('close', () => {
             this.removeSession(ws);
+
+            const callSid = handler.getCallSid();
+            if (callSid && this.sessionsByCallSid.get(callSid) === handler) {
+                this.sessionsByCallSid.delete(callSid);
+            }
         });
     }
 
@@ -72,14 +94,6 @@ export class SessionManagerService {
         return ws.url || ws.toString();
     }
 
-    /**
-     * Get the Twilio client
-     * @returns The Twilio client
-     */
-    public getTwilioClient(): twilio.Twilio {
-        return this.twilioClient;
-    }
-
     /**
      * Get the context service
      * @returns The context service
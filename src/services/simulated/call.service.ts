@@ -0,0 +1,351 @@
+import { randomBytes } from 'crypto';
+import { WebSocket } from 'ws';
+import { SIMULATED_DIAL_DELAY_MS, SIMULATED_RING_TIMEOUT_MS } from '../../config/constants.js';
+import { CallState, CallStatus, MakeCallOptions, TelephonyProviderName } from '../../types.js';
+import { callStatusService } from '../call-status.service.js';
+import { DialedCall, TelephonyProvider } from '../telephony/provider.js';
+import { SimulatedWsService } from './ws.service.js';
+
+// μ-law at 8 kHz: one byte per sample
+const MULAW_BYTES_PER_MS = 8;
+
+/**
+ * A softphone connected to the simulator, taking calls to one number or to any number
+ */
+interface SimulatedPhone {
+    number: string | null;
+    socket: WebSocket;
+}
+
+interface SimulatedCall {
+    callSid: string;
+    fromNumber: string;
+    toNumber: string;
+    callContext: string;
+    phone: SimulatedPhone | null;
+    // The media stream to the voice server, once answered
+    media: WebSocket | null;
+    answeredAt: number | null;
+    ringTimer: NodeJS.Timeout | null;
+    // When the agent audio sent so far will have played on the phone
+    playbackEndsAt: number;
+    markTimers: NodeJS.Timeout[];
+    // Status events are applied one after another, as they happened
+    statusUpdates: Promise<unknown>;
+}
+
+/**
+ * Telephony provider that places fake calls without a phone carrier. Softphones (any
+ * WebSocket client) connect to the voice server's simulator endpoint; calls to their
+ * number ring them, and once answered the provider streams the call's audio to the
+ * voice server the way a carrier would.
+ *
+ * Softphones receive ringing, audio, hangup and cancelled events and send answer,
+ * reject, audio and hangup events, each with the callSid. Audio is μ-law 8 kHz, base64 encoded.
+ */
+export class SimulatedCallService implements TelephonyProvider {
+    public readonly name = TelephonyProviderName.SIMULATED;
+    public readonly supportsMachineDetection = false;
+    private readonly fromNumber: string;
+    private readonly mediaUrl: string;
+    private readonly phones = new Set<SimulatedPhone>();
+    private readonly calls = new Map<string, SimulatedCall>();
+
+    /**
+     * @param fromNumber The number simulated calls are placed from by default
+     * @param mediaUrl The voice server's WebSocket endpoint for simulated media streams
+     */
+    constructor(fromNumber: string, mediaUrl: string) {
+        this.fromNumber = fromNumber;
+        this.mediaUrl = mediaUrl;
+    }
+
+    public getFromNumber(): string {
+        return this.fromNumber;
+    }
+
+    /**
+     * Simulated calls don't use carrier accounts, so every user shares this provider
+     */
+    public async forUser(): Promise<SimulatedCallService> {
+        return this;
+    }
+
+    /**
+     * Connect a softphone
+     * @param socket The softphone's WebSocket connection
+     * @param number The number it answers, or null to answer calls to any number
+     */
+    public connectPhone(socket: WebSocket, number: string | null): void {
+        const phone: SimulatedPhone = { number, socket };
+        this.phones.add(phone);
+        console.error(`Simulated phone connected for ${number ?? 'any number'}`);
+
+        socket.on('message', (message: Buffer | string) => this.handlePhoneMessage(phone, message));
+        socket.on('close', () => {
+            this.phones.delete(phone);
+            for (const call of this.calls.values()) {
+                if (call.phone === phone) {
+                    this.finish(call, call.answeredAt ? CallStatus.COMPLETED : CallStatus.NO_ANSWER);
+                }
+            }
+        });
+
+        this.sendToPhone(phone, { event: 'registered', number });
+    }
+
+    public async makeCall(toNumber: string, callContext = '', options: MakeCallOptions = {}): Promise<DialedCall> {
+        const call: SimulatedCall = {
+            callSid: `SIM${randomBytes(16).toString('hex')}`,
+            fromNumber: options.fromNumber || this.fromNumber,
+            toNumber,
+            callContext,
+            phone: this.findPhone(toNumber),
+            media: null,
+            answeredAt: null,
+            ringTimer: null,
+            playbackEndsAt: 0,
+            markTimers: [],
+            statusUpdates: Promise.resolve()
+        };
+        this.calls.set(call.callSid, call);
+
+        // Ring once the caller has recorded the call, as a carrier's first callbacks arrive later
+        setTimeout(() => this.ring(call), SIMULATED_DIAL_DELAY_MS);
+
+        return { callSid: call.callSid, status: CallStatus.PENDING, providerStatus: 'queued' };
+    }
+
+    public async endCall(callSid: string): Promise<void> {
+        const call = this.calls.get(callSid);
+        if (call) {
+            this.finish(call, call.answeredAt ? CallStatus.COMPLETED : CallStatus.CANCELLED);
+        }
+    }
+
+    public async cancelCall(callSid: string): Promise<string> {
+        const call = this.calls.get(callSid);
+        if (!call) {
+            throw new Error(`Simulated call ${callSid} is not active`);
+        }
+        if (call.answeredAt) {
+            throw new Error('Call cannot be cancelled because it is in-progress');
+        }
+
+        this.finish(call, CallStatus.CANCELLED);
+        return 'canceled';
+    }
+
+    /**
+     * Simulated calls are not recorded by the carrier; captured audio is still stored
+     * when recording storage is configured
+     */
+    public async startRecording(callSid: string): Promise<void> {
+        console.error(`Simulated call ${callSid} cannot be recorded by the carrier`);
+    }
+
+    public createMediaStream(webSocket: WebSocket, callState: CallState): SimulatedWsService {
+        return new SimulatedWsService(webSocket, callState);
+    }
+
+    /**
+     * A phone for the number, preferring one registered for it over one answering any number
+     */
+    private findPhone(toNumber: string): SimulatedPhone | null {
+        const phones = [...this.phones];
+        return phones.find(p => p.number === toNumber) ?? phones.find(p => p.number === null) ?? null;
+    }
+
+    /**
+     * Whether the phone is ringing for or connected to another call
+     */
+    private isBusy(phone: SimulatedPhone, callSid: string): boolean {
+        return [...this.calls.values()].some(c => c.phone === phone && c.callSid !== callSid && (c.ringTimer || c.answeredAt));
+    }
+
+    private ring(call: SimulatedCall): void {
+        if (!this.calls.has(call.callSid)) {
+            return;
+        }
+
+        this.report(call, CallStatus.INITIATED);
+
+        if (!call.phone) {
+            console.error(`No simulated phone is connected for ${call.toNumber}`);
+            this.finish(call, CallStatus.FAILED);
+            return;
+        }
+        if (this.isBusy(call.phone, call.callSid)) {
+            this.finish(call, CallStatus.BUSY);
+            return;
+        }
+
+        this.sendToPhone(call.phone, {
+            event: 'ringing',
+            callSid: call.callSid,
+            fromNumber: call.fromNumber,
+            toNumber: call.toNumber
+        });
+        this.report(call, CallStatus.RINGING);
+        call.ringTimer = setTimeout(() => this.finish(call, CallStatus.NO_ANSWER), SIMULATED_RING_TIMEOUT_MS);
+    }
+
+    private handlePhoneMessage(phone: SimulatedPhone, message: Buffer | string): void {
+        let data: any;
+        try {
+            data = JSON.parse(message.toString());
+        } catch (error) {
+            console.error('Error parsing simulated phone message:', error);
+            return;
+        }
+
+        const call = this.calls.get(data.callSid);
+        if (!call || call.phone !== phone) {
+            return;
+        }
+
+        switch (data.event) {
+        case 'answer':
+            this.answer(call);
+            break;
+        case 'reject':
+            this.finish(call, CallStatus.BUSY);
+            break;
+        case 'audio':
+            this.sendToMedia(call, { event: 'audio', timestamp: this.getTimestamp(call), payload: data.payload });
+            break;
+        case 'hangup':
+            this.finish(call, call.answeredAt ? CallStatus.COMPLETED : CallStatus.CANCELLED);
+            break;
+        default:
+            console.error('Received unknown simulated phone event:', data.event);
+            break;
+        }
+    }
+
+    /**
+     * Connect an answered call to the voice server
+     */
+    private answer(call: SimulatedCall): void {
+        if (call.answeredAt) {
+            return;
+        }
+
+        if (call.ringTimer) {
+            clearTimeout(call.ringTimer);
+            call.ringTimer = null;
+        }
+        call.answeredAt = Date.now();
+        this.report(call, CallStatus.IN_PROGRESS);
+
+        const media = new WebSocket(this.mediaUrl);
+        call.media = media;
+
+        media.on('open', () => {
+            this.sendToMedia(call, {
+                event: 'start',
+                callSid: call.callSid,
+                parameters: { fromNumber: call.fromNumber, toNumber: call.toNumber, callContext: call.callContext }
+            });
+        });
+        media.on('message', (message: Buffer | string) => this.handleMediaMessage(call, message));
+        media.on('close', () => this.finish(call, CallStatus.COMPLETED));
+        media.on('error', (error) => {
+            console.error(`Simulated media stream for call ${call.callSid} failed:`, error);
+            this.finish(call, CallStatus.FAILED);
+        });
+    }
+
+    /**
+     * Relay agent audio to the phone, and echo marks once the audio before them would have played
+     */
+    private handleMediaMessage(call: SimulatedCall, message: Buffer | string): void {
+        let data: any;
+        try {
+            data = JSON.parse(message.toString());
+        } catch (error) {
+            console.error('Error parsing simulated media message:', error);
+            return;
+        }
+
+        switch (data.event) {
+        case 'audio': {
+            const durationMs = Buffer.from(data.payload, 'base64').length / MULAW_BYTES_PER_MS;
+            call.playbackEndsAt = Math.max(call.playbackEndsAt, Date.now()) + durationMs;
+            if (call.phone) {
+                this.sendToPhone(call.phone, { event: 'audio', callSid: call.callSid, payload: data.payload });
+            }
+            break;
+        }
+        case 'mark': {
+            const timer = setTimeout(() => {
+                call.markTimers = call.markTimers.filter(t => t !== timer);
+                this.sendToMedia(call, { event: 'mark', name: data.name });
+            }, Math.max(call.playbackEndsAt - Date.now(), 0));
+            call.markTimers.push(timer);
+            break;
+        }
+        case 'clear':
+            this.clearPlayback(call);
+            if (call.phone) {
+                this.sendToPhone(call.phone, { event: 'clear', callSid: call.callSid });
+            }
+            break;
+        }
+    }
+
+    private clearPlayback(call: SimulatedCall): void {
+        call.markTimers.forEach(clearTimeout);
+        call.markTimers = [];
+        call.playbackEndsAt = Date.now();
+    }
+
+    /**
+     * End a call, telling the phone and the voice server, and report its final status
+     */
+    private finish(call: SimulatedCall, status: CallStatus): void {
+        if (!this.calls.delete(call.callSid)) {
+            return;
+        }
+
+        if (call.ringTimer) {
+            clearTimeout(call.ringTimer);
+        }
+        this.clearPlayback(call);
+
+        if (call.phone) {
+            this.sendToPhone(call.phone, { event: status === CallStatus.CANCELLED ? 'cancelled' : 'hangup', callSid: call.callSid });
+        }
+        if (call.media) {
+            this.sendToMedia(call, { event: 'stop' });
+            call.media.close();
+        }
+
+        this.report(call, status, call.answeredAt ? Math.round((Date.now() - call.answeredAt) / 1000) : undefined);
+    }
+
+    private report(call: SimulatedCall, status: CallStatus, durationSeconds?: number): void {
+        call.statusUpdates = call.statusUpdates
+            .then(() => callStatusService.handleStatusEvent({ callSid: call.callSid, status, providerStatus: status, durationSeconds }))
+            .catch(err => console.error('Failed to process simulated status event:', err));
+    }
+
+    /**
+     * Milliseconds since the call was answered, like a carrier's media timestamps
+     */
+    private getTimestamp(call: SimulatedCall): number {
+        return call.answeredAt ? Date.now() - call.answeredAt : 0;
+    }
+
+    private sendToPhone(phone: SimulatedPhone, event: object): void {
+        if (phone.socket.readyState === WebSocket.OPEN) {
+            phone.socket.send(JSON.stringify(event));
+        }
+    }
+
+    private sendToMedia(call: SimulatedCall, event: object): void {
+        if (call.media?.readyState === WebSocket.OPEN) {
+            call.media.send(JSON.stringify(event));
+        }
+    }
+}
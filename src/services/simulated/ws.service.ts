@@ -0,0 +1,93 @@
+import { WebSocket } from 'ws';
+import { CallState } from '../../types.js';
+import { MediaStream, MediaStreamEvent } from '../telephony/provider.js';
+
+/**
+ * Media stream of a simulated call, opened by the simulated carrier to the voice server.
+ * Messages are JSON: the carrier sends start, audio, mark and stop events and receives
+ * audio, mark and clear events.
+ */
+export class SimulatedWsService implements MediaStream {
+    private readonly webSocket: WebSocket;
+    private readonly callState: CallState;
+
+    /**
+     * @param webSocket The simulated carrier's WebSocket connection
+     * @param callState The state of the call
+     */
+    constructor(webSocket: WebSocket, callState: CallState) {
+        this.webSocket = webSocket;
+        this.callState = callState;
+    }
+
+    public close(): void {
+        if (this.webSocket.readyState === WebSocket.OPEN) {
+            this.webSocket.close();
+        }
+    }
+
+    public sendMark(name = 'responsePart'): void {
+        if (this.send({ event: 'mark', name })) {
+            this.callState.markQueue.push(name);
+        }
+    }
+
+    public sendAudio(payload: string): void {
+        this.send({ event: 'audio', payload });
+    }
+
+    public clearStream(): void {
+        this.send({ event: 'clear' });
+    }
+
+    public setupEventHandlers(
+        onEvent: (event: MediaStreamEvent) => Promise<void>,
+        onClose: () => void
+    ): void {
+        this.webSocket.on('message', async (message: Buffer | string) => {
+            const event = this.parseMessage(message);
+            if (event) {
+                await onEvent(event);
+            }
+        });
+        this.webSocket.on('close', onClose);
+    }
+
+    /**
+     * Send an event once the call has started
+     * @returns Whether the event was sent
+     */
+    private send(event: object): boolean {
+        if (!this.callState.callSid || this.webSocket.readyState !== WebSocket.OPEN) {
+            return false;
+        }
+
+        this.webSocket.send(JSON.stringify(event));
+        return true;
+    }
+
+    private parseMessage(message: Buffer | string): MediaStreamEvent | null {
+        let data: any;
+        try {
+            data = JSON.parse(message.toString());
+        } catch (error) {
+            console.error('Error parsing simulated media message:', error);
+            return null;
+        }
+
+        switch (data.event) {
+        case 'audio':
+            return { type: 'media', timestamp: Number(data.timestamp), payload: data.payload };
+        case 'start':
+            // The simulated carrier has one stream per call
+            return { type: 'start', callSid: data.callSid, streamSid: data.callSid, parameters: data.parameters || {} };
+        case 'mark':
+            return { type: 'mark', name: data.name || '' };
+        case 'stop':
+            return { type: 'stop' };
+        default:
+            console.error('Received unknown simulated media event:', data.event);
+            return null;
+        }
+    }
+}
@@ -0,0 +1,115 @@
+import { Team, TeamMember } from '@prisma/client';
+import { prisma } from './db.service.js';
+import { getUserByEmail } from './auth.service.js';
+import { TeamRole } from '../types.js';
+
+export type TeamWithMembers = Team & { members: (TeamMember & { user: { email: string } })[] };
+
+/**
+ * Service for teams: groups of users sharing caller IDs. The user who creates a
+ * team owns it and is the only one who can add members or caller IDs.
+ */
+export class TeamService {
+    /**
+     * Create a team owned by a user
+     */
+    async createTeam(userId: string, name: string): Promise<Team> {
+        return prisma.team.create({
+            data: {
+                name,
+                members: {
+                    create: { userId, role: TeamRole.OWNER }
+                }
+            }
+        });
+    }
+
+    /**
+     * Add a user to a team by email
+     * @throws Error if the user does not own the team or the email is unknown
+     */
+    async addMember(ownerId: string, teamId: string, email: string): Promise<TeamMember> {
+        await this.assertOwner(ownerId, teamId);
+
+        const member = await getUserByEmail(email);
+        if (!member) {
+            throw new Error('User not found');
+        }
+
+        return prisma.teamMember.upsert({
+            where: { teamId_userId: { teamId, userId: member.id } },
+            create: { teamId, userId: member.id, role: TeamRole.MEMBER },
+            update: {}
+        });
+    }
+
+    /**
+     * Remove a user from a team. Owners can remove anyone but themselves; members can leave.
+     */
+    async removeMember(userId: string, teamId: string, email: string): Promise<boolean> {
+        const member = await getUserByEmail(email);
+        if (!member) {
+            return false;
+        }
+
+        if (member.id !== userId) {
+            await this.assertOwner(userId, teamId);
+        } else if (await this.isOwner(userId, teamId)) {
+            throw new Error('Team owners cannot leave their team');
+        }
+
+        const result = await prisma.teamMember.deleteMany({
+            where: { teamId, userId: member.id }
+        });
+
+        return result.count > 0;
+    }
+
+    /**
+     * List the teams a user belongs to, with their members
+     */
+    async listTeams(userId: string): Promise<TeamWithMembers[]> {
+        return prisma.team.findMany({
+            where: { members: { some: { userId } } },
+            include: {
+                members: {
+                    include: { user: { select: { email: true } } },
+                    orderBy: { createdAt: 'asc' }
+                }
+            },
+            orderBy: { createdAt: 'asc' }
+        });
+    }
+
+    /**
+     * IDs of the teams a user belongs to
+     */
+    async getTeamIds(userId: string): Promise<string[]> {
+        const memberships = await prisma.teamMember.findMany({
+            where: { userId },
+            select: { teamId: true }
+        });
+
+        return memberships.map(m => m.teamId);
+    }
+
+    async isOwner(userId: string, teamId: string): Promise<boolean> {
+        const membership = await prisma.teamMember.findUnique({
+            where: { teamId_userId: { teamId, userId } }
+        });
+
+        return membership?.role === TeamRole.OWNER;
+    }
+
+    /**
+     * @throws Error if the user does not own the team
+     */
+    async assertOwner(userId: string, teamId: string): Promise<void> {
+        if (!(await this.isOwner(userId, teamId))) {
+            throw new Error('Team not found or you are not its owner');
+        }
+    }
+}
+
+// Singleton instance for use by the caller ID service and MCP tools
+export const teamService = new TeamService();
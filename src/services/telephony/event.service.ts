@@ -0,0 +1,229 @@
+import { CallState, CallStatus } from '../../types.js';
+import { OpenAIContextService } from '../openai/context.service.js';
+import {
+    CALL_LOOKUP_ATTEMPTS,
+    CALL_LOOKUP_RETRY_MS,
+    OUTCOME_EXTRACTION_DELAY_MS,
+    SHOW_TIMING_MATH
+} from '../../config/constants.js';
+import { MediaStreamEvent, TelephonyProvider } from './provider.js';
+import { callPersistenceService } from '../call-persistence.service.js';
+import { outcomeService } from '../outcome.service.js';
+import { functionToolService } from '../function-tool.service.js';
+import { callTimeoutService } from '../call-timeout.service.js';
+import { Call } from '@prisma/client';
+
+/**
+ * Service for processing media stream events, whichever carrier the call is on
+ */
+export class TelephonyEventService {
+    private readonly callState: CallState;
+    private readonly getTelephony: () => TelephonyProvider;
+    private readonly contextService: OpenAIContextService;
+    private readonly onCallLoaded: (userId: string) => Promise<boolean>;
+    private readonly onCallNotFound: () => void;
+    private readonly onForwardAudioToOpenAI: (payload: string) => void;
+    private readonly onCallStarted: () => void;
+    private readonly onMark: (name: string) => void;
+    private ended = false;
+
+    /**
+     * Create a new media stream event processor
+     * @param callState The state of the call
+     * @param getTelephony Returns the provider for the call's carrier account
+     * @param contextService The context service
+     * @param onCallLoaded Callback for when the call's owner is known, to resolve their credentials;
+     * resolves to false if the call cannot go on
+     * @param onCallNotFound Callback for when the stream matches no call, which must then be ended
+     * @param onForwardAudioToOpenAI Callback for forwarding audio to OpenAI
+     * @param onCallStarted Callback for when the call context has been set up
+     * @param onMark Callback for when the carrier has played audio up to a mark
+     */
+    constructor(
+        callState: CallState,
+        getTelephony: () => TelephonyProvider,
+        contextService: OpenAIContextService,
+        onCallLoaded: (userId: string) => Promise<boolean>,
+        onCallNotFound: () => void,
+        onForwardAudioToOpenAI: (payload: string) => void,
+        onCallStarted: () => void,
+        onMark: (name: string) => void,
+    ) {
+        this.callState = callState;
+        this.getTelephony = getTelephony;
+        this.contextService = contextService;
+        this.onCallLoaded = onCallLoaded;
+        this.onCallNotFound = onCallNotFound;
+        this.onForwardAudioToOpenAI = onForwardAudioToOpenAI;
+        this.onCallStarted = onCallStarted;
+        this.onMark = onMark;
+    }
+
+    /**
+     * Process a media stream event
+     * @param event The event
+     */
+    public async processEvent(event: MediaStreamEvent): Promise<void> {
+        try {
+            switch (event.type) {
+            case 'media':
+                await this.handleMediaEvent(event);
+                break;
+            case 'start':
+                await this.handleStartEvent(event);
+                break;
+            case 'mark':
+                this.handleMarkEvent(event);
+                break;
+            case 'stop':
+                this.handleStreamEnded();
+                break;
+            }
+        } catch (error) {
+            console.error(`Error handling ${event.type} event:`, error);
+        }
+    }
+
+    /**
+     * Wrap up the call once its media stream has ended, from the carrier's stop event or
+     * the stream closing, whichever comes first. Hang-ups on our side close the stream
+     * without a stop event, so both lead here; the call is only wrapped up once.
+     */
+    public handleStreamEnded(): void {
+        if (this.ended) {
+            return;
+        }
+        this.ended = true;
+
+        // End the call in the database
+        if (this.callState.callSid) {
+            const callSid = this.callState.callSid;
+            callPersistenceService.endCall(callSid)
+                .catch(err => console.error('Failed to end call in database:', err));
+
+            // Give the last transcriptions a moment to be saved before extracting the outcome
+            if (this.callState.outcomeSchema) {
+                setTimeout(() => {
+                    outcomeService.finalizeOutcome(callSid)
+                        .catch(err => console.error('Failed to extract call outcome:', err));
+                }, OUTCOME_EXTRACTION_DELAY_MS);
+            }
+        }
+    }
+
+    /**
+     * Handle a media event
+     * @param event The event
+     */
+    private async handleMediaEvent(event: Extract<MediaStreamEvent, { type: 'media' }>): Promise<void> {
+        this.callState.latestMediaTimestamp = event.timestamp;
+        if (SHOW_TIMING_MATH) {
+            // console.log(`Received media message with timestamp: ${this.callState.latestMediaTimestamp}ms`);
+        }
+
+        this.onForwardAudioToOpenAI(event.payload);
+    }
+
+    /**
+     * Start recording the call
+     */
+    private async startCallRecording(): Promise<void> {
+        await this.getTelephony().startRecording(this.callState.callSid);
+    }
+
+    /**
+     * Handle a start event
+     * @param event The event
+     */
+    private async handleStartEvent(event: Extract<MediaStreamEvent, { type: 'start' }>): Promise<void> {
+        this.callState.streamSid = event.streamSid;
+        this.callState.responseStartTimestampTwilio = null;
+        this.callState.latestMediaTimestamp = 0;
+
+        this.callState.callSid = event.callSid;
+
+        // Load per-call settings saved when the call was placed. Without them the call's owner,
+        // and so its credentials, quota and settings, are unknown, so it must not go on.
+        const call = await this.findCall(event.callSid);
+        if (!call) {
+            console.error(`No call record for media stream ${event.streamSid} (call ${event.callSid}), ending it`);
+            this.onCallNotFound();
+            return;
+        }
+
+        // Before anything uses the carrier or OpenAI, so the owner's own accounts are used
+        if (!(await this.onCallLoaded(call.userId))) {
+            return;
+        }
+        this.callState.settings = callPersistenceService.getCallSettings(call);
+        this.callState.awaitingMachineDetection = call.voicemailDetection;
+        this.callState.keywordHangup = call.keywordHangup;
+        this.callState.record = call.record;
+        // Here rather than on the first media event, which can arrive while the call is still loading
+        if (this.callState.record) {
+            this.startCallRecording()
+                .catch(err => console.error('Failed to start call recording:', err));
+        }
+        this.callState.outcomeSchema = (call.outcomeSchema as Record<string, unknown> | null) ?? null;
+        this.callState.functionTools = await functionToolService.getToolsForCall(call)
+            .catch(err => {
+                console.error('Failed to load function tools:', err);
+                return [];
+            });
+        this.callState.timeouts = await callTimeoutService.resolveTimeouts(call)
+            .catch(err => {
+                console.error('Failed to load call timeouts:', err);
+                return callTimeoutService.merge();
+            });
+
+        this.contextService.initializeCallState(this.callState, event.parameters.fromNumber, event.parameters.toNumber);
+        this.contextService.setupConversationContext(
+            this.callState,
+            event.parameters.callContext,
+            event.parameters.callbackContext
+        );
+
+        // Update call status to in_progress (call record was created by the MCP tool or the inbound webhook)
+        callPersistenceService.updateCallStatus(event.callSid, CallStatus.IN_PROGRESS)
+            .catch(err => console.error('Failed to update call status:', err));
+
+        this.onCallStarted();
+    }
+
+    /**
+     * Look up the call a media stream belongs to, retrying briefly in case its row is not
+     * visible yet
+     * @param callSid The carrier's call SID
+     * @returns The call, or null if it still cannot be found
+     */
+    private async findCall(callSid: string): Promise<Call | null> {
+        for (let attempt = 1; attempt <= CALL_LOOKUP_ATTEMPTS; attempt++) {
+            const call = await callPersistenceService.findCall(callSid)
+                .catch(err => {
+                    console.error('Failed to load call settings:', err);
+                    return null;
+                });
+            if (call || this.ended) {
+                return call;
+            }
+            if (attempt < CALL_LOOKUP_ATTEMPTS) {
+                await new Promise(resolve => setTimeout(resolve, CALL_LOOKUP_RETRY_MS));
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Handle a mark event
+     * @param event The event
+     */
+    private handleMarkEvent(event: Extract<MediaStreamEvent, { type: 'mark' }>): void {
+        if (this.callState.markQueue.length > 0) {
+            this.callState.markQueue.shift();
+        }
+
+        if (event.name) {
+            this.onMark(event.name);
+        }
+    }
+}
@@ -0,0 +1,106 @@
+import { WebSocket } from 'ws';
+import { CallState, CallStatus, MakeCallOptions, TelephonyProviderName } from '../../types.js';
+
+/**
+ * A call handed to the carrier
+ */
+export interface DialedCall {
+    callSid: string;
+    status: CallStatus | null;
+    // The status in the carrier's own terms, e.g. Twilio's "queued"
+    providerStatus: string;
+}
+
+/**
+ * A change in a call's lifecycle reported by the carrier
+ */
+export interface CallStatusEvent {
+    callSid: string;
+    status: CallStatus;
+    providerStatus: string;
+    durationSeconds?: number;
+    sipResponseCode?: number;
+    timestamp?: Date;
+}
+
+/**
+ * An event on a call's media stream, decoded from the carrier's framing
+ */
+export type MediaStreamEvent =
+    | { type: 'start'; callSid: string; streamSid: string; parameters: Record<string, string> }
+    // μ-law 8 kHz audio from the other party, base64 encoded; timestamp is ms since the stream started
+    | { type: 'media'; timestamp: number; payload: string }
+    // Audio sent before the mark has played
+    | { type: 'mark'; name: string }
+    | { type: 'stop' };
+
+/**
+ * The carrier's side of a call's audio, over the WebSocket the carrier opened to the voice server
+ */
+export interface MediaStream {
+    /**
+     * Send μ-law 8 kHz audio, base64 encoded, to play to the other party
+     */
+    sendAudio(payload: string): void;
+
+    /**
+     * Ask to be told (with a mark event) once the audio sent so far has played
+     */
+    sendMark(name?: string): void;
+
+    /**
+     * Drop audio that has not been played yet
+     */
+    clearStream(): void;
+
+    close(): void;
+
+    setupEventHandlers(onEvent: (event: MediaStreamEvent) => Promise<void>, onClose: () => void): void;
+}
+
+/**
+ * A carrier that places calls and streams their audio to the voice server.
+ * Status changes are reported to the call status service as CallStatusEvents.
+ */
+export interface TelephonyProvider {
+    readonly name: TelephonyProviderName;
+
+    // Whether the carrier reports answering machine detection results
+    readonly supportsMachineDetection: boolean;
+
+    /**
+     * Get the number calls are placed from by default
+     */
+    getFromNumber(): string;
+
+    /**
+     * Get the provider to use for a user's calls, e.g. on their own carrier account
+     */
+    forUser(userId: string): Promise<TelephonyProvider>;
+
+    /**
+     * Place an outbound call whose media is streamed to the voice server once answered
+     */
+    makeCall(toNumber: string, callContext?: string, options?: MakeCallOptions): Promise<DialedCall>;
+
+    /**
+     * Hang up a call
+     */
+    endCall(callSid: string): Promise<void>;
+
+    /**
+     * Cancel a call that is still queued or ringing
+     * @returns The call status after cancelling, in the carrier's terms
+     */
+    cancelCall(callSid: string): Promise<string>;
+
+    /**
+     * Start recording a call with the carrier
+     */
+    startRecording(callSid: string): Promise<void>;
+
+    /**
+     * Wrap the media stream WebSocket of one of this carrier's calls
+     */
+    createMediaStream(webSocket: WebSocket, callState: CallState): MediaStream;
+}
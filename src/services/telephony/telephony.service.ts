@@ -0,0 +1,46 @@
+import { TelephonyProviderName } from '../../types.js';
+import { TelephonyProvider } from './provider.js';
+
+/**
+ * Registry of the carriers calls can be placed with. Providers are registered at
+ * startup; TELEPHONY_PROVIDER picks the one used when a call does not choose.
+ */
+export class TelephonyService {
+    private readonly providers = new Map<TelephonyProviderName, TelephonyProvider>();
+
+    register(provider: TelephonyProvider): void {
+        this.providers.set(provider.name, provider);
+    }
+
+    /**
+     * Get a registered provider
+     * @param name The provider, or undefined for the default
+     * @throws Error if the provider is not enabled on this server
+     */
+    get(name?: TelephonyProviderName | string): TelephonyProvider {
+        const providerName = (name || this.getDefaultName()) as TelephonyProviderName;
+        const provider = this.providers.get(providerName);
+        if (!provider) {
+            throw new Error(`Telephony provider ${providerName} is not enabled on this server`);
+        }
+        return provider;
+    }
+
+    /**
+     * Get the provider a call was placed with, on its owner's account
+     */
+    async forCall(call: { provider: string; userId: string }): Promise<TelephonyProvider> {
+        return this.get(call.provider).forUser(call.userId);
+    }
+
+    isEnabled(name: TelephonyProviderName): boolean {
+        return this.providers.has(name);
+    }
+
+    getDefaultName(): TelephonyProviderName {
+        return (process.env.TELEPHONY_PROVIDER as TelephonyProviderName | undefined) || TelephonyProviderName.TWILIO;
+    }
+}
+
+// Singleton instance for use by the call dispatcher, session manager, voice server and MCP tools
+export const telephonyService = new TelephonyService();
@@ -1,11 +1,18 @@
 import twilio from 'twilio';
-import { CallInstance } from 'twilio/lib/rest/api/v2010/account/call.js';
-import { DYNAMIC_API_SECRET, RECORD_CALLS } from '../../config/constants.js';
+import { WebSocket } from 'ws';
+import { DYNAMIC_API_SECRET } from '../../config/constants.js';
+import { CallState, MakeCallOptions, TelephonyProviderName } from '../../types.js';
+import { fromTwilioStatus } from '../../utils/call-status.js';
+import { credentialService } from '../credential.service.js';
+import { DialedCall, TelephonyProvider } from '../telephony/provider.js';
+import { TwilioWsService } from './ws.service.js';
 
 /**
  * Service for handling Twilio call operations
  */
-export class TwilioCallService {
+export class TwilioCallService implements TelephonyProvider {
+    public readonly name = TelephonyProviderName.TWILIO;
+    public readonly supportsMachineDetection = true;
     private readonly twilioClient: twilio.Twilio;
     private callbackUrl: string = '';
     private readonly fromNumber: string;
@@ -35,6 +42,22 @@ export class TwilioCallService {
         return this.callbackUrl;
     }
 
+    /**
+     * Get the call service for a user's calls: for their own or their team's Twilio
+     * account if they have stored credentials, otherwise this one
+     * @param userId The user the calls belong to
+     */
+    public async forUser(userId: string): Promise<TwilioCallService> {
+        const credentials = await credentialService.resolveTwilio(userId);
+        if (!credentials) {
+            return this;
+        }
+
+        const service = new TwilioCallService(credentialService.getTwilioClient(credentials), credentials.fromNumber);
+        service.setCallbackUrl(this.callbackUrl);
+        return service;
+    }
+
     /**
      * Get the from number
      */
@@ -42,19 +65,65 @@ export class TwilioCallService {
         return this.fromNumber;
     }
 
+    /**
+     * Check whether a phone number belongs to the Twilio account
+     * @param phoneNumber The number in E.164 format
+     */
+    public async isAccountNumber(phoneNumber: string): Promise<boolean> {
+        if (phoneNumber === this.fromNumber) {
+            return true;
+        }
+
+        const numbers = await this.twilioClient.incomingPhoneNumbers.list({ phoneNumber, limit: 1 });
+        return numbers.length > 0;
+    }
+
+    /**
+     * Find a number verified as an outgoing caller ID on the Twilio account
+     * @param phoneNumber The number in E.164 format
+     * @returns The outgoing caller ID SID, or null if the number is not verified
+     */
+    public async findOutgoingCallerId(phoneNumber: string): Promise<string | null> {
+        const callerIds = await this.twilioClient.outgoingCallerIds.list({ phoneNumber, limit: 1 });
+        return callerIds[0]?.sid ?? null;
+    }
+
+    /**
+     * Start Twilio's outgoing caller ID validation: Twilio calls the number and asks
+     * for the returned code, then posts the result to the caller ID callback
+     * @param phoneNumber The number in E.164 format
+     * @param friendlyName A label for the number in the Twilio console
+     * @returns The validation code to enter on the call
+     */
+    public async requestCallerIdValidation(phoneNumber: string, friendlyName?: string): Promise<string> {
+        const request = await this.twilioClient.validationRequests.create({
+            phoneNumber,
+            friendlyName,
+            statusCallback: `${this.callbackUrl}/call/caller-id`,
+            statusCallbackMethod: 'POST'
+        });
+
+        return request.validationCode;
+    }
+
     /**
      * Start recording a call
      * @param callSid The SID of the call to record
      */
     public async startRecording(callSid: string): Promise<void> {
-        if (!RECORD_CALLS || !callSid) {
+        if (!callSid) {
             return;
         }
 
         try {
             await this.twilioClient.calls(callSid)
                 .recordings
-                .create();
+                .create({
+                    recordingChannels: 'dual',
+                    recordingStatusCallback: `${this.callbackUrl}/call/recording`,
+                    recordingStatusCallbackEvent: ['in-progress', 'completed', 'absent'],
+                    recordingStatusCallbackMethod: 'POST'
+                });
         } catch (error) {
             console.error(`Failed to start recording for call ${callSid}:`, error);
         }
@@ -77,13 +146,32 @@ export class TwilioCallService {
         }
     }
 
+    /**
+     * Cancel a call that is still queued or ringing
+     * @param callSid The SID of the call to cancel
+     * @returns The call status after cancelling
+     */
+    public async cancelCall(callSid: string): Promise<string> {
+        const call = await this.twilioClient.calls(callSid).fetch();
+
+        if (call.status !== 'queued' && call.status !== 'ringing') {
+            throw new Error(`Call cannot be cancelled because it is ${call.status}`);
+        }
+
+        const updated = await this.twilioClient.calls(callSid)
+            .update({ status: 'canceled' });
+
+        return updated.status;
+    }
+
     /**
      * Make an outbound call
      * @param toNumber The number to call
      * @param callContext Context for the call
-     * @returns The Twilio call instance
+     * @param options Per-call options
+     * @returns The SID and status of the Twilio call
      */
-    public async makeCall(toNumber: string, callContext = ''): Promise<CallInstance> {
+    public async makeCall(toNumber: string, callContext = '', options: MakeCallOptions = {}): Promise<DialedCall> {
         if (!this.callbackUrl) {
             throw new Error('Callback URL not set');
         }
@@ -93,14 +181,33 @@ export class TwilioCallService {
 
             const call = await this.twilioClient.calls.create({
                 to: toNumber,
-                from: this.fromNumber,
+                from: options.fromNumber || this.fromNumber,
                 url: `${this.callbackUrl}/call/outgoing?apiSecret=${DYNAMIC_API_SECRET}&callType=outgoing&callContext=${callContextEncoded}`,
+                statusCallback: `${this.callbackUrl}/call/status`,
+                statusCallbackEvent: ['initiated', 'ringing', 'answered', 'completed'],
+                statusCallbackMethod: 'POST',
+                // Async AMD lets the media stream start immediately; the result is posted once the greeting ends
+                ...(options.detectVoicemail ? {
+                    machineDetection: 'DetectMessageEnd',
+                    asyncAmd: 'true',
+                    asyncAmdStatusCallback: `${this.callbackUrl}/call/amd`,
+                    asyncAmdStatusCallbackMethod: 'POST',
+                } : {}),
             });
 
-            return call;
+            return { callSid: call.sid, status: fromTwilioStatus(call.status), providerStatus: call.status };
         } catch (error) {
             console.error(`Error making call: ${error}`);
             throw error;
         }
     }
+
+    /**
+     * Wrap the media stream Twilio opened for one of its calls
+     * @param webSocket The Twilio WebSocket connection
+     * @param callState The state of the call
+     */
+    public createMediaStream(webSocket: WebSocket, callState: CallState): TwilioWsService {
+        return new TwilioWsService(webSocket, callState);
+    }
 }
@@ -1,11 +1,11 @@
 import { WebSocket } from 'ws';
 import { CallState } from '../../types.js';
-import { SHOW_TIMING_MATH } from '../../config/constants.js';
+import { MediaStream, MediaStreamEvent } from '../telephony/provider.js';
 
 /**
  * Service for handling Twilio WebSocket streams
  */
-export class TwilioWsService {
+export class TwilioWsService implements MediaStream {
     private readonly webSocket: WebSocket;
     private readonly callState: CallState;
 
@@ -30,8 +30,9 @@ export class TwilioWsService {
 
     /**
      * Send a mark event to Twilio
+     * @param name The mark name, echoed back once the audio before it has played
      */
-    public sendMark(): void {
+    public sendMark(name = 'responsePart'): void {
         if (!this.callState.streamSid) {
             return;
         }
@@ -39,10 +40,10 @@ export class TwilioWsService {
         const markEvent = {
             event: 'mark',
             streamSid: this.callState.streamSid,
-            mark: { name: 'responsePart' }
+            mark: { name }
         };
         this.webSocket.send(JSON.stringify(markEvent));
-        this.callState.markQueue.push('responsePart');
+        this.callState.markQueue.push(name);
     }
 
     /**
@@ -78,45 +79,57 @@ export class TwilioWsService {
 
     /**
      * Set up event handlers for the Twilio WebSocket
-     * @param onMessage Callback for handling messages from Twilio
+     * @param onEvent Callback for handling events from Twilio
      * @param onClose Callback for when the connection is closed
      */
     public setupEventHandlers(
-        onMessage: (message: Buffer | string) => void,
+        onEvent: (event: MediaStreamEvent) => Promise<void>,
         onClose: () => void
     ): void {
-        this.webSocket.on('message', onMessage);
+        this.webSocket.on('message', async (message: Buffer | string) => {
+            const event = this.parseMessage(message);
+            if (event) {
+                await onEvent(event);
+            }
+        });
         this.webSocket.on('close', onClose);
     }
 
     /**
-     * Process a Twilio start event
-     * @param data The start event data
+     * Decode a Twilio media stream message
+     * @param message The message data
+     * @returns The event, or null if it is not one the call handles
      */
-    public processStartEvent(data: any): void {
-        this.callState.streamSid = data.start.streamSid;
-        this.callState.responseStartTimestampTwilio = null;
-        this.callState.latestMediaTimestamp = 0;
-        this.callState.callSid = data.start.callSid;
-    }
-
-    /**
-     * Process a Twilio mark event
-     */
-    public processMarkEvent(): void {
-        if (this.callState.markQueue.length > 0) {
-            this.callState.markQueue.shift();
+    private parseMessage(message: Buffer | string): MediaStreamEvent | null {
+        let data: any;
+        try {
+            data = JSON.parse(message.toString());
+        } catch (error) {
+            console.error('Error parsing message:', error, 'Message:', message);
+            return null;
         }
-    }
 
-    /**
-     * Process a Twilio media event
-     * @param data The media event data
-     */
-    public processMediaEvent(data: any): void {
-        this.callState.latestMediaTimestamp = data.media.timestamp;
-        if (SHOW_TIMING_MATH) {
-            // console.log(`Received media message with timestamp: ${this.callState.latestMediaTimestamp}ms`);
+        switch (data.event) {
+        case 'media':
+            return { type: 'media', timestamp: Number(data.media.timestamp), payload: data.media.payload };
+        case 'start':
+            return {
+                type: 'start',
+                callSid: data.start.callSid,
+                streamSid: data.start.streamSid,
+                parameters: data.start.customParameters || {}
+            };
+        case 'mark':
+            return { type: 'mark', name: data.mark?.name || '' };
+        case 'stop':
+            console.error('Received non-media event:', data.event);
+            return { type: 'stop' };
+        case 'connected':
+            console.error('Received non-media event:', data.event);
+            return null;
+        default:
+            console.error('Received unknown event:', data.event);
+            return null;
         }
     }
 }
@@ -0,0 +1,349 @@
+import { Call, CallUsage, Prisma } from '@prisma/client';
+import { prisma } from './db.service.js';
+import { getPriceTable, getRealtimeModelPrices } from '../config/pricing.js';
+import { TelephonyProviderName } from '../types.js';
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+/**
+ * Token counts of one realtime response, as reported in response.done
+ */
+export interface RealtimeUsage {
+    input_tokens?: number;
+    output_tokens?: number;
+    input_token_details?: {
+        text_tokens?: number;
+        audio_tokens?: number;
+        cached_tokens_details?: {
+            text_tokens?: number;
+            audio_tokens?: number;
+        };
+    };
+    output_token_details?: {
+        text_tokens?: number;
+        audio_tokens?: number;
+    };
+}
+
+/**
+ * Usage summed over a set of calls
+ */
+export interface UsageTotals {
+    calls: number;
+    inputTextTokens: number;
+    inputAudioTokens: number;
+    cachedTextTokens: number;
+    cachedAudioTokens: number;
+    outputTextTokens: number;
+    outputAudioTokens: number;
+    billedMinutes: number;
+    openaiCostUsd: number;
+    twilioCostUsd: number;
+    estimatedCostUsd: number;
+}
+
+/**
+ * Usage of one user's calls started on one day (UTC)
+ */
+export interface DailyUsage extends UsageTotals {
+    userId: string;
+    day: string;
+}
+
+export interface UsageReport {
+    from: string;
+    to: string;
+    totals: UsageTotals;
+    days: DailyUsage[];
+}
+
+interface DailyUsageRow {
+    userId: string;
+    day: Date;
+    calls: bigint;
+    inputTextTokens: bigint;
+    inputAudioTokens: bigint;
+    cachedTextTokens: bigint;
+    cachedAudioTokens: bigint;
+    outputTextTokens: bigint;
+    outputAudioTokens: bigint;
+    billedMinutes: bigint;
+    openaiCostUsd: number;
+    twilioCostUsd: number;
+}
+
+export const USAGE_CSV_COLUMNS: (keyof DailyUsage)[] = [
+    'userId',
+    'day',
+    'calls',
+    'inputTextTokens',
+    'inputAudioTokens',
+    'cachedTextTokens',
+    'cachedAudioTokens',
+    'outputTextTokens',
+    'outputAudioTokens',
+    'billedMinutes',
+    'openaiCostUsd',
+    'twilioCostUsd',
+    'estimatedCostUsd'
+];
+
+/**
+ * Service for metering OpenAI and Twilio usage per call and estimating its cost
+ */
+export class UsageService {
+    /**
+     * Add the tokens of a completed realtime response to its call's usage
+     * @param callSid The call SID
+     * @param model The realtime model that generated the response
+     * @param usage The usage reported in response.done
+     */
+    async recordResponseUsage(callSid: string, model: string, usage: RealtimeUsage): Promise<void> {
+        const call = await prisma.call.findUnique({
+            where: { callSid },
+            select: { id: true }
+        });
+
+        if (!call) {
+            console.error(`Cannot record usage: call ${callSid} not found`);
+            return;
+        }
+
+        const inputText = usage.input_token_details?.text_tokens ?? 0;
+        const inputAudio = usage.input_token_details?.audio_tokens ?? 0;
+        const cachedText = usage.input_token_details?.cached_tokens_details?.text_tokens ?? 0;
+        const cachedAudio = usage.input_token_details?.cached_tokens_details?.audio_tokens ?? 0;
+        const outputText = usage.output_token_details?.text_tokens ?? 0;
+        const outputAudio = usage.output_token_details?.audio_tokens ?? 0;
+
+        const prices = getRealtimeModelPrices(model);
+        if (!prices) {
+            console.error(`No prices configured for realtime model ${model}; its cost is not estimated`);
+        }
+        const cost = prices
+            ? ((inputText - cachedText) * prices.textInput
+                + cachedText * prices.cachedTextInput
+                + (inputAudio - cachedAudio) * prices.audioInput
+                + cachedAudio * prices.cachedAudioInput
+                + outputText * prices.textOutput
+                + outputAudio * prices.audioOutput) / TOKENS_PER_PRICE_UNIT
+            : 0;
+
+        const increments = {
+            responses: { increment: 1 },
+            inputTextTokens: { increment: inputText },
+            inputAudioTokens: { increment: inputAudio },
+            cachedTextTokens: { increment: cachedText },
+            cachedAudioTokens: { increment: cachedAudio },
+            outputTextTokens: { increment: outputText },
+            outputAudioTokens: { increment: outputAudio },
+            openaiCostUsd: { increment: cost }
+        };
+
+        await this.upsertUsage(call.id, {
+            callId: call.id,
+            model,
+            responses: 1,
+            inputTextTokens: inputText,
+            inputAudioTokens: inputAudio,
+            cachedTextTokens: cachedText,
+            cachedAudioTokens: cachedAudio,
+            outputTextTokens: outputText,
+            outputAudioTokens: outputAudio,
+            openaiCostUsd: cost
+        }, { model, ...increments });
+    }
+
+    /**
+     * Add the speech-to-text and text-to-speech audio of a pipeline call to its estimated
+     * OpenAI cost; the chat model's tokens are recorded like a realtime response's
+     * @param callSid The call SID
+     * @param transcribedSeconds Audio sent to speech-to-text
+     * @param synthesizedSeconds Audio received from text-to-speech
+     */
+    async recordSpeechUsage(callSid: string, transcribedSeconds: number, synthesizedSeconds: number): Promise<void> {
+        const call = await prisma.call.findUnique({
+            where: { callSid },
+            select: { id: true }
+        });
+
+        if (!call) {
+            console.error(`Cannot record usage: call ${callSid} not found`);
+            return;
+        }
+
+        const { speech } = getPriceTable();
+        const cost = (transcribedSeconds * speech.transcriptionPerMinute + synthesizedSeconds * speech.synthesisPerMinute) / 60;
+
+        await this.upsertUsage(call.id, { callId: call.id, openaiCostUsd: cost }, { openaiCostUsd: { increment: cost } });
+    }
+
+    /**
+     * Record the duration Twilio bills for an ended call (simulated calls cost nothing)
+     * @param call The call, after its final status callback
+     */
+    async recordTelephonyUsage(call: Call): Promise<void> {
+        if (call.durationSeconds === null) {
+            return;
+        }
+
+        const billedMinutes = Math.ceil(call.durationSeconds / 60);
+        const { twilio } = getPriceTable();
+        const perMinute = call.provider === TelephonyProviderName.SIMULATED
+            ? 0
+            : call.direction === 'inbound' ? twilio.inboundPerMinute : twilio.outboundPerMinute;
+
+        const data = {
+            billedSeconds: call.durationSeconds,
+            billedMinutes,
+            twilioCostUsd: billedMinutes * perMinute
+        };
+
+        await this.upsertUsage(call.id, { callId: call.id, ...data }, data);
+    }
+
+    /**
+     * Get the usage of one of a user's calls
+     */
+    async getCallUsage(userId: string, callSid: string): Promise<CallUsage | null> {
+        return prisma.callUsage.findFirst({
+            where: { call: { callSid, userId } }
+        });
+    }
+
+    /**
+     * Aggregate usage by user and by day (UTC) of the call's start, between two dates inclusive
+     * @param userIds The users to report on
+     * @param from First day, YYYY-MM-DD
+     * @param to Last day, YYYY-MM-DD
+     */
+    async getUsageReport(userIds: string[], from: string, to: string): Promise<UsageReport> {
+        const start = this.parseDay(from);
+        const end = this.parseDay(to);
+        if (end < start) {
+            throw new Error('"to" must not be before "from"');
+        }
+        end.setUTCDate(end.getUTCDate() + 1);
+
+        const rows = userIds.length === 0 ? [] : await prisma.$queryRaw<DailyUsageRow[]>`
+            SELECT
+                c."user_id" AS "userId",
+                date_trunc('day', c."started_at") AS "day",
+                COUNT(*) AS "calls",
+                COALESCE(SUM(u."input_text_tokens"), 0) AS "inputTextTokens",
+                COALESCE(SUM(u."input_audio_tokens"), 0) AS "inputAudioTokens",
+                COALESCE(SUM(u."cached_text_tokens"), 0) AS "cachedTextTokens",
+                COALESCE(SUM(u."cached_audio_tokens"), 0) AS "cachedAudioTokens",
+                COALESCE(SUM(u."output_text_tokens"), 0) AS "outputTextTokens",
+                COALESCE(SUM(u."output_audio_tokens"), 0) AS "outputAudioTokens",
+                COALESCE(SUM(u."billed_minutes"), 0) AS "billedMinutes",
+                COALESCE(SUM(u."openai_cost_usd"), 0) AS "openaiCostUsd",
+                COALESCE(SUM(u."twilio_cost_usd"), 0) AS "twilioCostUsd"
+            FROM "calls" c
+            LEFT JOIN "call_usage" u ON u."call_id" = c."id"
+            WHERE c."user_id" IN (${Prisma.join(userIds)})
+                AND c."started_at" >= ${start} AND c."started_at" < ${end}
+            GROUP BY c."user_id", date_trunc('day', c."started_at")
+            ORDER BY "day", "userId"
+        `;
+
+        const days = rows.map(row => this.toDailyUsage(row));
+
+        return {
+            from,
+            to,
+            totals: this.sum(days),
+            days
+        };
+    }
+
+    /**
+     * Render daily usage as CSV
+     */
+    toCsv(days: DailyUsage[]): string {
+        const lines = days.map(day => USAGE_CSV_COLUMNS.map(column => String(day[column])).join(','));
+        return [USAGE_CSV_COLUMNS.join(','), ...lines].join('\n') + '\n';
+    }
+
+    /**
+     * Create a call's usage row, or update it if it exists. Two writes for the same new
+     * call can race to create the row; the loser applies its update instead.
+     */
+    private async upsertUsage(
+        callId: string,
+        create: Prisma.CallUsageUncheckedCreateInput,
+        update: Prisma.CallUsageUncheckedUpdateInput
+    ): Promise<void> {
+        try {
+            await prisma.callUsage.upsert({ where: { callId }, create, update });
+        } catch (error) {
+            if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+                throw error;
+            }
+            await prisma.callUsage.update({ where: { callId }, data: update });
+        }
+    }
+
+    private parseDay(value: string): Date {
+        const date = new Date(`${value}T00:00:00Z`);
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(date.getTime())) {
+            throw new Error(`Invalid date "${value}": use YYYY-MM-DD`);
+        }
+        return date;
+    }
+
+    private toDailyUsage(row: DailyUsageRow): DailyUsage {
+        const openaiCostUsd = this.roundCost(Number(row.openaiCostUsd));
+        const twilioCostUsd = this.roundCost(Number(row.twilioCostUsd));
+
+        return {
+            userId: row.userId,
+            day: row.day.toISOString().slice(0, 10),
+            calls: Number(row.calls),
+            inputTextTokens: Number(row.inputTextTokens),
+            inputAudioTokens: Number(row.inputAudioTokens),
+            cachedTextTokens: Number(row.cachedTextTokens),
+            cachedAudioTokens: Number(row.cachedAudioTokens),
+            outputTextTokens: Number(row.outputTextTokens),
+            outputAudioTokens: Number(row.outputAudioTokens),
+            billedMinutes: Number(row.billedMinutes),
+            openaiCostUsd,
+            twilioCostUsd,
+            estimatedCostUsd: this.roundCost(openaiCostUsd + twilioCostUsd)
+        };
+    }
+
+    private sum(days: DailyUsage[]): UsageTotals {
+        const totals: UsageTotals = {
+            calls: 0,
+            inputTextTokens: 0,
+            inputAudioTokens: 0,
+            cachedTextTokens: 0,
+            cachedAudioTokens: 0,
+            outputTextTokens: 0,
+            outputAudioTokens: 0,
+            billedMinutes: 0,
+            openaiCostUsd: 0,
+            twilioCostUsd: 0,
+            estimatedCostUsd: 0
+        };
+
+        for (const day of days) {
+            for (const key of Object.keys(totals) as (keyof UsageTotals)[]) {
+                totals[key] += day[key];
+            }
+        }
+
+        totals.openaiCostUsd = this.roundCost(totals.openaiCostUsd);
+        totals.twilioCostUsd = this.roundCost(totals.twilioCostUsd);
+        totals.estimatedCostUsd = this.roundCost(totals.estimatedCostUsd);
+        return totals;
+    }
+
+    private roundCost(value: number): number {
+        return Math.round(value * 1_000_000) / 1_000_000;
+    }
+}
+
+// Singleton instance for use by event handlers and MCP tools
+export const usageService = new UsageService();
@@ -3,9 +3,16 @@ import { execSync } from 'child_process';
 import twilio from 'twilio';
 import { isPortInUse } from './utils/execution-utils.js';
 import { TwilioCallService } from './services/twilio/call.service.js';
+import { SimulatedCallService } from './services/simulated/call.service.js';
+import { telephonyService } from './services/telephony/telephony.service.js';
+import { DYNAMIC_API_SECRET } from './config/constants.js';
 import { VoiceServer } from './servers/voice.server.js';
 import { CallSessionManager } from './handlers/openai.handler.js';
 import { CallPersistenceService } from './services/call-persistence.service.js';
+import { CallDispatchService } from './services/call-dispatch.service.js';
+import { scheduledCallService } from './services/scheduled-call.service.js';
+import { callRetryService } from './services/call-retry.service.js';
+import { campaignService } from './services/campaign.service.js';
 import { connectDatabase, disconnectDatabase, cleanupExpiredData } from './services/db.service.js';
 import { startWebServer } from './servers/web.server.js';
 
@@ -26,6 +33,7 @@ const PORT = parseInt(process.env.PORT || '3000', 10);
 const VOICE_PORT = parseInt(process.env.VOICE_PORT || '3004', 10);
 const BASE_URL = process.env.BASE_URL || '';
 const CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+const SCHEDULER_INTERVAL_MS = 15 * 1000; // 15 seconds
 
 /**
  * Validates that all required environment variables are present
@@ -135,8 +143,23 @@ async function main(): Promise<void> {
             twilioClient,
             process.env.TWILIO_NUMBER!
         );
+        telephonyService.register(twilioCallService);
+
+        // Fake calls to local softphones, for running the call path without a carrier
+        const simulatedCallService = process.env.SIMULATED_TELEPHONY_TOKEN
+            ? new SimulatedCallService(
+                process.env.TWILIO_NUMBER!,
+                `ws://localhost:${VOICE_PORT}/call/simulated/connection/${DYNAMIC_API_SECRET}`
+            )
+            : null;
+        if (simulatedCallService) {
+            telephonyService.register(simulatedCallService);
+            console.error(`Simulated telephony enabled: connect softphones to ws://localhost:${VOICE_PORT}/call/simulator`);
+        }
+
         const callPersistenceService = new CallPersistenceService();
-        const sessionManager = new CallSessionManager(twilioClient);
+        const sessionManager = new CallSessionManager();
+        const callDispatchService = new CallDispatchService(twilioCallService);
 
         // Start voice server for Twilio webhooks (if not already running)
         const startVoiceServer = async () => {
@@ -158,7 +181,7 @@ async function main(): Promise<void> {
             console.error(`Twilio callback URL: ${twilioCallbackUrl}`);
 
             // Start voice server
-            const voiceServer = new VoiceServer(twilioCallbackUrl, sessionManager);
+            const voiceServer = new VoiceServer(twilioCallbackUrl, sessionManager, simulatedCallService);
             voiceServer.start();
             console.error(`Voice server ready on port ${VOICE_PORT}`);
         };
@@ -170,7 +193,7 @@ async function main(): Promise<void> {
 
         // Start web server with OAuth and MCP
         console.error(`Starting web server on port ${PORT}...`);
-        await startWebServer(PORT, baseUrl, twilioCallService, callPersistenceService);
+        await startWebServer(PORT, baseUrl, twilioCallService, callPersistenceService, sessionManager, callDispatchService);
 
         // Setup periodic cleanup
         setInterval(() => {
@@ -179,6 +202,22 @@ async function main(): Promise<void> {
             });
         }, CLEANUP_INTERVAL_MS);
 
+        // Dial scheduled calls, retries and campaigns once the voice server can receive them
+        setInterval(() => {
+            if (!callDispatchService.isReady()) {
+                return;
+            }
+            scheduledCallService.processDueCalls(callDispatchService).catch(err => {
+                console.error('Scheduler error:', err);
+            });
+            callRetryService.processDueRetries(callDispatchService).catch(err => {
+                console.error('Retry scheduler error:', err);
+            });
+            campaignService.processCampaigns(callDispatchService).catch(err => {
+                console.error('Campaign runner error:', err);
+            });
+        }, SCHEDULER_INTERVAL_MS);
+
         // Setup shutdown handlers
         setupShutdownHandlers();
 
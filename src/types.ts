@@ -1,6 +1,191 @@
 // state.ts - Shared state variables
 export enum CallType {
     OUTBOUND = 'OUTBOUND',
+    INBOUND = 'INBOUND',
+}
+
+/**
+ * Lifecycle status of a call, recorded on the call
+ */
+export enum CallStatus {
+    PENDING = 'pending',
+    INITIATED = 'initiated',
+    RINGING = 'ringing',
+    IN_PROGRESS = 'in_progress',
+    COMPLETED = 'completed',
+    BUSY = 'busy',
+    NO_ANSWER = 'no_answer',
+    FAILED = 'failed',
+    CANCELLED = 'cancelled',
+}
+
+/**
+ * Why a call ended, recorded on the call
+ */
+export enum CallEndReason {
+    COMPLETED = 'completed',
+    GOODBYE = 'goodbye',
+    ENDED_BY_USER = 'ended_by_user',
+    CANCELLED_BY_USER = 'cancelled_by_user',
+    BUSY = 'busy',
+    NO_ANSWER = 'no_answer',
+    FAILED = 'failed',
+    CANCELLED = 'cancelled',
+    AGENT_ENDED = 'agent_ended',
+    VOICEMAIL_LEFT = 'voicemail_left',
+    FAX = 'fax',
+    MAX_DURATION = 'max_duration',
+    SILENCE_TIMEOUT = 'silence_timeout',
+    OPTED_OUT = 'opted_out',
+}
+
+/**
+ * What to do when neither side has spoken for the silence timeout
+ */
+export enum SilenceAction {
+    PROMPT = 'prompt',
+    HANGUP = 'hangup',
+}
+
+/**
+ * What trigger-call does when the recipient is outside their calling hours
+ */
+export enum OutsideHoursAction {
+    REFUSE = 'refuse',
+    SCHEDULE = 'schedule',
+}
+
+/**
+ * How a recipient's time zone was determined
+ */
+export enum TimeZoneSource {
+    EXPLICIT = 'explicit',
+    AREA_CODE = 'area_code',
+    COUNTRY = 'country',
+    // Not known, and not needed as calls are allowed at any time
+    UNKNOWN = 'unknown',
+}
+
+export enum CallerIdStatus {
+    PENDING = 'pending',
+    VERIFIED = 'verified',
+    FAILED = 'failed',
+}
+
+/**
+ * How a caller ID was verified: as a number on the Twilio account, or through
+ * Twilio's outgoing caller ID validation call
+ */
+export enum CallerIdSource {
+    ACCOUNT_NUMBER = 'account_number',
+    OUTGOING_CALLER_ID = 'outgoing_caller_id',
+}
+
+/**
+ * The carrier a call is placed with. The simulated provider places fake calls to
+ * softphones connected to the voice server, without a phone carrier.
+ */
+export enum TelephonyProviderName {
+    TWILIO = 'twilio',
+    SIMULATED = 'simulated',
+}
+
+/**
+ * The conversation engine a call's agent runs on: a realtime speech-to-speech API
+ * (OpenAI's beta protocol, OpenAI's GA protocol, or a realtime deployment on Azure
+ * OpenAI), or a pipeline of separate speech-to-text, chat and text-to-speech models
+ */
+export enum RealtimeBackendName {
+    OPENAI = 'openai',
+    OPENAI_GA = 'openai_ga',
+    AZURE_OPENAI = 'azure_openai',
+    PIPELINE = 'pipeline',
+}
+
+export enum TeamRole {
+    OWNER = 'owner',
+    MEMBER = 'member',
+}
+
+export enum InstructionMode {
+    MESSAGE = 'message',
+    INSTRUCTIONS = 'instructions',
+}
+
+export enum ScheduledCallStatus {
+    PENDING = 'pending',
+    DIALING = 'dialing',
+    DIALED = 'dialed',
+    FAILED = 'failed',
+    CANCELLED = 'cancelled',
+}
+
+/**
+ * Unsuccessful call outcomes a retry policy can retry
+ */
+export enum RetryOutcome {
+    BUSY = 'busy',
+    NO_ANSWER = 'no_answer',
+    VOICEMAIL = 'voicemail',
+    FAILED = 'failed',
+}
+
+export enum CampaignStatus {
+    RUNNING = 'running',
+    COMPLETED = 'completed',
+    CANCELLED = 'cancelled',
+}
+
+export enum CampaignMemberStatus {
+    PENDING = 'pending',
+    DIALING = 'dialing',
+    CALLING = 'calling',
+    COMPLETED = 'completed',
+    FAILED = 'failed',
+    CANCELLED = 'cancelled',
+}
+
+/**
+ * Per-user limits checked before a call is placed
+ */
+export enum QuotaLimit {
+    CONCURRENT_CALLS = 'concurrent_calls',
+    CALLS_PER_HOUR = 'calls_per_hour',
+    CALLS_PER_DAY = 'calls_per_day',
+    MONTHLY_MINUTES = 'monthly_minutes',
+    MONTHLY_BUDGET = 'monthly_budget',
+}
+
+/**
+ * A user's call placement limits; null means unlimited
+ */
+export interface QuotaLimits {
+    maxConcurrentCalls: number | null;
+    maxCallsPerHour: number | null;
+    maxCallsPerDay: number | null;
+    monthlyMinutes: number | null;
+    monthlyBudgetUsd: number | null;
+}
+
+/**
+ * Why the destination policy refused to call a number
+ */
+export enum DestinationRejectionReason {
+    INVALID_NUMBER = 'invalid_number',
+    EMERGENCY_NUMBER = 'emergency_number',
+    SHORT_CODE = 'short_code',
+    PREMIUM_RATE = 'premium_rate',
+    GLOBAL_DENYLIST = 'global_denylist',
+    USER_DENYLIST = 'user_denylist',
+    NOT_IN_GLOBAL_ALLOWLIST = 'not_in_global_allowlist',
+    NOT_IN_USER_ALLOWLIST = 'not_in_user_allowlist',
+    COUNTRY_NOT_ALLOWED = 'country_not_allowed',
+    DO_NOT_CALL = 'do_not_call',
+}
+
+export enum DestinationRuleAction {
+    ALLOW = 'allow',
+    DENY = 'deny',
 }
 
 export interface ConversationMessage {
@@ -9,6 +194,35 @@ export interface ConversationMessage {
     name?: string;
 }
 
+/**
+ * A hang-up that waits for the agent's last words to finish playing
+ */
+export interface PendingHangup {
+    reason: CallEndReason;
+    detail?: string;
+}
+
+/**
+ * Per-call realtime session settings, validated against the allowlists in config/constants
+ */
+export interface CallSettings {
+    voice?: string;
+    model?: string;
+    temperature?: number;
+    language?: string;
+    transcriptionModel?: string;
+    backend?: RealtimeBackendName;
+}
+
+/**
+ * Limits on how long a call may run. A silence timeout of 0 turns silence detection off.
+ */
+export interface CallTimeouts {
+    maxDurationSeconds?: number;
+    silenceTimeoutSeconds?: number;
+    silenceAction?: SilenceAction;
+}
+
 export class CallState {
     // Call identification
     streamSid = '';
@@ -21,13 +235,40 @@ export class CallState {
     fromNumber = '';
     toNumber = '';
 
+    // Realtime session settings for this call
+    settings: CallSettings = {};
+    realtimeModel = '';
+    outcomeSchema: Record<string, unknown> | null = null;
+
     // Call context and conversation
     callContext = '';
+    taskContext = '';
     initialMessage = '';
     conversationHistory: ConversationMessage[] = [];
 
     // Speech state
     speaking = false;
+    responseActive = false;
+    callerSpeaking = false;
+    lastCallerSpeechTimestamp = 0;
+    agentAudioEndTimestamp = 0;
+
+    // Timeouts enforced by the call watchdog (set once the call has started)
+    timeouts: Required<CallTimeouts> | null = null;
+
+    // HTTP function tools available on this call
+    functionTools: FunctionToolDefinition[] = [];
+
+    // Recording state
+    record = false;
+
+    // Hang-up state
+    keywordHangup = true;
+    pendingHangup: PendingHangup | null = null;
+
+    // Answering machine detection state
+    awaitingMachineDetection = false;
+    voicemailMode = false;
 
     // Timing and processing state
     llmStart = 0;
@@ -39,7 +280,6 @@ export class CallState {
     responseStartTimestampTwilio: number | null = null;
     lastAssistantItemId: string | null = null;
     markQueue: string[] = [];
-    hasSeenMedia = false;
 
     constructor(callType: CallType = CallType.OUTBOUND) {
         this.callType = callType;
@@ -47,13 +287,88 @@ export class CallState {
 }
 
 /**
- * Configuration for the OpenAI WebSocket connection
+ * A user-defined function tool the agent can call mid-conversation. The arguments
+ * are POSTed as JSON to the endpoint and the response body is returned to the agent.
+ */
+export interface FunctionToolDefinition {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+    endpoint: string;
+    timeoutMs: number;
+    headers?: Record<string, string>;
+}
+
+/**
+ * Per-call options for placing an outbound call
+ */
+export interface MakeCallOptions {
+    detectVoicemail?: boolean;
+    fromNumber?: string;
+}
+
+/**
+ * How to retry an outbound call that was not answered. The first call counts
+ * as attempt 1; the delay before attempt n+1 is backoffSeconds * backoffMultiplier^(n-1).
+ */
+export interface RetryPolicy {
+    maxAttempts: number;
+    backoffSeconds: number;
+    backoffMultiplier: number;
+    retryOn: RetryOutcome[];
+}
+
+/**
+ * Everything needed to place an outbound call on a user's behalf. Stored as-is
+ * on scheduled calls so they can be dialled later.
+ */
+export interface CallRequest {
+    toNumber: string;
+    callContext: string;
+    detectVoicemail?: boolean;
+    keywordHangup?: boolean;
+    record?: boolean;
+    settings?: CallSettings;
+    outcomeSchema?: Record<string, unknown>;
+    functionTools?: FunctionToolDefinition[];
+    timeouts?: CallTimeouts;
+    retry?: RetryPolicy;
+    // Caller ID to show instead of the server's number; must be one of the user's verified caller IDs
+    fromNumber?: string;
+    // Carrier to place the call with (default from TELEPHONY_PROVIDER)
+    provider?: TelephonyProviderName;
+    // Recipient's time zone and calling windows, instead of inferring the zone from the
+    // number and using the owner's calling hours
+    timezone?: string;
+    callingWindows?: CallingWindow[];
+}
+
+/**
+ * Options of a call request that are shared by every call of a campaign
+ */
+export type CallOptions = Omit<CallRequest, 'toNumber' | 'callContext'>;
+
+/**
+ * A recurring time of day when calls may be placed, e.g. weekdays 09:00-17:00.
+ * Days are 0 (Sunday) to 6 (Saturday); times are "HH:MM" in a time zone given alongside.
+ */
+export interface CallingWindow {
+    days?: number[];
+    start: string;
+    end: string;
+}
+
+/**
+ * Configuration for a call's realtime backend connection
  */
-export interface OpenAIConfig {
+export interface RealtimeConfig {
     apiKey: string;
-    websocketUrl: string;
+    // The model (or deployment) to connect to; each backend has a default
+    model?: string;
     voice: string;
     temperature: number;
+    transcriptionModel: string;
+    language?: string;
 }
 
 /**
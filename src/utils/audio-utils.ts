@@ -0,0 +1,120 @@
+export const MULAW_SAMPLE_RATE = 8000;
+export const SAMPLES_PER_MS = MULAW_SAMPLE_RATE / 1000;
+
+const MULAW_BIAS = 0x84;
+const MULAW_CLIP = 32635;
+
+/**
+ * Decode one G.711 μ-law byte to a 16-bit linear PCM sample
+ */
+export const mulawToLinear = (byte: number): number => {
+    const value = ~byte & 0xff;
+    const sign = value & 0x80;
+    const exponent = (value >> 4) & 0x07;
+    const mantissa = value & 0x0f;
+    const magnitude = (((mantissa << 3) + MULAW_BIAS) << exponent) - MULAW_BIAS;
+    return sign ? -magnitude : magnitude;
+};
+
+// Lookup table, as decoding happens for every sample of a call
+const MULAW_DECODE_TABLE = Int16Array.from({ length: 256 }, (_, byte) => mulawToLinear(byte));
+
+/**
+ * Decode a buffer of μ-law bytes to 16-bit linear PCM samples
+ */
+export const decodeMulaw = (mulaw: Uint8Array): Int16Array => {
+    const samples = new Int16Array(mulaw.length);
+    for (let i = 0; i < mulaw.length; i++) {
+        samples[i] = MULAW_DECODE_TABLE[mulaw[i]];
+    }
+    return samples;
+};
+
+/**
+ * Encode one 16-bit linear PCM sample as a G.711 μ-law byte
+ */
+export const linearToMulaw = (sample: number): number => {
+    const sign = sample < 0 ? 0x80 : 0;
+    const magnitude = Math.min(Math.abs(sample), MULAW_CLIP) + MULAW_BIAS;
+
+    let exponent = 7;
+    for (let mask = 0x4000; (magnitude & mask) === 0 && exponent > 0; mask >>= 1) {
+        exponent--;
+    }
+
+    const mantissa = (magnitude >> (exponent + 3)) & 0x0f;
+    return ~(sign | (exponent << 4) | mantissa) & 0xff;
+};
+
+/**
+ * Encode 16-bit linear PCM samples as μ-law bytes
+ */
+export const encodeMulaw = (samples: Int16Array): Buffer => {
+    const mulaw = Buffer.alloc(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+        mulaw[i] = linearToMulaw(samples[i]);
+    }
+    return mulaw;
+};
+
+/**
+ * Resample 16-bit PCM to a lower rate, averaging the input samples behind each output sample
+ * @param samples The input samples
+ * @param fromRate The input sample rate
+ * @param toRate The output sample rate, at most the input rate
+ */
+export const downsample = (samples: Int16Array, fromRate: number, toRate: number): Int16Array => {
+    if (fromRate === toRate) {
+        return samples;
+    }
+
+    const step = fromRate / toRate;
+    const output = new Int16Array(Math.floor(samples.length / step));
+    for (let i = 0; i < output.length; i++) {
+        const start = Math.floor(i * step);
+        const end = Math.max(Math.floor((i + 1) * step), start + 1);
+        let sum = 0;
+        for (let j = start; j < end; j++) {
+            sum += samples[j];
+        }
+        output[i] = Math.round(sum / (end - start));
+    }
+    return output;
+};
+
+/**
+ * Encode 16-bit PCM channels of equal length as an interleaved WAV file
+ * @param channels One sample array per channel
+ * @param sampleRate Samples per second
+ */
+export const encodeWav = (channels: Int16Array[], sampleRate: number): Buffer => {
+    const channelCount = channels.length;
+    const frameCount = channels[0]?.length ?? 0;
+    const bytesPerSample = 2;
+    const dataSize = frameCount * channelCount * bytesPerSample;
+    const buffer = Buffer.alloc(44 + dataSize);
+
+    buffer.write('RIFF', 0, 'ascii');
+    buffer.writeUInt32LE(36 + dataSize, 4);
+    buffer.write('WAVE', 8, 'ascii');
+    buffer.write('fmt ', 12, 'ascii');
+    buffer.writeUInt32LE(16, 16);
+    buffer.writeUInt16LE(1, 20); // PCM
+    buffer.writeUInt16LE(channelCount, 22);
+    buffer.writeUInt32LE(sampleRate, 24);
+    buffer.writeUInt32LE(sampleRate * channelCount * bytesPerSample, 28);
+    buffer.writeUInt16LE(channelCount * bytesPerSample, 32);
+    buffer.writeUInt16LE(bytesPerSample * 8, 34);
+    buffer.write('data', 36, 'ascii');
+    buffer.writeUInt32LE(dataSize, 40);
+
+    let offset = 44;
+    for (let frame = 0; frame < frameCount; frame++) {
+        for (let channel = 0; channel < channelCount; channel++) {
+            buffer.writeInt16LE(channels[channel][frame], offset);
+            offset += bytesPerSample;
+        }
+    }
+
+    return buffer;
+};
@@ -0,0 +1,92 @@
+import { CallEndReason, CallStatus, RetryOutcome } from '../types.js';
+
+const TERMINAL_STATUSES: CallStatus[] = [
+    CallStatus.COMPLETED,
+    CallStatus.BUSY,
+    CallStatus.NO_ANSWER,
+    CallStatus.FAILED,
+    CallStatus.CANCELLED,
+];
+
+/**
+ * Allowed lifecycle transitions. Twilio may skip intermediate states (a call can fail
+ * before it rings), so every non-terminal status can move straight to an outcome.
+ */
+const TRANSITIONS: Record<CallStatus, CallStatus[]> = {
+    [CallStatus.PENDING]: [CallStatus.INITIATED, CallStatus.RINGING, CallStatus.IN_PROGRESS, ...TERMINAL_STATUSES],
+    [CallStatus.INITIATED]: [CallStatus.RINGING, CallStatus.IN_PROGRESS, ...TERMINAL_STATUSES],
+    [CallStatus.RINGING]: [CallStatus.IN_PROGRESS, ...TERMINAL_STATUSES],
+    [CallStatus.IN_PROGRESS]: [CallStatus.COMPLETED, CallStatus.FAILED],
+    [CallStatus.COMPLETED]: [],
+    [CallStatus.BUSY]: [],
+    [CallStatus.NO_ANSWER]: [],
+    [CallStatus.FAILED]: [],
+    [CallStatus.CANCELLED]: [],
+};
+
+const TWILIO_STATUSES: Record<string, CallStatus> = {
+    'queued': CallStatus.PENDING,
+    'initiated': CallStatus.INITIATED,
+    'ringing': CallStatus.RINGING,
+    'in-progress': CallStatus.IN_PROGRESS,
+    'completed': CallStatus.COMPLETED,
+    'busy': CallStatus.BUSY,
+    'no-answer': CallStatus.NO_ANSWER,
+    'failed': CallStatus.FAILED,
+    'canceled': CallStatus.CANCELLED,
+};
+
+const END_REASONS: Partial<Record<CallStatus, CallEndReason>> = {
+    [CallStatus.COMPLETED]: CallEndReason.COMPLETED,
+    [CallStatus.BUSY]: CallEndReason.BUSY,
+    [CallStatus.NO_ANSWER]: CallEndReason.NO_ANSWER,
+    [CallStatus.FAILED]: CallEndReason.FAILED,
+    [CallStatus.CANCELLED]: CallEndReason.CANCELLED,
+};
+
+export const isTerminalStatus = (status: string): boolean => {
+    return TERMINAL_STATUSES.includes(status as CallStatus);
+};
+
+/**
+ * Check whether a call may move from one status to another.
+ * Re-reporting the current status is allowed so late details (e.g. duration) can be recorded.
+ */
+export const canTransition = (from: string, to: CallStatus): boolean => {
+    if (from === to) {
+        return true;
+    }
+
+    const allowed = TRANSITIONS[from as CallStatus];
+    return allowed ? allowed.includes(to) : false;
+};
+
+export const fromTwilioStatus = (twilioStatus: string): CallStatus | null => {
+    return TWILIO_STATUSES[twilioStatus] ?? null;
+};
+
+export const endReasonForStatus = (status: CallStatus): CallEndReason => {
+    return END_REASONS[status] ?? CallEndReason.COMPLETED;
+};
+
+/**
+ * Classify how an ended call went for retry purposes
+ * @returns The unsuccessful outcome, or null if the call reached someone (or was cancelled)
+ */
+export const retryOutcomeFor = (status: string, endReason: string | null, answeredBy: string | null): RetryOutcome | null => {
+    switch (status) {
+    case CallStatus.BUSY:
+        return RetryOutcome.BUSY;
+    case CallStatus.NO_ANSWER:
+        return RetryOutcome.NO_ANSWER;
+    case CallStatus.FAILED:
+        return RetryOutcome.FAILED;
+    case CallStatus.COMPLETED:
+        if (endReason === CallEndReason.VOICEMAIL_LEFT || answeredBy?.startsWith('machine')) {
+            return RetryOutcome.VOICEMAIL;
+        }
+        return null;
+    default:
+        return null;
+    }
+};
@@ -0,0 +1,53 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const VERSION = 'v1';
+
+/**
+ * Key for secrets stored in the database, derived from CREDENTIALS_ENCRYPTION_KEY
+ * (read on use, since dotenv loads after module imports)
+ */
+const getKey = (): Buffer => {
+    const secret = process.env.CREDENTIALS_ENCRYPTION_KEY;
+    if (!secret) {
+        throw new Error('CREDENTIALS_ENCRYPTION_KEY is not set, so credentials cannot be stored');
+    }
+    return createHash('sha256').update(secret).digest();
+};
+
+/**
+ * Encrypt a secret with AES-256-GCM, as "v1:iv:tag:ciphertext" in base64
+ */
+export const encryptSecret = (plaintext: string): string => {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    return [VERSION, iv, cipher.getAuthTag(), ciphertext]
+        .map(part => typeof part === 'string' ? part : part.toString('base64'))
+        .join(':');
+};
+
+/**
+ * Decrypt a secret encrypted by encryptSecret
+ * @throws Error if the key is wrong or the value was tampered with
+ */
+export const decryptSecret = (encrypted: string): string => {
+    const [version, iv, tag, ciphertext] = encrypted.split(':');
+    if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+        throw new Error('Unrecognised encrypted secret');
+    }
+
+    const decipher = createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+};
+
+/**
+ * Show only the last characters of a secret, e.g. "...a1b2"
+ */
+export const maskSecret = (secret: string): string => {
+    return `...${secret.slice(-4)}`;
+};
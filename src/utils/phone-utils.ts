@@ -0,0 +1,96 @@
+import { CALLING_CODES, CANADIAN_AREA_CODES, COUNTRY_TIME_ZONES, NANP_AREA_CODE_TIME_ZONES } from '../config/phone-numbers.js';
+import { TimeZoneSource } from '../types.js';
+
+const E164 = /^\+[1-9]\d{6,14}$/;
+const NANP_NUMBER = /^\+1[2-9]\d{2}[2-9]\d{6}$/;
+
+const AREA_CODE_TIME_ZONES = new Map(Object.entries(NANP_AREA_CODE_TIME_ZONES)
+    .flatMap(([timeZone, areaCodes]) => areaCodes.map(areaCode => [areaCode, timeZone] as const)));
+
+/**
+ * Remove the formatting people commonly type in phone numbers: spaces, dashes, dots and parentheses
+ */
+export const stripPhoneFormatting = (value: string): string => {
+    return value.trim().replace(/[\s\-.()]/g, '');
+};
+
+/**
+ * Normalise a phone number to E.164. International dialling prefixes (00, 011) are
+ * accepted in place of "+"; numbers without a country code are not.
+ * @returns The E.164 number, or null if the value is not a valid international number
+ */
+export const normalizePhoneNumber = (value: string): string | null => {
+    let number = stripPhoneFormatting(value);
+
+    if (number.startsWith('00')) {
+        number = `+${number.slice(2)}`;
+    } else if (number.startsWith('011')) {
+        number = `+${number.slice(3)}`;
+    }
+
+    if (!E164.test(number)) {
+        return null;
+    }
+
+    // North American numbers have a fixed length and area code format
+    if (number.startsWith('+1') && !NANP_NUMBER.test(number)) {
+        return null;
+    }
+
+    return number;
+};
+
+/**
+ * Get the country calling code of an E.164 number, e.g. "44" for +442071234567
+ */
+export const getCallingCode = (e164: string): string | null => {
+    for (const length of [1, 2, 3]) {
+        const code = e164.slice(1, 1 + length);
+        if (CALLING_CODES[code]) {
+            return code;
+        }
+    }
+    return null;
+};
+
+/**
+ * Get the number without its country calling code
+ */
+export const getNationalNumber = (e164: string): string => {
+    const code = getCallingCode(e164);
+    return code ? e164.slice(1 + code.length) : e164.slice(1);
+};
+
+/**
+ * Get the ISO 3166-1 alpha-2 country of an E.164 number, or null if its calling code is unknown
+ */
+export const getCountryForNumber = (e164: string): string | null => {
+    const code = getCallingCode(e164);
+    if (!code) {
+        return null;
+    }
+
+    if (code === '1') {
+        return CANADIAN_AREA_CODES.includes(e164.slice(2, 5)) ? 'CA' : 'US';
+    }
+
+    return CALLING_CODES[code][0];
+};
+
+/**
+ * Infer the IANA time zone of an E.164 number from its area code (North America)
+ * or its country. Only a best guess for countries spanning several time zones.
+ * @returns The time zone and how it was inferred, or null if the country is unknown
+ */
+export const getTimeZoneForNumber = (e164: string): { timeZone: string; source: TimeZoneSource } | null => {
+    if (e164.startsWith('+1')) {
+        const timeZone = AREA_CODE_TIME_ZONES.get(e164.slice(2, 5));
+        if (timeZone) {
+            return { timeZone, source: TimeZoneSource.AREA_CODE };
+        }
+    }
+
+    const country = getCountryForNumber(e164);
+    const timeZone = country ? COUNTRY_TIME_ZONES[country] : undefined;
+    return timeZone ? { timeZone, source: TimeZoneSource.COUNTRY } : null;
+};
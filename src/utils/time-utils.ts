@@ -0,0 +1,184 @@
+import { CallingWindow } from '../types.js';
+
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/;
+const HAS_OFFSET = /(Z|[+-]\d{2}:?\d{2})$/i;
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Get the wall-clock date and time parts of an instant in a time zone
+ */
+export const getZonedParts = (date: Date, timeZone: string): {
+    year: number; month: number; day: number; hour: number; minute: number; second: number; weekday: number;
+} => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+        weekday: 'short'
+    }).formatToParts(date);
+
+    const get = (type: string) => parts.find(p => p.type === type)?.value || '';
+    const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+    return {
+        year: Number(get('year')),
+        month: Number(get('month')),
+        day: Number(get('day')),
+        hour: Number(get('hour')),
+        minute: Number(get('minute')),
+        second: Number(get('second')),
+        weekday: weekdays.indexOf(get('weekday'))
+    };
+};
+
+/**
+ * Offset of a time zone from UTC at a given instant, in milliseconds
+ */
+const getTimeZoneOffsetMs = (date: Date, timeZone: string): number => {
+    const p = getZonedParts(date, timeZone);
+    const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+    return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * Convert a wall-clock time in a time zone to an instant
+ * @param year Full year
+ * @param month Month (1-12)
+ * @param day Day of the month
+ * @param hour Hour (0-23)
+ * @param minute Minute
+ * @param second Second
+ * @param timeZone IANA time zone name
+ */
+export const zonedTimeToUtc = (
+    year: number, month: number, day: number, hour: number, minute: number, second: number, timeZone: string
+): Date => {
+    const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+
+    // Resolve twice so times next to a DST change use the offset in force at that time
+    let utc = wallClockAsUtc - getTimeZoneOffsetMs(new Date(wallClockAsUtc), timeZone);
+    utc = wallClockAsUtc - getTimeZoneOffsetMs(new Date(utc), timeZone);
+
+    return new Date(utc);
+};
+
+/**
+ * Parse a date-time given either as an absolute ISO 8601 timestamp (with Z or an offset)
+ * or as a local wall-clock time ("2026-10-20T09:05") in the given time zone
+ * @throws Error if the value or time zone is invalid
+ */
+export const parseDateTimeInZone = (value: string, timeZone = 'UTC'): Date => {
+    if (!isValidTimeZone(timeZone)) {
+        throw new Error(`Unknown time zone: ${timeZone}`);
+    }
+
+    const trimmed = value.trim();
+    if (HAS_OFFSET.test(trimmed)) {
+        const date = new Date(trimmed);
+        if (isNaN(date.getTime())) {
+            throw new Error(`Invalid date-time: ${value}`);
+        }
+        return date;
+    }
+
+    const match = LOCAL_DATE_TIME.exec(trimmed);
+    if (!match) {
+        throw new Error(`Invalid date-time: ${value} (expected e.g. 2026-10-20T09:05)`);
+    }
+
+    const [, year, month, day, hour, minute, second] = match;
+    return zonedTimeToUtc(
+        Number(year), Number(month), Number(day), Number(hour), Number(minute), Number(second || 0), timeZone
+    );
+};
+
+/**
+ * Format an instant as a local ISO-like string in a time zone, e.g. "2026-10-20T09:05:00"
+ */
+export const formatInTimeZone = (date: Date, timeZone: string): string => {
+    const p = getZonedParts(date, timeZone);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}`;
+};
+
+/**
+ * Check that calling windows use "HH:MM" times and days 0-6
+ * @throws Error describing the first invalid window
+ */
+export const validateCallingWindows = (windows: CallingWindow[]): void => {
+    for (const window of windows) {
+        if (!TIME_OF_DAY.test(window.start) || !TIME_OF_DAY.test(window.end)) {
+            throw new Error(`Invalid calling window ${window.start}-${window.end} (expected HH:MM)`);
+        }
+        if (window.days?.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+            throw new Error(`Invalid calling window days ${window.days.join(',')} (expected 0 = Sunday to 6 = Saturday)`);
+        }
+    }
+};
+
+const minutesOfDay = (time: string): number => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+};
+
+/**
+ * Check whether an instant falls inside any of the calling windows in a time zone.
+ * A window whose end is before its start runs past midnight.
+ */
+export const isWithinCallingWindows = (date: Date, windows: CallingWindow[], timeZone: string): boolean => {
+    const p = getZonedParts(date, timeZone);
+    const now = p.hour * 60 + p.minute;
+    const yesterday = (p.weekday + 6) % 7;
+
+    return windows.some(window => {
+        const start = minutesOfDay(window.start);
+        const end = minutesOfDay(window.end);
+        const onDay = (day: number) => !window.days || window.days.includes(day);
+
+        if (start <= end) {
+            return onDay(p.weekday) && now >= start && now < end;
+        }
+
+        return (onDay(p.weekday) && now >= start) || (onDay(yesterday) && now < end);
+    });
+};
+
+/**
+ * Find the next time a calling window opens after an instant, looking up to a week ahead
+ * @returns The start of the next window, or null if no window ever opens
+ */
+export const getNextCallingWindowStart = (date: Date, windows: CallingWindow[], timeZone: string): Date | null => {
+    const p = getZonedParts(date, timeZone);
+
+    for (let offset = 0; offset <= 7; offset++) {
+        // Walk the local calendar; Date.UTC normalises day overflow into the next month
+        const day = new Date(Date.UTC(p.year, p.month - 1, p.day + offset));
+        const starts = windows
+            .filter(window => !window.days || window.days.includes(day.getUTCDay()))
+            .map(window => {
+                const [hour, minute] = window.start.split(':').map(Number);
+                return zonedTimeToUtc(day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate(), hour, minute, 0, timeZone);
+            })
+            .filter(start => start > date);
+
+        if (starts.length > 0) {
+            return new Date(Math.min(...starts.map(start => start.getTime())));
+        }
+    }
+
+    return null;
+};